@@ -3,7 +3,12 @@ import type { CapacitorConfig } from '@capacitor/cli';
 const config: CapacitorConfig = {
   appId: 'com.app.zoya',
   appName: 'zoya',
-  webDir: 'dist'
+  webDir: 'dist',
+  plugins: {
+    NodeJS: {
+      nodeDir: 'nodejs'
+    }
+  }
 };
 
 export default config;
@@ -0,0 +1,115 @@
+// mDNS/Bonjour advertisement and browsing for baby monitors.
+//
+// Baby devices publish a `_zoya-monitor._tcp` service pointing at the
+// signaling server; parents browse for it. bonjour-service is optional so the
+// signaling server still runs when this folder is bundled without it.
+const SERVICE_TYPE = 'zoya-monitor';
+const REQUERY_INTERVAL_MS = 5000;
+
+const loadBonjour = () => {
+  try {
+    return require('bonjour-service').Bonjour;
+  } catch (error) {
+    return null;
+  }
+};
+
+const isIPv4 = (address) => /^\d{1,3}(\.\d{1,3}){3}$/.test(address);
+
+// Flatten a bonjour-service Service into what the pages need
+const toRecord = (service) => {
+  const addresses = service.addresses || [];
+  const host =
+    addresses.find(isIPv4) ||
+    addresses[0] ||
+    (service.referer && service.referer.address) ||
+    service.host;
+
+  return {
+    name: service.name,
+    host,
+    port: service.port,
+    txt: service.txt || {},
+    seenAt: Date.now()
+  };
+};
+
+/**
+ * Creates the discovery helper, or returns null when bonjour-service is not
+ * installed. `advertise` publishes this device; `browse` reports services
+ * as they are seen (again) and when they go, until the returned function is
+ * called.
+ */
+function createDiscovery(options = {}) {
+  const { log = console.log } = options;
+  const Bonjour = loadBonjour();
+  if (!Bonjour) {
+    log('bonjour-service not installed, mDNS discovery disabled');
+    return null;
+  }
+
+  const bonjour = new Bonjour({}, (error) => log('mDNS error:', error));
+  let published = null;
+
+  const stopAdvertising = () => {
+    if (published) {
+      const service = published;
+      published = null;
+      service.stop();
+    }
+  };
+
+  const advertise = ({ id, name, port, protocolVersion, capabilities = [] }) => {
+    stopAdvertising();
+
+    published = bonjour.publish({
+      // Service instance names must be unique on the network
+      name: `${name} (${id.slice(-6)})`,
+      type: SERVICE_TYPE,
+      port,
+      txt: {
+        id,
+        name,
+        v: String(protocolVersion),
+        caps: capabilities.join(',')
+      }
+    });
+    published.on('error', (error) => log('Error publishing mDNS service:', error));
+    log('Advertising mDNS service:', published.name);
+  };
+
+  const browse = (onUp, onDown) => {
+    const browser = bonjour.find({ type: SERVICE_TYPE });
+    browser.on('up', (service) => onUp(toRecord(service)));
+    browser.on('down', (service) => onDown(toRecord(service)));
+
+    // A device that dies never says goodbye, so query again regularly and
+    // report every service that answers as seen. Parents use that as a
+    // heartbeat.
+    const handleResponse = (packet) => {
+      const answered = new Set(
+        packet.answers.filter((rr) => rr.type === 'PTR').map((rr) => String(rr.data).toLowerCase())
+      );
+      browser.services
+        .filter((service) => answered.has(service.fqdn.toLowerCase()))
+        .forEach((service) => onUp(toRecord(service)));
+    };
+    browser.mdns.on('response', handleResponse);
+    const requery = setInterval(() => browser.update(), REQUERY_INTERVAL_MS);
+
+    return () => {
+      clearInterval(requery);
+      browser.mdns.removeListener('response', handleResponse);
+      browser.stop();
+    };
+  };
+
+  const destroy = () => {
+    stopAdvertising();
+    bonjour.destroy();
+  };
+
+  return { advertise, stopAdvertising, browse, destroy };
+}
+
+module.exports = { createDiscovery, SERVICE_TYPE };
@@ -0,0 +1,76 @@
+// Entry point for the signaling server.
+//
+// Inside the app this is started by capacitor-nodejs and relays signaling
+// and discovery messages to the page over the `bridge` channel. Run it
+// directly with `npm run signaling-server` to serve a baby monitor (or browse
+// for one) from a desktop browser.
+const { createSignalingServer, DEFAULT_PORT, PROTOCOL_VERSION } = require('./signaling-server');
+const { createDiscovery } = require('./discovery');
+
+let channel = null;
+try {
+  channel = require('bridge').channel;
+} catch (error) {
+  channel = null;
+}
+
+const port = Number(process.env.SIGNALING_PORT) || DEFAULT_PORT;
+// Pages allowed on the host routes, comma separated, when the baby page isn't
+// served by the dev server (e.g. `vite preview`)
+const appOrigins = process.env.SIGNALING_APP_ORIGINS ? process.env.SIGNALING_APP_ORIGINS.split(',') : undefined;
+const discovery = createDiscovery();
+const signaling = createSignalingServer({ httpHost: !channel, discovery, appOrigins });
+
+let listeningPort = null;
+let stopBrowsing = null;
+
+if (channel) {
+  signaling.on('message', (parentId, message) => channel.send('signaling:message', parentId, message));
+
+  channel.on('signaling:send', (parentId, message, sessionKey) =>
+    signaling.sendToParent(parentId, message, sessionKey)
+  );
+  channel.on('signaling:status', () => {
+    if (listeningPort !== null) {
+      channel.send('signaling:ready', { port: listeningPort, discovery: discovery !== null });
+    }
+  });
+
+  if (discovery) {
+    channel.on('discovery:advertise', (device) => {
+      if (listeningPort === null) return;
+      discovery.advertise({ ...device, port: listeningPort, protocolVersion: PROTOCOL_VERSION });
+    });
+    channel.on('discovery:unadvertise', () => discovery.stopAdvertising());
+
+    channel.on('discovery:browse', () => {
+      if (stopBrowsing) return;
+      stopBrowsing = discovery.browse(
+        (service) => channel.send('discovery:up', service),
+        (service) => channel.send('discovery:down', service)
+      );
+    });
+    channel.on('discovery:stop-browse', () => {
+      if (stopBrowsing) {
+        stopBrowsing();
+        stopBrowsing = null;
+      }
+    });
+  }
+}
+
+signaling
+  .listen(port)
+  .then((actualPort) => {
+    listeningPort = actualPort;
+    console.log(`Signaling server listening on port ${actualPort}`);
+    if (channel) {
+      channel.send('signaling:ready', { port: actualPort, discovery: discovery !== null });
+    }
+  })
+  .catch((error) => {
+    console.error('Failed to start signaling server:', error);
+    if (channel) {
+      channel.send('signaling:error', { message: error.message });
+    }
+  });
@@ -0,0 +1,719 @@
+// WebRTC signaling server for the baby monitor.
+//
+// Parents hold a WebSocket on /webrtc/ws for pairing, offers, answers,
+// trickle ICE, renegotiation, motion regions and bye messages. Parents that
+// can't hold sockets use the HTTP routes (/webrtc/pair, /webrtc/offer,
+// /webrtc/ice-candidate, /webrtc/motion-regions and polling
+// /webrtc/get-candidates/:id) instead.
+// Offers are only answered for paired parents; the host checks that. When it
+// answers, the host hands the server a session key, and everything else the
+// parent sends in that session (candidates, bye, motion regions) must carry a
+// fresh sequence number signed with it.
+//
+// The baby page ("host") is reached either through the capacitor-nodejs
+// bridge (see main.js) or, when running as a plain Node process next to a
+// browser, through the loopback-only /webrtc/host routes. The loopback-only
+// /discovery routes likewise let a browser page use mDNS (see discovery.js).
+// Any page open in that browser shares its loopback address, so these routes
+// also only serve the app's own origins (see `appOrigins`).
+const crypto = require('crypto');
+const http = require('http');
+const { EventEmitter } = require('events');
+const { acceptWebSocket, rejectUpgrade } = require('./websocket');
+
+const DEFAULT_PORT = 8090;
+// Must match SIGNALING_PROTOCOL_VERSION in src/lib/signaling/protocol.ts
+const PROTOCOL_VERSION = 1;
+const ANSWER_TIMEOUT_MS = 15000;
+const HOST_POLL_TIMEOUT_MS = 25000;
+// An HTTP host that polled this recently is still there between polls
+const HOST_SEEN_GRACE_MS = 5000;
+const KEEPALIVE_INTERVAL_MS = 30000;
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_QUEUED_HOST_EVENTS = 200;
+const MAX_PARENT_ID_LENGTH = 128;
+const BROWSE_IDLE_TIMEOUT_MS = 30000;
+// Signed requests may arrive out of order (parallel HTTP posts), but no
+// further back than this
+const SESSION_SEQ_WINDOW = 64;
+// A parent whose socket dropped (e.g. a Wi-Fi blip) has this long to come
+// back with a new socket or a signed request before the host hears bye.
+// Matches PARENT_RECONNECT_GRACE_MS on the baby.
+const SESSION_GRACE_MS = 15000;
+// Pages that may act as the host: the native app and the Vite dev server
+const DEFAULT_APP_ORIGINS = ['capacitor://localhost', 'http://localhost:8080', 'http://127.0.0.1:8080'];
+
+class HttpError extends Error {
+  constructor(status, message, code) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const isLoopback = (address) =>
+  address === '127.0.0.1' || address === '::1' || address === '::ffff:127.0.0.1';
+
+const isHostPath = (pathname) => pathname.startsWith('/webrtc/host/') || pathname.startsWith('/discovery/');
+
+const isValidParentId = (parentId) =>
+  typeof parentId === 'string' && parentId.length > 0 && parentId.length <= MAX_PARENT_ID_LENGTH;
+
+const readJsonBody = (req) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    let size = 0;
+
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      body += chunk.toString();
+    });
+
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(new HttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+
+    req.on('error', reject);
+  });
+
+const sendJson = (res, status, data) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+};
+
+const requireParentId = (body) => {
+  if (!body || !isValidParentId(body.parentId)) {
+    throw new HttpError(400, 'Missing parentId');
+  }
+  return body.parentId;
+};
+
+// Parent requests are versioned like socket messages
+const requireVersion = (body) => {
+  if (body.v !== PROTOCOL_VERSION) {
+    throw new HttpError(
+      400,
+      `Incompatible protocol version ${body.v === undefined ? 'missing' : body.v}, expected ${PROTOCOL_VERSION}`
+    );
+  }
+};
+
+// Messages the server builds itself carry the protocol version like any other
+const createMessage = (type, fields) => ({ v: PROTOCOL_VERSION, type, ...fields });
+
+const parseSocketMessage = (data) => {
+  try {
+    const message = JSON.parse(data);
+    return message && typeof message.type === 'string' ? message : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Creates the signaling server.
+ *
+ * Messages from parents are emitted as `message` events with the parent id;
+ * the host replies with `sendToParent`. Pass `httpHost: true` to also expose
+ * the host side through the /webrtc/host routes, and a `discovery` helper to
+ * expose mDNS through the /discovery routes. Those routes only answer pages
+ * from `appOrigins`. `sessionGraceMs` overrides SESSION_GRACE_MS.
+ */
+function createSignalingServer(options = {}) {
+  const {
+    httpHost = false,
+    discovery = null,
+    appOrigins = DEFAULT_APP_ORIGINS,
+    sessionGraceMs = SESSION_GRACE_MS,
+    log = console.log
+  } = options;
+
+  const signaling = new EventEmitter();
+  const pendingReplies = new Map();
+  const candidatesForParent = new Map();
+  const parentSockets = new Map();
+  const sessions = new Map();
+  const hostEvents = [];
+  const hostPollers = new Set();
+  let hostSocket = null;
+  let hostSeenAt = 0;
+  const browsedServices = new Map();
+  let stopBrowsing = null;
+  let browseIdleTimer = null;
+
+  const toHost = (parentId, message) => {
+    signaling.emit('message', parentId, message);
+  };
+
+  // Browsers always send Origin on these requests (the page is on another
+  // port, or it's a WebSocket). Without one it's a local program, which the
+  // loopback check already lets in.
+  const isAppOrigin = (origin) => origin === undefined || appOrigins.includes(origin);
+
+  // Host transport for a page running next to a standalone server
+  const deliverToHttpHost = (parentId, message) => {
+    const envelope = { parentId, message };
+
+    if (hostSocket && hostSocket.isOpen) {
+      hostSocket.send(JSON.stringify(envelope));
+      return;
+    }
+
+    hostEvents.push(envelope);
+    if (hostEvents.length > MAX_QUEUED_HOST_EVENTS) {
+      hostEvents.shift();
+    }
+    flushHostEvents();
+  };
+
+  const flushHostEvents = () => {
+    if (hostEvents.length === 0) return;
+    const poller = hostPollers.values().next().value;
+    if (!poller) return;
+    hostPollers.delete(poller);
+    clearTimeout(poller.timer);
+    sendJson(poller.res, 200, { events: hostEvents.splice(0) });
+  };
+
+  if (httpHost) {
+    signaling.on('message', deliverToHttpHost);
+  }
+
+  // Whether a baby page is there to answer: a bridge listener, or an HTTP
+  // host with an open socket or a recent poll. deliverToHttpHost is always
+  // subscribed, so it doesn't count.
+  const isHostAvailable = () =>
+    signaling.listenerCount('message') > (httpHost ? 1 : 0) ||
+    (hostSocket !== null && hostSocket.isOpen) ||
+    hostPollers.size > 0 ||
+    Date.now() - hostSeenAt < HOST_SEEN_GRACE_MS;
+
+  const keepSession = (session) => {
+    clearTimeout(session.byeTimer);
+    session.byeTimer = null;
+  };
+
+  const endSession = (parentId) => {
+    const session = sessions.get(parentId);
+    if (session) keepSession(session);
+    sessions.delete(parentId);
+  };
+
+  /**
+   * Checks a parent's request against its session: `auth` must be the HMAC
+   * of `type:parentId:seq` under the session key (see signSessionRequest in
+   * src/lib/signaling/pairing.ts) and `seq` must not have been used before.
+   */
+  const verifySessionRequest = (parentId, type, seq, auth) => {
+    const session = sessions.get(parentId);
+    if (!session || !Number.isSafeInteger(seq) || typeof auth !== 'string') return false;
+    if (seq <= session.maxSeq - SESSION_SEQ_WINDOW || session.usedSeqs.has(seq)) return false;
+
+    const expected = crypto.createHmac('sha256', session.key).update(`${type}:${parentId}:${seq}`).digest();
+    const given = Buffer.from(auth, 'base64');
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return false;
+
+    // The parent is still there, whatever happened to its socket
+    keepSession(session);
+    session.usedSeqs.add(seq);
+    session.maxSeq = Math.max(session.maxSeq, seq);
+    session.usedSeqs.forEach((used) => {
+      if (used <= session.maxSeq - SESSION_SEQ_WINDOW) session.usedSeqs.delete(used);
+    });
+    return true;
+  };
+
+  const requireSession = (parentId, type, seq, auth) => {
+    if (!verifySessionRequest(parentId, type, seq, auth)) {
+      throw new HttpError(403, 'Not part of an active session');
+    }
+  };
+
+  // Wait for the host's reply (`replyType` or an error) to an HTTP request
+  const waitForReply = (parentId, replyType) =>
+    new Promise((resolve, reject) => {
+      const previous = pendingReplies.get(parentId);
+      if (previous) {
+        clearTimeout(previous.timer);
+        previous.reject(new HttpError(409, 'Superseded by a newer request'));
+      }
+
+      const timer = setTimeout(() => {
+        pendingReplies.delete(parentId);
+        reject(new HttpError(504, 'Baby monitor did not answer in time'));
+      }, ANSWER_TIMEOUT_MS);
+
+      pendingReplies.set(parentId, { replyType, resolve, reject, timer });
+    });
+
+  /**
+   * Delivers a host message to a parent: replies go to a waiting HTTP
+   * request if there is one, everything else to the parent's socket. ICE
+   * candidates for parents without a socket are queued for
+   * /webrtc/get-candidates. An answer that comes with a `sessionKey` starts
+   * a new session; the key itself never reaches the parent.
+   */
+  signaling.sendToParent = (parentId, message, sessionKey) => {
+    if (message.type === 'answer' && typeof sessionKey === 'string') {
+      endSession(parentId);
+      sessions.set(parentId, {
+        key: Buffer.from(sessionKey, 'base64'),
+        maxSeq: 0,
+        usedSeqs: new Set(),
+        // Only this socket closing ends the session
+        socket: parentSockets.get(parentId) || null,
+        // Pending bye after that socket dropped
+        byeTimer: null
+      });
+    }
+
+    const pending = pendingReplies.get(parentId);
+    if (pending && (message.type === pending.replyType || message.type === 'error')) {
+      pendingReplies.delete(parentId);
+      clearTimeout(pending.timer);
+      if (message.type === 'error') {
+        pending.reject(new HttpError(403, message.message || 'Request rejected', message.code));
+      } else {
+        pending.resolve(message);
+      }
+      return true;
+    }
+
+    const socket = parentSockets.get(parentId);
+    if (socket && socket.isOpen) {
+      return socket.send(JSON.stringify(message));
+    }
+
+    if (message.type === 'ice-candidate') {
+      if (!candidatesForParent.has(parentId)) {
+        candidatesForParent.set(parentId, []);
+      }
+      candidatesForParent.get(parentId).push(message.candidate);
+      return true;
+    }
+
+    log(`Dropping ${message.type} for unreachable parent:`, parentId);
+    return false;
+  };
+
+  const requireDiscovery = () => {
+    if (!discovery) {
+      throw new HttpError(501, 'mDNS discovery is not available');
+    }
+    return discovery;
+  };
+
+  // Browse while a page keeps polling /discovery/services, then go quiet
+  const keepBrowsing = () => {
+    if (!stopBrowsing) {
+      stopBrowsing = requireDiscovery().browse(
+        (service) => browsedServices.set(service.name, service),
+        (service) => browsedServices.delete(service.name)
+      );
+    }
+    clearTimeout(browseIdleTimer);
+    browseIdleTimer = setTimeout(() => {
+      stopBrowsing();
+      stopBrowsing = null;
+      browsedServices.clear();
+    }, BROWSE_IDLE_TIMEOUT_MS);
+  };
+
+  const routes = {
+    'POST /webrtc/offer': async (req, res) => {
+      const body = await readJsonBody(req);
+      const parentId = requireParentId(body);
+      requireVersion(body);
+      if (!body.offer || typeof body.offer.sdp !== 'string') {
+        throw new HttpError(400, 'Missing offer');
+      }
+
+      if (!isHostAvailable()) {
+        throw new HttpError(503, 'Baby monitor is not running');
+      }
+
+      log('WebRTC offer received from parent:', parentId);
+      if (!body.renegotiate) {
+        candidatesForParent.set(parentId, []);
+      }
+      const reply = waitForReply(parentId, 'answer');
+      toHost(parentId, createMessage(body.renegotiate ? 'renegotiate' : 'offer', { offer: body.offer, auth: body.auth }));
+
+      const { answer } = await reply;
+      sendJson(res, 200, { answer });
+    },
+
+    'POST /webrtc/pair': async (req, res) => {
+      const body = await readJsonBody(req);
+      const parentId = requireParentId(body);
+      requireVersion(body);
+      if (typeof body.publicKey !== 'string' || typeof body.proof !== 'string') {
+        throw new HttpError(400, 'Missing publicKey or proof');
+      }
+
+      if (!isHostAvailable()) {
+        throw new HttpError(503, 'Baby monitor is not running');
+      }
+
+      log('Pairing request received from parent:', parentId);
+      const reply = waitForReply(parentId, 'paired');
+      toHost(parentId, createMessage('pair', { publicKey: body.publicKey, proof: body.proof }));
+
+      const { deviceId, name, publicKey, proof } = await reply;
+      sendJson(res, 200, { deviceId, name, publicKey, proof });
+    },
+
+    'POST /webrtc/ice-candidate': async (req, res) => {
+      const body = await readJsonBody(req);
+      const parentId = requireParentId(body);
+      requireVersion(body);
+      if (!body.candidate) {
+        throw new HttpError(400, 'Missing candidate');
+      }
+      requireSession(parentId, 'ice-candidate', body.seq, body.auth);
+
+      toHost(parentId, createMessage('ice-candidate', { candidate: body.candidate }));
+      sendJson(res, 200, { success: true });
+    },
+
+    'POST /webrtc/bye': async (req, res) => {
+      const body = await readJsonBody(req);
+      const parentId = requireParentId(body);
+      requireVersion(body);
+      requireSession(parentId, 'bye', body.seq, body.auth);
+      endSession(parentId);
+      candidatesForParent.delete(parentId);
+      toHost(parentId, createMessage('bye'));
+      sendJson(res, 200, { success: true });
+    },
+
+    'POST /webrtc/motion-regions': async (req, res) => {
+      const body = await readJsonBody(req);
+      const parentId = requireParentId(body);
+      requireVersion(body);
+      if (!Array.isArray(body.regions)) {
+        throw new HttpError(400, 'Missing regions');
+      }
+      requireSession(parentId, 'motion-regions', body.seq, body.auth);
+
+      toHost(parentId, createMessage('motion-regions', { regions: body.regions }));
+      sendJson(res, 200, { success: true });
+    },
+
+    'POST /webrtc/host/message': async (req, res) => {
+      const body = await readJsonBody(req);
+      const parentId = requireParentId(body);
+      if (!body.message || typeof body.message.type !== 'string') {
+        throw new HttpError(400, 'Missing message');
+      }
+      hostSeenAt = Date.now();
+      signaling.sendToParent(parentId, body.message, body.sessionKey);
+      sendJson(res, 200, { success: true });
+    },
+
+    'POST /discovery/advertise': async (req, res) => {
+      const body = await readJsonBody(req);
+      if (typeof body.id !== 'string' || typeof body.name !== 'string') {
+        throw new HttpError(400, 'Missing id or name');
+      }
+      requireDiscovery().advertise({
+        id: body.id,
+        name: body.name,
+        capabilities: Array.isArray(body.capabilities) ? body.capabilities.map(String) : [],
+        port: server.address().port,
+        protocolVersion: PROTOCOL_VERSION
+      });
+      sendJson(res, 200, { success: true });
+    },
+
+    'POST /discovery/unadvertise': async (req, res) => {
+      requireDiscovery().stopAdvertising();
+      sendJson(res, 200, { success: true });
+    },
+
+    'GET /discovery/services': async (req, res) => {
+      keepBrowsing();
+      sendJson(res, 200, { services: [...browsedServices.values()] });
+    },
+
+    'GET /webrtc/host/events': async (req, res) => {
+      hostSeenAt = Date.now();
+      const poller = {
+        res,
+        timer: setTimeout(() => {
+          hostPollers.delete(poller);
+          sendJson(res, 200, { events: [] });
+        }, HOST_POLL_TIMEOUT_MS)
+      };
+
+      // The host polls again right away, so it was here until now
+      req.on('close', () => {
+        clearTimeout(poller.timer);
+        hostPollers.delete(poller);
+        hostSeenAt = Date.now();
+      });
+
+      hostPollers.add(poller);
+      flushHostEvents();
+    }
+  };
+
+  const handleRequest = async (req, res) => {
+    const { pathname, searchParams } = new URL(req.url, 'http://localhost');
+    const { origin } = req.headers;
+
+    // Parents may be any page; the host side is only readable by the app
+    if (!isHostPath(pathname)) {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+    } else if (origin !== undefined && appOrigins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    }
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    try {
+      if (req.method === 'GET' && pathname.startsWith('/webrtc/get-candidates/')) {
+        let parentId;
+        try {
+          parentId = decodeURIComponent(pathname.slice('/webrtc/get-candidates/'.length));
+        } catch {
+          throw new HttpError(400, 'Malformed parent id');
+        }
+        // Without a session there is nothing to hand out (the baby page
+        // probes this route to find the server)
+        if (!sessions.has(parentId)) {
+          sendJson(res, 200, { candidates: [] });
+          return;
+        }
+        requireSession(parentId, 'get-candidates', Number(searchParams.get('seq')), searchParams.get('auth'));
+        const candidates = candidatesForParent.get(parentId) || [];
+        candidatesForParent.set(parentId, []); // Clear after retrieval
+        sendJson(res, 200, { candidates });
+        return;
+      }
+
+      if (isHostPath(pathname)) {
+        if (!httpHost) {
+          throw new HttpError(404, 'Endpoint not found');
+        }
+        if (!isLoopback(req.socket.remoteAddress)) {
+          throw new HttpError(403, 'Host endpoints are only available on this device');
+        }
+        // A simple (text/plain) POST from another page skips the preflight
+        if (!isAppOrigin(origin)) {
+          throw new HttpError(403, 'Host endpoints are only available to the baby monitor app');
+        }
+      }
+
+      const route = routes[`${req.method} ${pathname}`];
+      if (!route) {
+        throw new HttpError(404, 'Endpoint not found');
+      }
+
+      await route(req, res);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) {
+        log('Signaling server error:', error);
+      }
+      if (!res.headersSent) {
+        sendJson(res, status, { error: error.message, code: error.code });
+      }
+    }
+  };
+
+  const handleParentSocket = (socket, parentId) => {
+    const previous = parentSockets.get(parentId);
+    parentSockets.set(parentId, socket);
+    if (previous) {
+      previous.close(4000, 'Replaced by a newer connection');
+    }
+    log('Parent socket connected:', parentId);
+
+    // Back within the grace period: this socket carries the session on
+    const session = sessions.get(parentId);
+    if (session && session.byeTimer) {
+      keepSession(session);
+      session.socket = socket;
+    }
+
+    socket.on('message', (data) => {
+      const message = parseSocketMessage(data);
+      if (!message) {
+        socket.send(JSON.stringify(createMessage('error', { message: 'Malformed signaling message' })));
+        return;
+      }
+      if (message.type === 'ice-candidate' || message.type === 'bye' || message.type === 'motion-regions') {
+        if (!verifySessionRequest(parentId, message.type, message.seq, message.auth)) {
+          log(`Dropping ${message.type} outside a session from parent:`, parentId);
+          return;
+        }
+        if (message.type === 'bye') {
+          endSession(parentId);
+        } else {
+          sessions.get(parentId).socket = socket;
+        }
+      }
+      toHost(parentId, message);
+    });
+
+    socket.on('close', () => {
+      log('Parent socket closed:', parentId);
+      // A socket replaced by a newer one leaves the session alone; the
+      // parent either starts a new one or keeps using it
+      if (parentSockets.get(parentId) !== socket) return;
+      parentSockets.delete(parentId);
+
+      // Say bye for a parent whose session socket dropped without one, unless
+      // it comes back in time
+      const session = sessions.get(parentId);
+      if (session && session.socket === socket) {
+        session.byeTimer = setTimeout(() => {
+          sessions.delete(parentId);
+          candidatesForParent.delete(parentId);
+          toHost(parentId, createMessage('bye', { reason: 'Socket closed' }));
+        }, sessionGraceMs);
+      } else {
+        candidatesForParent.delete(parentId);
+      }
+    });
+  };
+
+  const handleHostSocket = (socket) => {
+    const previous = hostSocket;
+    hostSocket = socket;
+    if (previous) {
+      previous.close(4000, 'Replaced by a newer host');
+    }
+    log('Host socket connected');
+
+    // Hand over anything queued while the host was away
+    hostEvents.splice(0).forEach((envelope) => socket.send(JSON.stringify(envelope)));
+
+    socket.on('message', (data) => {
+      let envelope = null;
+      try {
+        envelope = JSON.parse(data);
+      } catch (error) {
+        envelope = null;
+      }
+      if (!envelope || !isValidParentId(envelope.parentId) || !envelope.message) {
+        log('Ignoring malformed host message');
+        return;
+      }
+      signaling.sendToParent(envelope.parentId, envelope.message, envelope.sessionKey);
+    });
+
+    socket.on('close', () => {
+      if (hostSocket === socket) {
+        hostSocket = null;
+      }
+    });
+  };
+
+  const server = http.createServer((req, res) => {
+    handleRequest(req, res);
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const { pathname, searchParams } = new URL(req.url, 'http://localhost');
+
+    if (pathname === '/webrtc/ws') {
+      const parentId = searchParams.get('parentId');
+      if (!isValidParentId(parentId)) {
+        rejectUpgrade(socket, 400, 'Bad Request');
+        return;
+      }
+      const ws = acceptWebSocket(req, socket);
+      if (ws) handleParentSocket(ws, parentId);
+      return;
+    }
+
+    if (pathname === '/webrtc/host/ws' && httpHost) {
+      // WebSockets aren't subject to CORS, so another page could take over the host
+      if (!isLoopback(socket.remoteAddress) || !isAppOrigin(req.headers.origin)) {
+        rejectUpgrade(socket, 403, 'Forbidden');
+        return;
+      }
+      const ws = acceptWebSocket(req, socket);
+      if (ws) handleHostSocket(ws);
+      return;
+    }
+
+    rejectUpgrade(socket, 404, 'Not Found');
+  });
+
+  // Drop sockets whose peer vanished without closing (e.g. phone lost Wi-Fi)
+  const keepalive = setInterval(() => {
+    const sockets = [...parentSockets.values()];
+    if (hostSocket) sockets.push(hostSocket);
+    sockets.forEach((socket) => {
+      if (!socket.isAlive) {
+        socket.terminate();
+      } else {
+        socket.ping();
+      }
+    });
+  }, KEEPALIVE_INTERVAL_MS);
+  keepalive.unref();
+
+  signaling.server = server;
+
+  signaling.listen = (port = DEFAULT_PORT, hostname = '0.0.0.0') =>
+    new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, hostname, () => {
+        server.removeListener('error', reject);
+        resolve(server.address().port);
+      });
+    });
+
+  signaling.close = () =>
+    new Promise((resolve) => {
+      clearInterval(keepalive);
+      clearTimeout(browseIdleTimer);
+      if (stopBrowsing) {
+        stopBrowsing();
+        stopBrowsing = null;
+      }
+      hostPollers.forEach((poller) => {
+        clearTimeout(poller.timer);
+        sendJson(poller.res, 200, { events: [] });
+      });
+      hostPollers.clear();
+      pendingReplies.forEach((pending) => {
+        clearTimeout(pending.timer);
+        pending.reject(new HttpError(503, 'Signaling server stopped'));
+      });
+      pendingReplies.clear();
+      sessions.forEach(keepSession);
+      sessions.clear();
+      parentSockets.forEach((socket) => socket.close(1001, 'Server shutting down'));
+      parentSockets.clear();
+      if (hostSocket) {
+        hostSocket.close(1001, 'Server shutting down');
+        hostSocket = null;
+      }
+      server.close(() => resolve());
+    });
+
+  return signaling;
+}
+
+module.exports = { createSignalingServer, DEFAULT_PORT, PROTOCOL_VERSION };
@@ -0,0 +1,214 @@
+// Minimal server-side WebSocket (RFC 6455) for the signaling server.
+//
+// Only what signaling needs is supported: text messages, fragmentation,
+// ping/pong and close. It is implemented here rather than pulled in from npm
+// because the capacitor-nodejs runtime ships this folder without node_modules.
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 256 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeUInt32BE(0, 2);
+    header.writeUInt32BE(length, 6);
+  }
+
+  header[0] = 0x80 | opcode; // FIN + opcode, server frames are never masked
+  return Buffer.concat([header, payload]);
+};
+
+class WebSocketConnection extends EventEmitter {
+  constructor(socket) {
+    super();
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.fragmentsSize = 0;
+    this.closed = false;
+    this.isAlive = true;
+
+    socket.setNoDelay(true);
+    socket.on('data', (chunk) => this.receive(chunk));
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+  }
+
+  get isOpen() {
+    return !this.closed;
+  }
+
+  send(text) {
+    if (this.closed) return false;
+    this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text)));
+    return true;
+  }
+
+  ping() {
+    if (this.closed) return;
+    this.isAlive = false;
+    this.socket.write(encodeFrame(OPCODE_PING, Buffer.alloc(0)));
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.socket.write(encodeFrame(OPCODE_CLOSE, payload));
+    this.socket.end();
+    this.finish(code, reason);
+  }
+
+  terminate() {
+    this.socket.destroy();
+    this.finish(1006, 'Connection terminated');
+  }
+
+  finish(code = 1006, reason = '') {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close', code, reason);
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 2) {
+      const first = this.buffer[0];
+      const second = this.buffer[1];
+      const fin = (first & 0x80) !== 0;
+      const opcode = first & 0x0f;
+      const masked = (second & 0x80) !== 0;
+      let length = second & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        if (this.buffer.readUInt32BE(2) !== 0) {
+          this.close(1009, 'Message too large');
+          return;
+        }
+        length = this.buffer.readUInt32BE(6);
+        offset = 10;
+      }
+
+      // Clients must mask every frame they send
+      if (!masked) {
+        this.close(1002, 'Unmasked client frame');
+        return;
+      }
+
+      if (length > MAX_MESSAGE_BYTES) {
+        this.close(1009, 'Message too large');
+        return;
+      }
+
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      this.handleFrame(fin, opcode, payload);
+      if (this.closed) return;
+    }
+  }
+
+  handleFrame(fin, opcode, payload) {
+    switch (opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_CONTINUATION:
+        if (opcode === OPCODE_TEXT && this.fragments.length > 0) {
+          this.close(1002, 'Unexpected text frame');
+          return;
+        }
+        this.fragmentsSize += payload.length;
+        if (this.fragmentsSize > MAX_MESSAGE_BYTES) {
+          this.close(1009, 'Message too large');
+          return;
+        }
+        this.fragments.push(payload);
+        if (fin) {
+          const message = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.fragmentsSize = 0;
+          this.emit('message', message);
+        }
+        break;
+      case OPCODE_BINARY:
+        this.close(1003, 'Binary messages are not supported');
+        break;
+      case OPCODE_CLOSE:
+        this.close(payload.length >= 2 ? payload.readUInt16BE(0) : 1000);
+        break;
+      case OPCODE_PING:
+        this.socket.write(encodeFrame(OPCODE_PONG, payload));
+        break;
+      case OPCODE_PONG:
+        this.isAlive = true;
+        break;
+      default:
+        this.close(1002, 'Unknown opcode');
+    }
+  }
+}
+
+/**
+ * Completes the WebSocket handshake for an HTTP `upgrade` request.
+ * Returns null (after rejecting the request) if it is not a valid handshake.
+ */
+function acceptWebSocket(req, socket) {
+  const key = req.headers['sec-websocket-key'];
+  const upgrade = (req.headers.upgrade || '').toLowerCase();
+
+  if (!key || upgrade !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return null;
+  }
+
+  const accept = crypto.createHash('sha1').update(key + GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  return new WebSocketConnection(socket);
+}
+
+const rejectUpgrade = (socket, status, message) => {
+  socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+};
+
+module.exports = { acceptWebSocket, rejectUpgrade, WebSocketConnection };
@@ -0,0 +1,89 @@
+import { useState, useEffect } from 'react';
+import { Area, AreaChart, YAxis } from 'recharts';
+import { ChartContainer, type ChartConfig } from '@/components/ui/chart';
+import { Progress } from '@/components/ui/progress';
+import { computeRms, toDecibels, MIN_DECIBELS } from '@/lib/noise-detector';
+import { startAudioSampler } from '@/lib/noise-monitor';
+
+// Samples kept for the sparkline; at 100ms each that is the last 15 seconds
+const HISTORY_LENGTH = 150;
+
+const chartConfig = {
+  level: { label: 'Sound level', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+interface AudioLevelMeterProps {
+  // Remote stream to measure; it is analysed even while playback is muted
+  stream: MediaStream | null;
+}
+
+const AudioLevelMeter = ({ stream }: AudioLevelMeterProps) => {
+  const [history, setHistory] = useState<{ at: number; level: number }[]>([]);
+  const [isAvailable, setIsAvailable] = useState(true);
+
+  useEffect(() => {
+    setHistory([]);
+    if (!stream) return;
+
+    let stopSampler: (() => void) | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      // Remote tracks can arrive one at a time; wait for the audio one
+      if (stopSampler || stream.getAudioTracks().length === 0) return;
+      try {
+        const stop = await startAudioSampler(stream, (samples, at) => {
+          const level = toDecibels(computeRms(samples));
+          setHistory(previous => [...previous, { at, level }].slice(-HISTORY_LENGTH));
+        });
+        if (cancelled) {
+          stop();
+          return;
+        }
+        stopSampler = stop;
+        setIsAvailable(true);
+      } catch (error) {
+        console.log('Audio level meter not available:', error);
+        setIsAvailable(false);
+      }
+    };
+
+    stream.addEventListener('addtrack', start);
+    start();
+
+    return () => {
+      cancelled = true;
+      stream.removeEventListener('addtrack', start);
+      stopSampler?.();
+    };
+  }, [stream]);
+
+  if (!stream || !isAvailable) return null;
+
+  const level = history.length > 0 ? history[history.length - 1].level : MIN_DECIBELS;
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex-1 min-w-0">
+        <ChartContainer config={chartConfig} className="aspect-auto h-10 w-full">
+          <AreaChart data={history} margin={{ top: 2, right: 0, bottom: 0, left: 0 }}>
+            <YAxis hide domain={[MIN_DECIBELS, 0]} />
+            <Area
+              dataKey="level"
+              type="monotone"
+              stroke="var(--color-level)"
+              fill="var(--color-level)"
+              fillOpacity={0.2}
+              isAnimationActive={false}
+              baseValue={MIN_DECIBELS}
+            />
+          </AreaChart>
+        </ChartContainer>
+        <Progress value={((level - MIN_DECIBELS) / -MIN_DECIBELS) * 100} className="h-1.5" />
+      </div>
+      <span className="w-14 text-right text-xs tabular-nums text-muted-foreground">{Math.round(level)} dB</span>
+    </div>
+  );
+};
+
+export default AudioLevelMeter;
@@ -1,12 +1,133 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Camera, Mic, MicOff, Video, VideoOff, ArrowLeft, Wifi } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Camera, Mic, MicOff, Video, VideoOff, ArrowLeft, Wifi, QrCode, Ear, Activity, Megaphone, Music, SwitchCamera, Loader2, Clapperboard, HardDrive, Trash2 } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
 import { Haptics, ImpactStyle } from '@capacitor/haptics';
 import { Capacitor } from '@capacitor/core';
-import { Device } from '@capacitor/device';
+import { Device, type DeviceInfo } from '@capacitor/device';
 import { Network, type ConnectionStatus } from '@capacitor/network';
 import { ensureWebRTCGlobals, observeVideo } from '@/lib/webrtc';
+import { blobToBase64, captureFrame, splitIntoChunks } from '@/lib/snapshots';
+import { createClipRecorder, DEFAULT_CLIP_OPTIONS, type ClipReason, type ClipRecorder } from '@/lib/clip-recorder';
+import {
+  getClip,
+  getClipRecording,
+  listClips,
+  saveClip,
+  saveClipRecording,
+  type ClipRecordingSettings
+} from '@/lib/clips';
+import { createSegmentRecorder, type RecordedSegment, type SegmentRecorder } from '@/lib/segment-recorder';
+import {
+  applyRetention,
+  clearRecordings,
+  getContinuousRecording,
+  getRecordingUsage,
+  requestPersistentStorage,
+  saveContinuousRecording,
+  saveSegment,
+  RECORDING_SEGMENT_MS,
+  RETENTION_HOURS,
+  RETENTION_MEGABYTES,
+  type ContinuousRecordingSettings,
+  type RecordingUsage
+} from '@/lib/recordings';
+import {
+  cameraConstraints,
+  getCameraPreference,
+  listCameras,
+  nextCamera,
+  saveCameraPreference,
+  type CameraInfo
+} from '@/lib/cameras';
+import {
+  applyQualityProfile,
+  initialAutoQuality,
+  sampleSenderQuality,
+  updateAutoQuality,
+  type AutoQualityState,
+  type QualityMode,
+  type QualityProfile,
+  type SenderCounters
+} from '@/lib/video-quality';
+import { MIN_DECIBELS, type NoiseDetectorOptions, type NoiseDetectorUpdate } from '@/lib/noise-detector';
+import { getNoiseSettings, saveNoiseSettings, startNoiseMonitor, type NoiseMonitor } from '@/lib/noise-monitor';
+import type { MotionDetectorOptions, MotionDetectorUpdate, MotionRegion } from '@/lib/motion-detector';
+import { getMotionSettings, saveMotionSettings, startMotionMonitor, type MotionMonitor } from '@/lib/motion-monitor';
+import {
+  applySoothingCommand,
+  createSoothingPlayer,
+  DEFAULT_SOOTHING_STATE,
+  type SoothingCommand,
+  type SoothingPlayer,
+  type SoothingState
+} from '@/lib/soothing-player';
+import SoothingControls from '@/components/SoothingControls';
+import {
+  acceptPairing,
+  advertiseMonitor,
+  countPairedParents,
+  createDiscoveryMessage,
+  deriveSessionKey,
+  forgetPairedParents,
+  getPairedParentKey,
+  openPeerChannel,
+  parsePeerMessage,
+  waitForBufferedAmount,
+  savePairedParent,
+  sendPeerMessage,
+  startPairingSession,
+  startSignalingHost,
+  verifyOffer,
+  DEFAULT_SIGNALING_PORT,
+  DISCOVERY_CHANNEL_NAME,
+  MAX_CLIP_CHUNKS,
+  MAX_SNAPSHOT_CHUNKS,
+  MAX_PAIRING_ATTEMPTS,
+  SIGNALING_PROTOCOL_VERSION,
+  type AdvertisedDevice,
+  type PairedDevice,
+  type PairingHandshake,
+  type PairingCode,
+  type PairingSession,
+  type PeerCommand,
+  type PeerMessage,
+  type PeerPayload,
+  type SignalingHost,
+  type StoredMonitor
+} from '@/lib/signaling';
+
+const LEVEL_REPORT_INTERVAL_MS = 500;
+// Telemetry also goes out on every change; this just keeps the battery level fresh
+const TELEMETRY_INTERVAL_MS = 60000;
+// How long the motion indicator stays lit after an event
+const MOTION_INDICATOR_MS = 3000;
+// How often automatic video quality looks at each parent's stats
+const QUALITY_CHECK_INTERVAL_MS = 2000;
+// Clip downloads wait for the channel to drain below this before sending more
+const CLIP_SEND_BUFFER_BYTES = 1024 * 1024;
+// A parent's dropped connection is kept this long for its ICE restart; longer
+// than ICE_RESTART_TIMEOUT_MS in ParentMonitor
+const PARENT_RECONNECT_GRACE_MS = 15000;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+    : `${Math.round(bytes / (1024 * 1024))} MB`;
+
+// Video quality for one parent's connection
+interface ParentQuality {
+  mode: QualityMode;
+  profile: QualityProfile;
+  auto: AutoQualityState;
+  counters: SenderCounters | null;
+}
 
 interface BabyMonitorProps {
   onBack: () => void;
@@ -24,9 +145,56 @@ const BabyMonitor = ({ onBack }: BabyMonitorProps) => {
   const streamRef = useRef<MediaStream | null>(null);
   const discoveryIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const peerConnectionsRef = useRef<Map<string, RTCPeerConnection>>(new Map());
-  const webSocketRef = useRef<WebSocket | null>(null);
-  const bonjourServiceRef = useRef<any>(null);
-  const bonjourInstanceRef = useRef<any>(null);
+  const bonjourServiceRef = useRef<(() => void) | null>(null);
+  const signalingHostRef = useRef<SignalingHost | null>(null);
+  const pendingCandidatesRef = useRef<Map<string, RTCIceCandidateInit[]>>(new Map());
+  // Parents whose connection dropped, until they restart ICE or the grace period ends
+  const disconnectTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  const advertisedDeviceRef = useRef<AdvertisedDevice | null>(null);
+  const [signalingError, setSignalingError] = useState<string | null>(null);
+  const [pairingSession, setPairingSession] = useState<PairingSession | null>(null);
+  const pairingSessionRef = useRef<PairingSession | null>(null);
+  const [pairedParents, setPairedParents] = useState(() => countPairedParents());
+  const [now, setNow] = useState(Date.now());
+  const peerChannelsRef = useRef<Map<string, RTCDataChannel>>(new Map());
+  const noiseMonitorRef = useRef<NoiseMonitor | null>(null);
+  // The current noise event, replayed to parents that connect during it
+  const noiseStartRef = useRef<PeerPayload | null>(null);
+  const levelSentAtRef = useRef(0);
+  const [noiseSettings, setNoiseSettings] = useState(() => getNoiseSettings());
+  const [soundLevel, setSoundLevel] = useState(MIN_DECIBELS);
+  const [isNoisy, setIsNoisy] = useState(false);
+  const [noiseDetectionError, setNoiseDetectionError] = useState<string | null>(null);
+  const motionMonitorRef = useRef<MotionMonitor | null>(null);
+  const [motionSettings, setMotionSettings] = useState(() => getMotionSettings());
+  const [motionScore, setMotionScore] = useState(0);
+  const [lastMotionAt, setLastMotionAt] = useState<number | null>(null);
+  // Push-to-talk audio from each parent, and which parents are talking right now
+  const talkAudioRef = useRef<Map<string, HTMLAudioElement>>(new Map());
+  const [talkingParents, setTalkingParents] = useState<Set<string>>(new Set());
+  const soothingPlayerRef = useRef<SoothingPlayer | null>(null);
+  const [soothingState, setSoothingState] = useState<SoothingState>(DEFAULT_SOOTHING_STATE);
+  const batteryRef = useRef<{ batteryLevel?: number; isCharging?: boolean } | null>(null);
+  const [cameras, setCameras] = useState<CameraInfo[]>([]);
+  // For telemetry sent from callbacks
+  const cameraCountRef = useRef(0);
+  const [cameraId, setCameraId] = useState<string | undefined>(undefined);
+  const [isSwitchingCamera, setIsSwitchingCamera] = useState(false);
+  const switchingCameraRef = useRef(false);
+  const parentQualityRef = useRef<Map<string, ParentQuality>>(new Map());
+  const clipRecorderRef = useRef<ClipRecorder | null>(null);
+  const [clipRecording, setClipRecording] = useState(() => getClipRecording());
+  // Read by noise and motion handlers, which are bound when monitoring starts
+  const clipRecordingRef = useRef(clipRecording);
+  const [isRecordingClip, setIsRecordingClip] = useState(false);
+  const [clipCount, setClipCount] = useState<number | null>(null);
+  const [clipError, setClipError] = useState<string | null>(null);
+  const segmentRecorderRef = useRef<SegmentRecorder | null>(null);
+  const [continuousRecording, setContinuousRecording] = useState(() => getContinuousRecording());
+  // Read when segments are saved, which happens from recorder callbacks
+  const continuousRecordingRef = useRef(continuousRecording);
+  const [recordingUsage, setRecordingUsage] = useState<RecordingUsage | null>(null);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
   
   useEffect(() => {
     ensureWebRTCGlobals();
@@ -62,12 +230,9 @@ const BabyMonitor = ({ onBack }: BabyMonitorProps) => {
 
 
 const constraints: MediaStreamConstraints = {
-  audio: true,
-  video: {
-    facingMode: 'user',
-    width: { ideal: 640, max: 1280 },
-    height: { ideal: 480, max: 720 }
-  }
+  // Echo cancellation keeps parents' voices played here out of what other parents hear
+  audio: { echoCancellation: true, noiseSuppression: true },
+  video: cameraConstraints(getCameraPreference())
 };
 
 
@@ -93,6 +258,20 @@ const constraints: MediaStreamConstraints = {
 
       setIsStreaming(true);
       setConnectionStatus('connected');
+      setCameraId(stream.getVideoTracks()[0]?.getSettings().deviceId);
+      await refreshCameras();
+
+      await startNoiseDetection(stream);
+      startMotionDetection();
+      startSoothingPlayer();
+      if (clipRecordingRef.current.enabled) {
+        startClipRecording();
+      }
+      refreshClipCount();
+      if (continuousRecordingRef.current.enabled) {
+        startContinuousRecording();
+      }
+      refreshRecordingUsage();
 
       // Setup network broadcasting for device discovery
       await setupNetworkBroadcasting();
@@ -133,6 +312,12 @@ const constraints: MediaStreamConstraints = {
       console.log('Haptics not available:', error);
     }
 
+    stopNoiseDetection();
+    stopMotionDetection();
+    stopSoothingPlayer();
+    stopClipRecording();
+    stopContinuousRecording();
+
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
@@ -144,12 +329,291 @@ const constraints: MediaStreamConstraints = {
 
     // Cleanup network broadcasting
     cleanupNetworkBroadcasting();
+    endPairing();
 
     setIsStreaming(false);
     setConnectionStatus('disconnected');
     setConnectedParents(0);
+    setSignalingError(null);
+  };
+
+  const broadcastToParents = (payload: PeerPayload) => {
+    peerChannelsRef.current.forEach(channel => sendPeerMessage(channel, payload));
+  };
+
+  const handleNoiseUpdate = ({ level, event }: NoiseDetectorUpdate) => {
+    setSoundLevel(level);
+
+    // Parents apply their own sensitivity to the raw level
+    const now = Date.now();
+    if (now - levelSentAtRef.current >= LEVEL_REPORT_INTERVAL_MS) {
+      levelSentAtRef.current = now;
+      broadcastToParents({ type: 'sound-level', at: now, level });
+    }
+
+    if (!event) return;
+
+    if (event.type === 'start') {
+      console.log(`Noise detected at ${event.level.toFixed(1)} dB`);
+      const payload: PeerPayload = { type: 'noise', state: 'start', at: event.at, level: event.level };
+      noiseStartRef.current = payload;
+      setIsNoisy(true);
+      triggerClip('noise');
+      broadcastToParents(payload);
+    } else {
+      console.log(`Noise ended after ${Math.round(event.durationMs / 1000)}s, peak ${event.peak.toFixed(1)} dB`);
+      noiseStartRef.current = null;
+      setIsNoisy(false);
+      broadcastToParents({
+        type: 'noise',
+        state: 'end',
+        at: event.at,
+        level: event.level,
+        peak: event.peak,
+        durationMs: event.durationMs
+      });
+    }
+  };
+
+  const startNoiseDetection = async (stream: MediaStream) => {
+    try {
+      noiseMonitorRef.current = await startNoiseMonitor(stream, getNoiseSettings(), handleNoiseUpdate);
+      setNoiseDetectionError(null);
+    } catch (error) {
+      // Monitoring still works, parents just won't get noise alerts
+      console.log('Noise detection not available:', error);
+      setNoiseDetectionError('Noise detection is not available on this device');
+    }
+  };
+
+  const stopNoiseDetection = () => {
+    noiseMonitorRef.current?.stop();
+    noiseMonitorRef.current = null;
+    noiseStartRef.current = null;
+    setIsNoisy(false);
+    setSoundLevel(MIN_DECIBELS);
+  };
+
+  const updateNoiseSettings = (changes: Partial<NoiseDetectorOptions>) => {
+    const settings = { ...noiseSettings, ...changes };
+    setNoiseSettings(settings);
+    saveNoiseSettings(settings);
+    noiseMonitorRef.current?.configure(changes);
+  };
+
+  const handleMotionUpdate = ({ score, event }: MotionDetectorUpdate) => {
+    setMotionScore(score);
+    if (!event) return;
+
+    console.log(`Motion detected, score ${(event.score * 100).toFixed(1)}%`);
+    setLastMotionAt(event.at);
+    broadcastToParents({ type: 'motion', at: event.at, score: event.score });
+    triggerClip('motion');
+  };
+
+  const startMotionDetection = () => {
+    if (!videoRef.current) return;
+    try {
+      motionMonitorRef.current = startMotionMonitor(videoRef.current, getMotionSettings(), handleMotionUpdate);
+    } catch (error) {
+      console.log('Motion detection not available:', error);
+    }
+  };
+
+  const stopMotionDetection = () => {
+    motionMonitorRef.current?.stop();
+    motionMonitorRef.current = null;
+    setMotionScore(0);
+    setLastMotionAt(null);
+  };
+
+  const updateMotionSettings = (changes: Partial<MotionDetectorOptions>) => {
+    // Read back from storage: signaling handlers call this with stale state
+    const settings = { ...getMotionSettings(), ...changes };
+    setMotionSettings(settings);
+    saveMotionSettings(settings);
+    motionMonitorRef.current?.configure(changes);
   };
 
+  const refreshClipCount = async () => {
+    try {
+      setClipCount((await listClips()).length);
+    } catch (error) {
+      console.log('Could not count clips:', error);
+    }
+  };
+
+  // Keeps overlapping recorders running so clips can start before the event
+  const startClipRecording = () => {
+    const stream = streamRef.current;
+    if (!stream || clipRecorderRef.current) return;
+    try {
+      clipRecorderRef.current = createClipRecorder(stream, DEFAULT_CLIP_OPTIONS, async (clip) => {
+        setIsRecordingClip(false);
+        try {
+          await saveClip(clip);
+          console.log(`Saved a ${Math.round(clip.durationMs / 1000)}s ${clip.reason} clip`);
+          refreshClipCount();
+        } catch (error) {
+          console.error('Could not save clip:', error);
+          setClipError(`Could not save clip: ${error.message}`);
+        }
+      });
+      setClipError(null);
+    } catch (error) {
+      console.log('Clip recording not available:', error);
+      setClipError(error.message);
+    }
+  };
+
+  const stopClipRecording = () => {
+    clipRecorderRef.current?.stop();
+    clipRecorderRef.current = null;
+  };
+
+  const triggerClip = (reason: ClipReason) => {
+    const settings = clipRecordingRef.current;
+    const recorder = clipRecorderRef.current;
+    if (!recorder || (reason === 'noise' ? !settings.onNoise : !settings.onMotion)) return;
+    recorder.trigger(reason);
+    setIsRecordingClip(recorder.isRecordingClip());
+  };
+
+  const updateClipRecording = (changes: Partial<ClipRecordingSettings>) => {
+    const settings = { ...clipRecordingRef.current, ...changes };
+    clipRecordingRef.current = settings;
+    setClipRecording(settings);
+    saveClipRecording(settings);
+    if (changes.enabled === true) {
+      startClipRecording();
+    } else if (changes.enabled === false) {
+      stopClipRecording();
+    }
+  };
+
+  const refreshRecordingUsage = async () => {
+    try {
+      setRecordingUsage(await getRecordingUsage());
+    } catch (error) {
+      console.log('Could not read recording usage:', error);
+    }
+  };
+
+  const storeSegment = async (segment: RecordedSegment) => {
+    try {
+      await saveSegment(segment);
+      const deleted = await applyRetention(continuousRecordingRef.current);
+      if (deleted > 0) {
+        console.log(`Deleted ${deleted} old recording segment${deleted === 1 ? '' : 's'}`);
+      }
+      setRecordingError(null);
+    } catch (error) {
+      console.error('Could not save recording segment:', error);
+      setRecordingError(`Could not save recording: ${error.message}`);
+    }
+    refreshRecordingUsage();
+  };
+
+  const startContinuousRecording = () => {
+    const stream = streamRef.current;
+    if (!stream || segmentRecorderRef.current) return;
+    try {
+      segmentRecorderRef.current = createSegmentRecorder(stream, RECORDING_SEGMENT_MS, storeSegment);
+      setRecordingError(null);
+    } catch (error) {
+      console.log('Continuous recording not available:', error);
+      setRecordingError(error.message);
+    }
+  };
+
+  const stopContinuousRecording = () => {
+    segmentRecorderRef.current?.stop();
+    segmentRecorderRef.current = null;
+  };
+
+  const updateContinuousRecording = async (changes: Partial<ContinuousRecordingSettings>) => {
+    const settings = { ...continuousRecordingRef.current, ...changes };
+    continuousRecordingRef.current = settings;
+    setContinuousRecording(settings);
+    saveContinuousRecording(settings);
+    if (changes.enabled === true) {
+      await requestPersistentStorage();
+      startContinuousRecording();
+    } else if (changes.enabled === false) {
+      stopContinuousRecording();
+    }
+    // Tighter limits take effect right away rather than at the next segment
+    if (changes.maxHours !== undefined || changes.maxMegabytes !== undefined) {
+      try {
+        await applyRetention(settings);
+      } catch (error) {
+        console.error('Could not apply recording retention:', error);
+      }
+      refreshRecordingUsage();
+    }
+  };
+
+  const deleteRecordings = async () => {
+    try {
+      await clearRecordings();
+    } catch (error) {
+      console.error('Could not delete recordings:', error);
+      setRecordingError(error.message);
+    }
+    refreshRecordingUsage();
+  };
+
+  const soothingStatePayload = (state: SoothingState): PeerPayload => ({
+    type: 'soothe-state',
+    sound: state.sound,
+    volume: state.volume,
+    timerRemainingMs: state.timerEndsAt === null ? null : Math.max(0, state.timerEndsAt - Date.now())
+  });
+
+  // Created while starting monitoring, from a tap, so parents can start sounds later
+  const startSoothingPlayer = () => {
+    try {
+      soothingPlayerRef.current = createSoothingPlayer(state => {
+        setSoothingState(state);
+        broadcastToParents(soothingStatePayload(state));
+      });
+    } catch (error) {
+      console.log('Soothing sounds not available:', error);
+    }
+  };
+
+  const stopSoothingPlayer = () => {
+    soothingPlayerRef.current?.destroy();
+    soothingPlayerRef.current = null;
+    setSoothingState(DEFAULT_SOOTHING_STATE);
+  };
+
+  const handleSoothingCommand = async (command: SoothingCommand) => {
+    if (!soothingPlayerRef.current) return;
+    try {
+      await applySoothingCommand(soothingPlayerRef.current, command);
+    } catch (error) {
+      console.error('Soothing sound command failed:', error);
+    }
+  };
+
+  // Regions drawn on a parent's screen; only parents watching right now may change them
+  const handleMotionRegions = (parentId: string, regions: MotionRegion[]) => {
+    if (!peerConnectionsRef.current.has(parentId)) {
+      console.log('Ignoring motion regions from parent without a session:', parentId);
+      return;
+    }
+    console.log(`Parent ${parentId} set ${regions.length} motion region(s)`);
+    updateMotionSettings({ regions });
+  };
+
+  // Let the motion indicator go out a few seconds after the last event
+  useEffect(() => {
+    if (lastMotionAt === null) return;
+    const timeout = setTimeout(() => setLastMotionAt(null), MOTION_INDICATOR_MS);
+    return () => clearTimeout(timeout);
+  }, [lastMotionAt]);
+
   const toggleMic = async () => {
     try {
       await Haptics.impact({ style: ImpactStyle.Light });
@@ -157,36 +621,179 @@ const constraints: MediaStreamConstraints = {
       console.log('Haptics not available:', error);
     }
 
-    if (streamRef.current) {
-      const audioTrack = streamRef.current.getAudioTracks()[0];
-      if (audioTrack) {
-        audioTrack.enabled = !isMicEnabled;
-        setIsMicEnabled(!isMicEnabled);
+    setMicEnabled(!isMicEnabled);
+  };
+
+  // Shared by the local buttons and parents' commands; false when there is no track
+  const setMicEnabled = (enabled: boolean) => {
+    const audioTrack = streamRef.current?.getAudioTracks()[0];
+    if (!audioTrack) return false;
+    audioTrack.enabled = enabled;
+    setIsMicEnabled(enabled);
+    return true;
+  };
+
+  const setCameraEnabled = (enabled: boolean) => {
+    const videoTrack = streamRef.current?.getVideoTracks()[0];
+    if (!videoTrack) return false;
+    videoTrack.enabled = enabled;
+    setIsCameraEnabled(enabled);
+    // A black picture is not motion, and the first frame back is a new reference
+    if (enabled) {
+      motionMonitorRef.current?.resume();
+    } else {
+      motionMonitorRef.current?.pause();
+      setMotionScore(0);
+    }
+    return true;
+  };
+
+  const updateCameras = useCallback((available: CameraInfo[]) => {
+    cameraCountRef.current = available.length;
+    setCameras(available);
+  }, []);
+
+  // Stable, so the devicechange listener below can be removed again
+  const refreshCameras = useCallback(async () => {
+    try {
+      updateCameras(await listCameras());
+    } catch (error) {
+      console.log('Could not list cameras:', error);
+    }
+  }, [updateCameras]);
+
+  // Cameras can come and go (e.g. a USB webcam) while monitoring
+  useEffect(() => {
+    if (!isStreaming) return;
+    navigator.mediaDevices.addEventListener?.('devicechange', refreshCameras);
+    return () => navigator.mediaDevices.removeEventListener?.('devicechange', refreshCameras);
+  }, [isStreaming, refreshCameras]);
+
+  const openCamera = async (deviceId: string) => {
+    const stream = await navigator.mediaDevices.getUserMedia({ video: cameraConstraints(deviceId, true) });
+    return stream.getVideoTracks()[0];
+  };
+
+  /**
+   * Switches to `deviceId`, or to the next camera without one. The new track
+   * goes into every parent's connection with replaceTrack, so nobody has to
+   * renegotiate or reconnect.
+   */
+  const switchCamera = async (deviceId?: string): Promise<CameraInfo> => {
+    const stream = streamRef.current;
+    const oldTrack = stream?.getVideoTracks()[0];
+    if (!stream || !oldTrack) {
+      throw new Error('No camera is running');
+    }
+    if (switchingCameraRef.current) {
+      throw new Error('Already switching cameras');
+    }
+
+    const available = await listCameras();
+    updateCameras(available);
+    const currentId = oldTrack.getSettings().deviceId;
+    const target = deviceId
+      ? available.find(camera => camera.deviceId === deviceId)
+      : nextCamera(available, currentId);
+    if (!target) {
+      throw new Error(deviceId ? 'That camera is not available' : 'There is no other camera');
+    }
+    if (target.deviceId === currentId) return target;
+
+    switchingCameraRef.current = true;
+    setIsSwitchingCamera(true);
+    try {
+      // Many phones can't open two cameras at once, so let go of this one first
+      oldTrack.stop();
+      let newTrack: MediaStreamTrack;
+      let switchError: Error | null = null;
+      try {
+        newTrack = await openCamera(target.deviceId);
+      } catch (error) {
+        console.error('Could not open camera, going back:', error);
+        switchError = error;
+        newTrack = await openCamera(currentId);
       }
+
+      if (streamRef.current !== stream) {
+        // Monitoring stopped while the camera was opening
+        newTrack.stop();
+        throw new Error('Monitoring stopped');
+      }
+
+      newTrack.enabled = oldTrack.enabled;
+      await Promise.all(Array.from(peerConnectionsRef.current.entries()).map(async ([parentId, peerConnection]) => {
+        const sender = peerConnection.getSenders().find(candidate => candidate.track === oldTrack);
+        try {
+          await sender?.replaceTrack(newTrack);
+        } catch (error) {
+          console.error(`Could not switch camera for parent ${parentId}:`, error);
+        }
+      }));
+      stream.removeTrack(oldTrack);
+      stream.addTrack(newTrack);
+
+      // Re-attach so the preview (and motion detection) picks up the new track
+      if (videoRef.current) {
+        videoRef.current.srcObject = null;
+        videoRef.current.srcObject = stream;
+        videoRef.current.play().catch(error => console.log('Video playback error:', error));
+      }
+
+      const newId = newTrack.getSettings().deviceId ?? target.deviceId;
+      setCameraId(newId);
+      // Scaling depends on the new camera's resolution
+      parentQualityRef.current.forEach((_, parentId) => applyParentQuality(parentId));
+      // MediaRecorder stops when the stream's tracks change; a clip in progress is saved
+      if (clipRecorderRef.current) {
+        stopClipRecording();
+        startClipRecording();
+      }
+      if (segmentRecorderRef.current) {
+        stopContinuousRecording();
+        startContinuousRecording();
+      }
+      if (switchError) throw switchError;
+
+      saveCameraPreference(newId);
+      console.log('Switched camera to', target.label);
+      return target;
+    } finally {
+      switchingCameraRef.current = false;
+      setIsSwitchingCamera(false);
     }
   };
 
-  const toggleCamera = async () => {
+  const selectCamera = async (deviceId?: string) => {
     try {
       await Haptics.impact({ style: ImpactStyle.Light });
     } catch (error) {
       console.log('Haptics not available:', error);
     }
 
-    if (streamRef.current) {
-      const videoTrack = streamRef.current.getVideoTracks()[0];
-      if (videoTrack) {
-        videoTrack.enabled = !isCameraEnabled;
-        setIsCameraEnabled(!isCameraEnabled);
-      }
+    try {
+      await switchCamera(deviceId);
+    } catch (error) {
+      console.error('Could not switch camera:', error);
+      alert(`Could not switch camera: ${error.message}`);
     }
   };
 
+  const toggleCamera = async () => {
+    try {
+      await Haptics.impact({ style: ImpactStyle.Light });
+    } catch (error) {
+      console.log('Haptics not available:', error);
+    }
+
+    setCameraEnabled(!isCameraEnabled);
+  };
+
   const handleShowNetworkInfo = async () => {
     try {
       // Use WebRTC to discover local IP address
       const localIP = await getLocalIPAddress();
-      const currentPort = '8080'; // Use a consistent port for baby monitor
+      const currentPort = String(signalingHostRef.current?.port ?? DEFAULT_SIGNALING_PORT);
       
       setIpAddress(localIP);
       setPort(currentPort);
@@ -197,7 +804,7 @@ const constraints: MediaStreamConstraints = {
       console.error('Error getting network info:', error);
       // Fallback to basic info
       setIpAddress(window.location.hostname);
-      setPort(window.location.port || '80');
+      setPort(String(signalingHostRef.current?.port ?? DEFAULT_SIGNALING_PORT));
       setShowNetworkInfo(true);
     }
   };
@@ -289,200 +896,121 @@ const constraints: MediaStreamConstraints = {
     });
   };
 
-  // Real HTTP server for WebRTC signaling using capacitor-nodejs
-  const setupHTTPSignalingServer = async () => {
+  const endPairing = () => {
+    pairingSessionRef.current = null;
+    setPairingSession(null);
+  };
+
+  const startPairing = async () => {
     try {
-      console.log('Attempting to setup real HTTP signaling server...');
-      
-      // Try to import capacitor-nodejs
-      try {
-        const nodeModule = await import('capacitor-nodejs');
-        
-        if (nodeModule && (nodeModule as any).NodeJS) {
-          console.log('capacitor-nodejs available, starting real server...');
-          
-          // Note: This is a simplified approach as the exact API may vary
-          // The actual implementation would need to match the plugin's interface
-          await startRealNodeJSServer(nodeModule as any);
-          return;
-        }
-      } catch (importError) {
-        console.log('capacitor-nodejs not available:', importError);
-      }
-      
-      // Fall back to simulation
-      console.log('Falling back to HTTP signaling server simulation...');
-      setupHTTPSignalingServerFallback();
-      
+      await Haptics.impact({ style: ImpactStyle.Light });
     } catch (error) {
-      console.error('Failed to start real HTTP server, falling back to simulation:', error);
-      setupHTTPSignalingServerFallback();
+      console.log('Haptics not available:', error);
     }
+
+    if (!advertisedDeviceRef.current) {
+      setSignalingError('Still setting up the network, try again in a moment');
+      return;
+    }
+
+    const session = startPairingSession();
+    pairingSessionRef.current = session;
+    setPairingSession(session);
+    setNow(Date.now());
   };
 
-  // Real Node.js server implementation (if plugin is available)
-  const startRealNodeJSServer = async (nodeModule: any) => {
+  const forgetParents = () => {
+    forgetPairedParents();
+    setPairedParents(0);
+  };
+
+  // Count down the PIN and close pairing when it expires
+  useEffect(() => {
+    if (!pairingSession) return;
+
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() > pairingSession.expiresAt) {
+        endPairing();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [pairingSession]);
+
+  // A parent entered or scanned our PIN; check its proof, finish the key exchange and remember the key
+  const handlePairRequest = async (parentId: string, request: PairingHandshake): Promise<PairedDevice & PairingHandshake> => {
+    const session = pairingSessionRef.current;
+    const device = advertisedDeviceRef.current;
+    if (!session || Date.now() > session.expiresAt || !device) {
+      throw new Error('Pairing is not open on the baby monitor');
+    }
+
+    const accepted = await acceptPairing(session.pin, parentId, request);
+    if (!accepted) {
+      session.attempts += 1;
+      if (session.attempts >= MAX_PAIRING_ATTEMPTS) {
+        endPairing();
+        throw new Error('Too many wrong PINs. Start pairing again on the baby monitor.');
+      }
+      throw new Error('Wrong PIN');
+    }
+
+    savePairedParent(parentId, accepted.key);
+    setPairedParents(countPairedParents());
+    endPairing();
+    console.log('Paired with parent:', parentId);
+
     try {
-      const NodeJS = nodeModule.NodeJS;
-      
-      // Server code as a string to be executed in Node.js context
-      const serverScript = `
-        const http = require('http');
-        const url = require('url');
-        
-        console.log('Starting Node.js HTTP server for WebRTC signaling...');
-        
-        // Create HTTP server
-        const server = http.createServer((req, res) => {
-          // Enable CORS
-          res.setHeader('Access-Control-Allow-Origin', '*');
-          res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-          res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-          
-          if (req.method === 'OPTIONS') {
-            res.writeHead(200);
-            res.end();
-            return;
-          }
-          
-          const parsedUrl = url.parse(req.url, true);
-          const path = parsedUrl.pathname;
-          
-          console.log('Received request:', req.method, path);
-          
-          if (req.method === 'POST' && path === '/webrtc/offer') {
-            let body = '';
-            req.on('data', chunk => { body += chunk.toString(); });
-            req.on('end', () => {
-              try {
-                const data = JSON.parse(body);
-                console.log('WebRTC offer received:', data.parentId);
-                
-                // For now, send a basic response
-                // Real implementation would handle WebRTC signaling
-                res.writeHead(200, { 'Content-Type': 'application/json' });
-                res.end(JSON.stringify({ 
-                  success: true, 
-                  message: 'Offer received, but signaling not fully implemented'
-                }));
-              } catch (error) {
-                res.writeHead(400, { 'Content-Type': 'application/json' });
-                res.end(JSON.stringify({ error: error.message }));
-              }
-            });
-          } else {
-            res.writeHead(404, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ error: 'Endpoint not found' }));
-          }
-        });
-        
-        // Start server on port 8080
-        server.listen(8080, '0.0.0.0', () => {
-          console.log('HTTP server running on port 8080');
-        });
-        
-        server.on('error', (error) => {
-          console.error('Server error:', error);
-        });
-      `;
-      
-      // This is a simplified approach - actual implementation would depend on the plugin's API
-      console.log('Real HTTP server would be started here with Node.js plugin');
-      
-      // For now, fall back to simulation as the plugin setup is complex
-      setupHTTPSignalingServerFallback();
-      
+      await Haptics.impact({ style: ImpactStyle.Medium });
     } catch (error) {
-      console.error('Error starting real Node.js server:', error);
-      setupHTTPSignalingServerFallback();
+      console.log('Haptics not available:', error);
     }
+
+    return { deviceId: device.id, name: device.name, ...accepted.reply };
   };
 
-  // Fallback HTTP server simulation
-  const setupHTTPSignalingServerFallback = () => {
-    console.log('Setting up HTTP signaling server fallback simulation...');
-    
-    // Store for WebRTC signaling data
-    const signalingData = {
-      offers: new Map(),
-      answers: new Map(),
-      candidates: new Map()
-    };
+  // Only paired parents may start a session
+  const authorizeParent = async (parentId: string, offer: RTCSessionDescriptionInit, auth?: string) => {
+    const key = getPairedParentKey(parentId);
+    if (!key || !auth || !(await verifyOffer(key, parentId, offer, auth))) return null;
+    return deriveSessionKey(key, parentId, offer);
+  };
 
-    // Simulate HTTP endpoints using localStorage and polling
-    const serverEndpoints = {
-      handleOffer: async (parentId: string, offer: RTCSessionDescriptionInit) => {
-        console.log('Received WebRTC offer from parent:', parentId);
-        const answer = await handleParentConnection(parentId, offer);
-        return { answer };
-      },
+  const pairingCode = (session: PairingSession): PairingCode => {
+    const device = advertisedDeviceRef.current;
+    return {
+      v: SIGNALING_PROTOCOL_VERSION,
+      type: 'zoya-pairing',
+      id: device.id,
+      name: device.name,
+      host: device.host,
+      port: device.port,
+      pin: session.pin
+    };
+  };
 
-      handleICECandidate: (parentId: string, candidate: RTCIceCandidate) => {
-        console.log('Received ICE candidate from parent:', parentId);
-        if (!signalingData.candidates.has(parentId)) {
-          signalingData.candidates.set(parentId, []);
-        }
-        signalingData.candidates.get(parentId).push(candidate);
-        
-        // Apply candidate to existing peer connection
-        const peerConnection = peerConnectionsRef.current.get(parentId);
-        if (peerConnection) {
-          peerConnection.addIceCandidate(candidate);
-        }
-        return { success: true };
+  // Start the signaling server that parents send their offers to
+  const setupSignalingServer = async () => {
+    console.log('Starting WebRTC signaling server...');
+
+    const host = await startSignalingHost({
+      authorize: authorizeParent,
+      onPair: handlePairRequest,
+      onOffer: handleParentConnection,
+      onRenegotiate: handleParentRenegotiation,
+      onIceCandidate: handleICECandidate,
+      onBye: (parentId) => {
+        console.log('Parent said goodbye:', parentId);
+        closeParentConnection(parentId);
       },
+      onMotionRegions: handleMotionRegions
+    });
+    signalingHostRef.current = host;
+    setSignalingError(null);
 
-      getCandidates: (parentId: string) => {
-        const candidates = signalingData.candidates.get(parentId) || [];
-        signalingData.candidates.set(parentId, []); // Clear after retrieval
-        return { candidates };
-      }
-    };
-
-    // Store endpoints in window for access by fetch simulation
-    (window as Window & { babyMonitorSignaling?: typeof serverEndpoints }).babyMonitorSignaling = serverEndpoints;
-    
-    // Intercept fetch requests to baby monitor endpoints
-    const originalFetch = window.fetch;
-    window.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
-      const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
-      
-      // Check if this is a request to our baby monitor endpoints
-      if (url.includes('/webrtc/')) {
-        console.log('Intercepting WebRTC signaling request:', url);
-        
-        try {
-          const body = init?.body ? JSON.parse(init.body as string) : {};
-          let result;
-          
-          if (url.includes('/webrtc/offer')) {
-            result = await serverEndpoints.handleOffer(body.parentId, body.offer);
-          } else if (url.includes('/webrtc/ice-candidate')) {
-            result = serverEndpoints.handleICECandidate(body.parentId, body.candidate);
-          } else if (url.includes('/webrtc/get-candidates/')) {
-            const parentId = url.split('/').pop();
-            result = serverEndpoints.getCandidates(parentId!);
-          }
-          
-          // Return a fake successful response
-          return new Response(JSON.stringify(result), {
-            status: 200,
-            headers: { 'Content-Type': 'application/json' }
-          });
-        } catch (error) {
-          console.error('Error in fetch simulation:', error);
-          return new Response(JSON.stringify({ error: error.message }), {
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-      }
-      
-      // For non-baby monitor requests, use original fetch
-      return originalFetch(input, init);
-    };
-    
-    console.log('HTTP signaling server fallback ready');
+    console.log(`Signaling server ready on port ${host.port} (${host.transport})`);
+    return host;
   };
 
   // Setup network broadcasting for device discovery
@@ -495,7 +1023,9 @@ const constraints: MediaStreamConstraints = {
           const idInfo = await Device.getId();
           deviceIdentifier = idInfo.identifier ?? `baby-${Date.now()}`;
         } else {
-          deviceIdentifier = `baby-${Date.now()}`;
+          // Parents pair with this id, so keep it across sessions
+          deviceIdentifier = localStorage.getItem('zoyaBabyId') ?? `baby-${Date.now()}`;
+          localStorage.setItem('zoyaBabyId', deviceIdentifier);
         }
       } catch (err) {
         console.warn('Device ID not available:', err);
@@ -506,7 +1036,9 @@ const constraints: MediaStreamConstraints = {
 
       // Get local IP address
       const localIP = await getLocalIPAddress();
-      const port = window.location.port ? parseInt(window.location.port) : 8080;
+
+      // Parents connect to the signaling server, so that is the port we advertise
+      const { port } = await setupSignalingServer();
 
       const deviceData = {
         id: deviceIdentifier,
@@ -522,9 +1054,6 @@ const constraints: MediaStreamConstraints = {
 
       console.log('Device data created:', deviceData);
 
-      // Setup HTTP signaling server
-      await setupHTTPSignalingServer();
-
       // Advertise the device for discovery
       await setupDeviceAdvertising(localIP, port, deviceInfo, deviceIdentifier);
 
@@ -532,15 +1061,16 @@ const constraints: MediaStreamConstraints = {
 
     } catch (error) {
       console.error('Error setting up network broadcasting:', error);
+      setSignalingError(error.message);
     }
   };
 
   // Setup device advertising using localStorage and BroadcastChannel
-  const setupDeviceAdvertising = async (networkAddress: string, port: number, deviceInfo: any, deviceId: string) => {
+  const setupDeviceAdvertising = async (networkAddress: string, port: number, deviceInfo: DeviceInfo, deviceId: string) => {
     try {
       console.log('Setting up device advertising...');
       
-      const deviceData = {
+      const deviceData: AdvertisedDevice = {
         id: deviceId,
         name: `Baby Monitor (${deviceInfo.model || 'Unknown Device'})`,
         type: 'baby-monitor',
@@ -555,60 +1085,96 @@ const constraints: MediaStreamConstraints = {
       };
 
       // Store in localStorage for discovery
-      localStorage.setItem('babyMonitorActive', JSON.stringify({
+      const storedMonitor: StoredMonitor = {
         address: networkAddress,
         port: port,
         device: deviceData
-      }));
+      };
+      localStorage.setItem('babyMonitorActive', JSON.stringify(storedMonitor));
 
       // Broadcast device availability
-      const networkChannel = new BroadcastChannel('zoya-network-discovery');
-      networkChannel.postMessage({
+      const networkChannel = new BroadcastChannel(DISCOVERY_CHANNEL_NAME);
+      networkChannel.postMessage(createDiscoveryMessage({
         type: 'baby-monitor-active',
         device: deviceData
-      });
+      }));
+      networkChannel.close();
 
       // Start periodic broadcasting for discovery
       discoveryIntervalRef.current = setInterval(() => {
         try {
-          const channel = new BroadcastChannel('zoya-network-discovery');
-          channel.postMessage({
+          const channel = new BroadcastChannel(DISCOVERY_CHANNEL_NAME);
+          channel.postMessage(createDiscoveryMessage({
             type: 'baby-monitor-heartbeat',
             device: {
               ...deviceData,
               timestamp: Date.now(),
               lastSeen: Date.now()
             }
-          });
+          }));
           channel.close();
         } catch (error) {
           console.error('Error broadcasting heartbeat:', error);
         }
       }, 5000); // Broadcast every 5 seconds
 
+      advertisedDeviceRef.current = deviceData;
       console.log('Device advertising setup completed:', deviceData);
+
+      // Publish over mDNS so parents on other devices can find us
+      try {
+        bonjourServiceRef.current = await advertiseMonitor({
+          id: deviceId,
+          name: deviceData.name,
+          capabilities: ['video', 'audio', 'websocket', 'http-polling']
+        });
+      } catch (error) {
+        console.log('mDNS advertising not available:', error);
+      }
     } catch (error) {
       console.error('Error setting up device advertising:', error);
     }
   };
 
   // Handle parent monitor connections via WebRTC
-  const handleICECandidate = async (parentId: string, candidate: RTCIceCandidate) => {
+  const handleICECandidate = async (parentId: string, candidate: RTCIceCandidateInit) => {
     try {
       const peerConnection = peerConnectionsRef.current.get(parentId);
-      if (peerConnection && candidate) {
+      if (peerConnection?.remoteDescription && candidate) {
         console.log('Adding ICE candidate from parent:', parentId);
         await peerConnection.addIceCandidate(candidate);
+      } else if (candidate) {
+        // Trickled candidates can overtake the offer; hold them until it is applied
+        const pending = pendingCandidatesRef.current.get(parentId) ?? [];
+        pending.push(candidate);
+        pendingCandidatesRef.current.set(parentId, pending);
       }
     } catch (error) {
       console.error('Error handling ICE candidate:', error);
     }
   };
 
+  const flushPendingCandidates = async (parentId: string, peerConnection: RTCPeerConnection) => {
+    const pending = pendingCandidatesRef.current.get(parentId) ?? [];
+    pendingCandidatesRef.current.delete(parentId);
+    for (const candidate of pending) {
+      try {
+        await peerConnection.addIceCandidate(candidate);
+      } catch (error) {
+        console.error('Error adding queued ICE candidate:', error);
+      }
+    }
+  };
+
   const handleParentConnection = async (parentId: string, offer: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit> => {
     try {
       console.log('Setting up WebRTC connection with parent:', parentId);
 
+      // A fresh offer from a parent we already know replaces its old session
+      if (peerConnectionsRef.current.has(parentId)) {
+        closeParentConnection(parentId);
+      }
+
       const peerConnection = new RTCPeerConnection({
         iceServers: [
           { urls: 'stun:stun.l.google.com:19302' },
@@ -624,8 +1190,61 @@ const constraints: MediaStreamConstraints = {
         });
       }
 
+      // Noise (and later other) events go straight to the parent over this channel
+      const channel = openPeerChannel(peerConnection);
+      channel.onopen = () => {
+        if (noiseStartRef.current) {
+          sendPeerMessage(channel, noiseStartRef.current);
+        }
+        if (soothingPlayerRef.current) {
+          sendPeerMessage(channel, soothingStatePayload(soothingPlayerRef.current.getState()));
+        }
+        sendPeerMessage(channel, telemetryPayload());
+        if (!parentQualityRef.current.has(parentId)) {
+          parentQualityRef.current.set(parentId, {
+            mode: 'auto',
+            profile: initialAutoQuality().profile,
+            auto: initialAutoQuality(),
+            counters: null
+          });
+        }
+        applyParentQuality(parentId);
+      };
+      channel.onmessage = (event) => {
+        try {
+          handlePeerMessage(parentId, parsePeerMessage(event.data));
+        } catch (error) {
+          console.error('Ignoring peer message:', error.message);
+        }
+      };
+
+      // A parent's push-to-talk audio arrives on the pre-negotiated audio transceiver
+      peerConnection.ontrack = (event) => {
+        if (event.track.kind !== 'audio') return;
+        console.log('Receiving talk-back audio from parent:', parentId);
+        const audio = new Audio();
+        audio.autoplay = true;
+        audio.srcObject = new MediaStream([event.track]);
+        audio.play().catch(err => console.log('Talk-back playback error:', err));
+        talkAudioRef.current.get(parentId)?.pause();
+        talkAudioRef.current.set(parentId, audio);
+      };
+      peerChannelsRef.current.set(parentId, channel);
+
+      // Relay our ICE candidates to the parent through the signaling server
+      peerConnection.onicecandidate = (event) => {
+        if (event.candidate) {
+          signalingHostRef.current?.send(parentId, { type: 'ice-candidate', candidate: event.candidate.toJSON() });
+        }
+      };
+
+      // Store peer connection
+      peerConnectionsRef.current.set(parentId, peerConnection);
+      setConnectedParents(prev => prev + 1);
+
       // Set remote description (offer from parent)
       await peerConnection.setRemoteDescription(offer);
+      await flushPendingCandidates(parentId, peerConnection);
 
       // Create and send answer
       const answer = await peerConnection.createAnswer();
@@ -633,16 +1252,25 @@ const constraints: MediaStreamConstraints = {
 
       console.log('Created answer for parent:', parentId);
 
-      // Store peer connection
-      peerConnectionsRef.current.set(parentId, peerConnection);
-      setConnectedParents(prev => prev + 1);
-
+      // A dropped connection may come back with an ICE restart from the
+      // parent (a `renegotiate` offer), so only give up once it has failed
+      // or stayed down past the grace period
       peerConnection.onconnectionstatechange = () => {
         console.log('Peer connection state:', peerConnection.connectionState);
-        if (peerConnection.connectionState === 'disconnected' ||
-            peerConnection.connectionState === 'failed') {
+        if (peerConnectionsRef.current.get(parentId) !== peerConnection) return;
+
+        if (peerConnection.connectionState === 'failed') {
           handleParentDisconnection(parentId);
+        } else if (peerConnection.connectionState === 'disconnected') {
+          if (!disconnectTimersRef.current.has(parentId)) {
+            disconnectTimersRef.current.set(parentId, setTimeout(() => {
+              console.log('Parent did not come back in time:', parentId);
+              handleParentDisconnection(parentId);
+            }, PARENT_RECONNECT_GRACE_MS));
+          }
         } else if (peerConnection.connectionState === 'connected') {
+          clearTimeout(disconnectTimersRef.current.get(parentId));
+          disconnectTimersRef.current.delete(parentId);
           console.log('Parent successfully connected!');
         }
       };
@@ -651,11 +1279,278 @@ const constraints: MediaStreamConstraints = {
 
     } catch (error) {
       console.error('Error handling parent connection:', error);
+      closeParentConnection(parentId);
       throw error;
     }
   };
 
-  const handleParentDisconnection = (parentId: string) => {
+  const setParentTalking = (parentId: string, talking: boolean) => {
+    setTalkingParents(previous => {
+      if (previous.has(parentId) === talking) return previous;
+      const next = new Set(previous);
+      if (talking) {
+        next.add(parentId);
+      } else {
+        next.delete(parentId);
+      }
+      return next;
+    });
+  };
+
+  const stopTalkAudio = (parentId: string) => {
+    const audio = talkAudioRef.current.get(parentId);
+    if (audio) {
+      audio.pause();
+      audio.srcObject = null;
+      talkAudioRef.current.delete(parentId);
+    }
+    setParentTalking(parentId, false);
+  };
+
+  const handlePeerMessage = (parentId: string, message: PeerMessage) => {
+    switch (message.type) {
+      case 'talk':
+        console.log(`Parent ${parentId} ${message.active ? 'started' : 'stopped'} talking`);
+        setParentTalking(parentId, message.active);
+        break;
+      case 'command':
+        handleCommand(parentId, message.id, message.command);
+        break;
+      case 'soothe': {
+        const { sound, volume, timerMinutes } = message;
+        console.log(`Parent ${parentId} changed soothing sounds`);
+        handleSoothingCommand({ sound, volume, timerMinutes });
+        break;
+      }
+      default:
+        console.log('Ignoring unexpected peer message:', message.type);
+    }
+  };
+
+  // Run a parent's command and answer it with an ack carrying the same id
+  const handleCommand = async (parentId: string, id: string, command: PeerCommand) => {
+    const reply = (ok: boolean, extra: { error?: string; result?: unknown } = {}) => {
+      sendPeerMessage(peerChannelsRef.current.get(parentId), { type: 'ack', id, ok, ...extra });
+    };
+
+    console.log(`Command from parent ${parentId}:`, command.name);
+    try {
+      switch (command.name) {
+        case 'set-camera':
+          if (!setCameraEnabled(command.enabled)) {
+            reply(false, { error: 'No camera is running' });
+            return;
+          }
+          reply(true, { result: { enabled: command.enabled } });
+          break;
+        case 'set-mic':
+          if (!setMicEnabled(command.enabled)) {
+            reply(false, { error: 'No microphone is running' });
+            return;
+          }
+          reply(true, { result: { enabled: command.enabled } });
+          break;
+        case 'set-quality': {
+          const profile = await setParentQuality(parentId, command.mode);
+          reply(true, { result: { profile } });
+          break;
+        }
+        case 'list-clips':
+          reply(true, { result: { clips: await listClips() } });
+          break;
+        case 'get-clip': {
+          const { transfer, chunks } = await prepareClip(command.id);
+          reply(true, { result: transfer });
+          await streamClip(parentId, transfer.id, chunks);
+          return;
+        }
+        case 'request-snapshot': {
+          const result = await sendSnapshot(parentId);
+          reply(true, { result });
+          break;
+        }
+        case 'switch-camera': {
+          const camera = await switchCamera(command.deviceId);
+          reply(true, { result: camera });
+          break;
+        }
+        default:
+          // Every known command is handled above; this answers ones added later
+          reply(false, { error: `${(command as PeerCommand).name} is not supported by this baby monitor` });
+      }
+    } catch (error) {
+      console.error('Command failed:', error);
+      reply(false, { error: error.message });
+    }
+  };
+
+  // A still from the local track at full camera resolution, sent in chunks ahead of the ack
+  const sendSnapshot = async (parentId: string) => {
+    const videoTrack = streamRef.current?.getVideoTracks()[0];
+    if (!videoTrack || !videoRef.current) {
+      throw new Error('No camera is running');
+    }
+    if (!videoTrack.enabled) {
+      throw new Error('The camera is turned off');
+    }
+
+    const { blob, width, height } = await captureFrame(videoRef.current);
+    const chunks = splitIntoChunks(await blobToBase64(blob));
+    if (chunks.length > MAX_SNAPSHOT_CHUNKS) {
+      throw new Error('Snapshot is too large to send');
+    }
+
+    const id = crypto.randomUUID();
+    const channel = peerChannelsRef.current.get(parentId);
+    chunks.forEach((data, index) => {
+      if (!sendPeerMessage(channel, { type: 'snapshot-chunk', id, index, count: chunks.length, data })) {
+        throw new Error('Control channel closed');
+      }
+    });
+    console.log(`Sent a ${width}x${height} snapshot to parent ${parentId} in ${chunks.length} chunks`);
+    return { id, width, height };
+  };
+
+  // Clips are too big to send before the ack; it announces the transfer instead
+  const prepareClip = async (clipId: string) => {
+    const clip = await getClip(clipId);
+    if (!clip) {
+      throw new Error('That clip no longer exists');
+    }
+    const chunks = splitIntoChunks(await blobToBase64(clip.blob));
+    if (chunks.length === 0 || chunks.length > MAX_CLIP_CHUNKS) {
+      throw new Error('That clip cannot be sent');
+    }
+    return {
+      transfer: { id: crypto.randomUUID(), count: chunks.length, mimeType: clip.mimeType, size: clip.blob.size },
+      chunks
+    };
+  };
+
+  const streamClip = async (parentId: string, transferId: string, chunks: string[]) => {
+    for (let index = 0; index < chunks.length; index++) {
+      const channel = peerChannelsRef.current.get(parentId);
+      if (!channel) {
+        throw new Error('Parent disconnected');
+      }
+      await waitForBufferedAmount(channel, CLIP_SEND_BUFFER_BYTES);
+      sendPeerMessage(channel, { type: 'clip-chunk', id: transferId, index, data: chunks[index] });
+    }
+    console.log(`Sent a clip to parent ${parentId} in ${chunks.length} chunks`);
+  };
+
+  // Put a parent's current profile on its video sender and tell the parent
+  const applyParentQuality = async (parentId: string) => {
+    const quality = parentQualityRef.current.get(parentId);
+    const peerConnection = peerConnectionsRef.current.get(parentId);
+    if (!quality || !peerConnection) return;
+    try {
+      await applyQualityProfile(peerConnection, quality.profile);
+    } catch (error) {
+      console.error(`Could not apply video quality for parent ${parentId}:`, error);
+    }
+    sendPeerMessage(peerChannelsRef.current.get(parentId), { type: 'quality', mode: quality.mode, profile: quality.profile });
+  };
+
+  const setParentQuality = async (parentId: string, mode: QualityMode) => {
+    if (!peerConnectionsRef.current.has(parentId)) {
+      throw new Error('No session for this parent');
+    }
+    const auto = initialAutoQuality();
+    const profile = mode === 'auto' ? auto.profile : mode;
+    console.log(`Parent ${parentId} chose ${mode} video quality`);
+    parentQualityRef.current.set(parentId, { mode, profile, auto, counters: null });
+    await applyParentQuality(parentId);
+    return profile;
+  };
+
+  // Automatic mode: move each parent between profiles based on its sender stats
+  useEffect(() => {
+    if (!isStreaming) return;
+
+    let isChecking = false;
+    const check = async () => {
+      if (isChecking) return;
+      isChecking = true;
+      try {
+        for (const [parentId, quality] of parentQualityRef.current) {
+          const peerConnection = peerConnectionsRef.current.get(parentId);
+          if (quality.mode !== 'auto' || peerConnection?.connectionState !== 'connected') continue;
+
+          const { sample, counters } = await sampleSenderQuality(peerConnection, quality.counters);
+          const auto = updateAutoQuality(quality.auto, sample);
+          // The parent may have left or picked a mode while the stats were read
+          if (parentQualityRef.current.get(parentId) !== quality) continue;
+          parentQualityRef.current.set(parentId, { ...quality, profile: auto.profile, auto, counters });
+          if (auto.profile !== quality.profile) {
+            console.log(`Video quality for parent ${parentId}: ${quality.profile} -> ${auto.profile}`);
+            await applyParentQuality(parentId);
+          }
+        }
+      } catch (error) {
+        console.log('Could not check video quality:', error);
+      } finally {
+        isChecking = false;
+      }
+    };
+
+    const interval = setInterval(check, QUALITY_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isStreaming]);
+
+  // Read from the tracks rather than state so it's current in any callback
+  const telemetryPayload = (): PeerPayload => ({
+    type: 'telemetry',
+    cameraEnabled: streamRef.current?.getVideoTracks()[0]?.enabled ?? false,
+    micEnabled: streamRef.current?.getAudioTracks()[0]?.enabled ?? false,
+    connectedParents: peerConnectionsRef.current.size,
+    cameraCount: cameraCountRef.current,
+    batteryLevel: batteryRef.current?.batteryLevel,
+    charging: batteryRef.current?.isCharging
+  });
+
+  useEffect(() => {
+    broadcastToParents(telemetryPayload());
+  }, [isCameraEnabled, isMicEnabled, connectedParents, cameras.length]);
+
+  useEffect(() => {
+    if (!isStreaming) return;
+
+    const update = async () => {
+      try {
+        batteryRef.current = await Device.getBatteryInfo();
+      } catch (error) {
+        console.log('Battery info not available:', error);
+      }
+      broadcastToParents(telemetryPayload());
+    };
+
+    update();
+    const interval = setInterval(update, TELEMETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isStreaming]);
+
+  // Apply a new offer from an already connected parent (e.g. it added a track)
+  const handleParentRenegotiation = async (parentId: string, offer: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit> => {
+    const peerConnection = peerConnectionsRef.current.get(parentId);
+    if (!peerConnection) {
+      throw new Error(`No active session for ${parentId}`);
+    }
+
+    console.log('Renegotiating with parent:', parentId);
+    await peerConnection.setRemoteDescription(offer);
+    const answer = await peerConnection.createAnswer();
+    await peerConnection.setLocalDescription(answer);
+    return answer;
+  };
+
+  const closeParentConnection = (parentId: string) => {
+    clearTimeout(disconnectTimersRef.current.get(parentId));
+    disconnectTimersRef.current.delete(parentId);
+    pendingCandidatesRef.current.delete(parentId);
+    peerChannelsRef.current.delete(parentId);
+    parentQualityRef.current.delete(parentId);
+    stopTalkAudio(parentId);
     const peerConnection = peerConnectionsRef.current.get(parentId);
     if (peerConnection) {
       peerConnection.close();
@@ -664,6 +1559,13 @@ const constraints: MediaStreamConstraints = {
     }
   };
 
+  const handleParentDisconnection = (parentId: string) => {
+    if (peerConnectionsRef.current.has(parentId)) {
+      signalingHostRef.current?.send(parentId, { type: 'bye' });
+    }
+    closeParentConnection(parentId);
+  };
+
   const cleanupNetworkBroadcasting = async () => {
     if (discoveryIntervalRef.current) {
       clearInterval(discoveryIntervalRef.current);
@@ -674,38 +1576,48 @@ const constraints: MediaStreamConstraints = {
     try {
       // Remove from localStorage
       localStorage.removeItem('babyMonitorActive');
+
+      if (bonjourServiceRef.current) {
+        bonjourServiceRef.current();
+        bonjourServiceRef.current = null;
+      }
       
       console.log('Device advertising cleaned up');
     } catch (error) {
       console.error('Error cleaning up device advertising:', error);
     }
 
-    // Close WebSocket connection
-    if (webSocketRef.current) {
-      try {
-        webSocketRef.current.close();
-        webSocketRef.current = null;
-      } catch (error) {
-        console.error('Error closing WebSocket:', error);
-      }
+    // Tell parents we are going away, then stop the signaling server relay
+    if (signalingHostRef.current) {
+      peerConnectionsRef.current.forEach((_, parentId) => {
+        signalingHostRef.current.send(parentId, { type: 'bye', reason: 'Monitoring stopped' });
+      });
+      signalingHostRef.current.stop();
+      signalingHostRef.current = null;
     }
 
     // Send network disconnection announcement
     try {
-      const networkChannel = new BroadcastChannel('zoya-network-discovery');
-      networkChannel.postMessage({
-        type: 'baby-monitor-network-disconnected'
-      });
+      const networkChannel = new BroadcastChannel(DISCOVERY_CHANNEL_NAME);
+      networkChannel.postMessage(createDiscoveryMessage({
+        type: 'baby-monitor-network-disconnected',
+        deviceId: advertisedDeviceRef.current?.id
+      }));
       networkChannel.close();
 
+      advertisedDeviceRef.current = null;
       console.log('Removed baby monitor from network discovery');
     } catch (error) {
       console.error('Error cleaning up network announcement:', error);
     }
 
     // Close all peer connections
+    disconnectTimersRef.current.forEach(timer => clearTimeout(timer));
+    disconnectTimersRef.current.clear();
     peerConnectionsRef.current.forEach(pc => pc.close());
     peerConnectionsRef.current.clear();
+    peerChannelsRef.current.clear();
+    [...talkAudioRef.current.keys()].forEach(stopTalkAudio);
   };
 
   useEffect(() => {
@@ -763,6 +1675,14 @@ const constraints: MediaStreamConstraints = {
                 <VideoOff className="w-12 h-12 text-muted-foreground" />
               </div>
             )}
+            {talkingParents.size > 0 && (
+              <div className="absolute inset-x-0 bottom-0 flex items-center justify-center gap-2 py-2 bg-primary/90 text-primary-foreground">
+                <Megaphone className="w-4 h-4 animate-pulse" />
+                <span className="text-sm font-medium">
+                  {talkingParents.size > 1 ? `${talkingParents.size} parents are talking` : 'Parent is talking'}
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Controls */}
@@ -795,8 +1715,36 @@ const constraints: MediaStreamConstraints = {
                   >
                     {isCameraEnabled ? <Video className="w-5 h-5" /> : <VideoOff className="w-5 h-5" />}
                   </Button>
+
+                  {cameras.length > 1 && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => selectCamera()}
+                      disabled={isSwitchingCamera}
+                      className="rounded-full w-12 h-12"
+                      aria-label="Switch camera"
+                    >
+                      {isSwitchingCamera ? <Loader2 className="w-5 h-5 animate-spin" /> : <SwitchCamera className="w-5 h-5" />}
+                    </Button>
+                  )}
                 </div>
 
+                {cameras.length > 1 && (
+                  <Select value={cameraId ?? ''} onValueChange={selectCamera} disabled={isSwitchingCamera}>
+                    <SelectTrigger aria-label="Camera">
+                      <SelectValue placeholder="Choose a camera" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {cameras.map(camera => (
+                        <SelectItem key={camera.deviceId} value={camera.deviceId}>
+                          {camera.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
                 <Button
                   onClick={stopMonitoring}
                   variant="destructive"
@@ -810,6 +1758,228 @@ const constraints: MediaStreamConstraints = {
           </div>
         </Card>
 
+        {/* Noise Detection */}
+        {isStreaming && (
+          <Card className="p-4 mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-3">
+                <Ear className={`w-5 h-5 ${isNoisy ? 'text-warning animate-pulse' : 'text-muted-foreground'}`} />
+                <p className="font-medium text-card-foreground">Noise Detection</p>
+              </div>
+              <span className={`text-sm ${isNoisy ? 'text-warning font-medium' : 'text-muted-foreground'}`}>
+                {isNoisy ? 'Noise detected' : 'Quiet'}
+              </span>
+            </div>
+
+            {noiseDetectionError ? (
+              <p className="text-sm text-muted-foreground">{noiseDetectionError}</p>
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <Progress value={((soundLevel - MIN_DECIBELS) / -MIN_DECIBELS) * 100} className="h-2" />
+                  <p className="text-xs text-muted-foreground text-right">{Math.round(soundLevel)} dB</p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Threshold</Label>
+                    <span className="text-sm text-muted-foreground">{noiseSettings.thresholdDb} dB</span>
+                  </div>
+                  <Slider
+                    min={-70}
+                    max={-10}
+                    step={1}
+                    value={[noiseSettings.thresholdDb]}
+                    onValueChange={([thresholdDb]) => updateNoiseSettings({ thresholdDb })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Hold time</Label>
+                    <span className="text-sm text-muted-foreground">{(noiseSettings.holdMs / 1000).toFixed(1)}s</span>
+                  </div>
+                  <Slider
+                    min={0}
+                    max={5000}
+                    step={250}
+                    value={[noiseSettings.holdMs]}
+                    onValueChange={([holdMs]) => updateNoiseSettings({ holdMs })}
+                  />
+                </div>
+              </div>
+            )}
+          </Card>
+        )}
+
+        {/* Motion Detection */}
+        {isStreaming && (
+          <Card className="p-4 mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-3">
+                <Activity className={`w-5 h-5 ${lastMotionAt !== null ? 'text-warning animate-pulse' : 'text-muted-foreground'}`} />
+                <p className="font-medium text-card-foreground">Motion Detection</p>
+              </div>
+              <span className={`text-sm ${lastMotionAt !== null ? 'text-warning font-medium' : 'text-muted-foreground'}`}>
+                {lastMotionAt !== null ? 'Motion detected' : 'Still'}
+              </span>
+            </div>
+
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Progress value={Math.min(100, (motionScore / motionSettings.threshold) * 100)} className="h-2" />
+                <p className="text-xs text-muted-foreground text-right">{(motionScore * 100).toFixed(1)}% changed</p>
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                {motionSettings.regions.length > 0
+                  ? `${motionSettings.regions.length} motion zone${motionSettings.regions.length === 1 ? '' : 's'} set from a parent device`
+                  : 'Watching the whole picture. Draw motion zones from a parent device.'}
+              </p>
+              {motionSettings.regions.length > 0 && (
+                <Button size="sm" variant="ghost" onClick={() => updateMotionSettings({ regions: [] })}>
+                  Watch Whole Picture
+                </Button>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>Trigger when the picture changes by</Label>
+                  <span className="text-sm text-muted-foreground">{(motionSettings.threshold * 100).toFixed(1)}%</span>
+                </div>
+                <Slider
+                  min={0.5}
+                  max={20}
+                  step={0.5}
+                  value={[motionSettings.threshold * 100]}
+                  onValueChange={([percent]) => updateMotionSettings({ threshold: percent / 100 })}
+                />
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {/* Event Clips */}
+        {isStreaming && (
+          <Card className="p-4 mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-3">
+                <Clapperboard className={`w-5 h-5 ${isRecordingClip ? 'text-destructive animate-pulse' : 'text-muted-foreground'}`} />
+                <p className="font-medium text-card-foreground">Event Clips</p>
+              </div>
+              <Switch
+                checked={clipRecording.enabled}
+                onCheckedChange={(enabled) => updateClipRecording({ enabled })}
+                aria-label="Record event clips"
+              />
+            </div>
+
+            {clipRecording.enabled && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="clip-on-noise">Record on noise</Label>
+                  <Switch
+                    id="clip-on-noise"
+                    checked={clipRecording.onNoise}
+                    onCheckedChange={(onNoise) => updateClipRecording({ onNoise })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="clip-on-motion">Record on motion</Label>
+                  <Switch
+                    id="clip-on-motion"
+                    checked={clipRecording.onMotion}
+                    onCheckedChange={(onMotion) => updateClipRecording({ onMotion })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <p className="text-sm text-muted-foreground mt-3">
+              {isRecordingClip
+                ? 'Recording a clip…'
+                : clipCount === null ? 'Clips are kept on this device.' : `${clipCount} clip${clipCount === 1 ? '' : 's'} saved on this device`}
+            </p>
+            {clipError && <p className="text-sm text-destructive mt-1">{clipError}</p>}
+          </Card>
+        )}
+
+        {/* Overnight Recording */}
+        {isStreaming && (
+          <Card className="p-4 mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-3">
+                <HardDrive className={`w-5 h-5 ${continuousRecording.enabled ? 'text-destructive' : 'text-muted-foreground'}`} />
+                <p className="font-medium text-card-foreground">Overnight Recording</p>
+              </div>
+              <Switch
+                checked={continuousRecording.enabled}
+                onCheckedChange={(enabled) => updateContinuousRecording({ enabled })}
+                aria-label="Record continuously"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="recording-hours">Keep up to</Label>
+                <Select
+                  value={String(continuousRecording.maxHours)}
+                  onValueChange={(value) => updateContinuousRecording({ maxHours: Number(value) })}
+                >
+                  <SelectTrigger id="recording-hours">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RETENTION_HOURS.map(hours => (
+                      <SelectItem key={hours} value={String(hours)}>{hours} hours</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="recording-size">Use at most</Label>
+                <Select
+                  value={String(continuousRecording.maxMegabytes)}
+                  onValueChange={(value) => updateContinuousRecording({ maxMegabytes: Number(value) })}
+                >
+                  <SelectTrigger id="recording-size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RETENTION_MEGABYTES.map(megabytes => (
+                      <SelectItem key={megabytes} value={String(megabytes)}>{formatSize(megabytes * 1024 * 1024)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between mt-3">
+              <p className="text-sm text-muted-foreground">
+                The oldest footage is deleted first.
+              </p>
+              {recordingUsage?.segments > 0 && (
+                <Button size="sm" variant="ghost" onClick={deleteRecordings}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete All
+                </Button>
+              )}
+            </div>
+            {recordingError && <p className="text-sm text-destructive mt-1">{recordingError}</p>}
+          </Card>
+        )}
+
+        {/* Soothing Sounds */}
+        {isStreaming && soothingPlayerRef.current && (
+          <Card className="p-4 mb-6">
+            <div className="flex items-center gap-3 mb-3">
+              <Music className={`w-5 h-5 ${soothingState.sound ? 'text-primary' : 'text-muted-foreground'}`} />
+              <p className="font-medium text-card-foreground">Soothing Sounds</p>
+            </div>
+            <SoothingControls state={soothingState} onCommand={handleSoothingCommand} />
+          </Card>
+        )}
+
         {/* Connection Info */}
         {isStreaming && (
           <Card className="p-4">
@@ -824,6 +1994,9 @@ const constraints: MediaStreamConstraints = {
                       : 'Ready for parent connections'
                     }
                   </p>
+                  {signalingError && (
+                    <p className="text-sm text-destructive">{signalingError}</p>
+                  )}
                 </div>
               </div>
 
@@ -835,6 +2008,70 @@ const constraints: MediaStreamConstraints = {
               )}
             </div>
 
+            {recordingUsage && (continuousRecording.enabled || recordingUsage.segments > 0) && (
+              <div className="mt-4 pt-4 border-t space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-2 text-muted-foreground">
+                    <HardDrive className="w-4 h-4" />
+                    Recording storage
+                  </span>
+                  <span className="font-medium text-card-foreground">
+                    {formatSize(recordingUsage.bytes)} of {formatSize(continuousRecording.maxMegabytes * 1024 * 1024)}
+                  </span>
+                </div>
+                <Progress
+                  value={Math.min(100, (recordingUsage.bytes / (continuousRecording.maxMegabytes * 1024 * 1024)) * 100)}
+                  className="h-2"
+                />
+                <p className="text-xs text-muted-foreground">
+                  {recordingUsage.segments === 0
+                    ? 'Nothing recorded yet'
+                    : `${(recordingUsage.durationMs / (60 * 60 * 1000)).toFixed(1)} hours kept`}
+                  {recordingUsage.storageQuota !== null && recordingUsage.storageUsed !== null &&
+                    ` · ${formatSize(Math.max(0, recordingUsage.storageQuota - recordingUsage.storageUsed))} free for this app`}
+                </p>
+              </div>
+            )}
+
+            <div className="mt-4 pt-4 border-t text-center">
+              {pairingSession ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    Scan this code or enter the PIN on the parent device
+                  </p>
+                  <div className="inline-block p-3 bg-white rounded-lg">
+                    <QRCodeSVG value={JSON.stringify(pairingCode(pairingSession))} size={176} />
+                  </div>
+                  <p className="text-3xl font-mono font-bold tracking-[0.3em] text-card-foreground">
+                    {pairingSession.pin}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Expires in {Math.max(0, Math.ceil((pairingSession.expiresAt - now) / 1000))}s
+                  </p>
+                  <Button size="sm" variant="outline" onClick={endPairing}>
+                    Cancel Pairing
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground">
+                    {pairedParents} paired parent{pairedParents === 1 ? '' : 's'}
+                  </span>
+                  <div className="flex gap-2">
+                    {pairedParents > 0 && (
+                      <Button size="sm" variant="ghost" onClick={forgetParents}>
+                        Forget All
+                      </Button>
+                    )}
+                    <Button size="sm" variant="secondary" onClick={startPairing}>
+                      <QrCode className="w-4 h-4 mr-2" />
+                      Pair a Parent
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
             <div className="mt-4 text-center">
               {!showNetworkInfo ? (
                 <Button size="sm" onClick={handleShowNetworkInfo}>
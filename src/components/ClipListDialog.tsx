@@ -0,0 +1,113 @@
+import { useState, useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { Activity, Download, Ear, Loader2 } from 'lucide-react';
+import type { ClipInfo } from '@/lib/clips';
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+interface ClipListDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Both go to the baby monitor over the control channel
+  onList: () => Promise<ClipInfo[]>;
+  onDownload: (clip: ClipInfo, onProgress: (fraction: number) => void) => Promise<void>;
+}
+
+const ClipListDialog = ({ open, onOpenChange, onList, onDownload }: ClipListDialogProps) => {
+  const [clips, setClips] = useState<ClipInfo[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<{ id: string; progress: number } | null>(null);
+  // Fetch once per opening, not whenever the parent re-renders
+  const onListRef = useRef(onList);
+  onListRef.current = onList;
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setClips(null);
+    setError(null);
+    onListRef.current()
+      .then(list => !cancelled && setClips(list))
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Could not list clips:', err);
+        setError(err.message);
+        setClips([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const download = async (clip: ClipInfo) => {
+    setDownloading({ id: clip.id, progress: 0 });
+    setError(null);
+    try {
+      await onDownload(clip, progress => setDownloading({ id: clip.id, progress }));
+    } catch (err) {
+      console.error('Could not download clip:', err);
+      setError(err.message);
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Event Clips</DialogTitle>
+          <DialogDescription>
+            Recorded on the baby device when it heard noise or saw motion, starting a few seconds before.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {clips === null ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : clips.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No clips recorded yet.</p>
+        ) : (
+          <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {clips.map(clip => (
+              <div key={clip.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border">
+                <div className="flex items-center gap-3 min-w-0">
+                  {clip.reason === 'noise'
+                    ? <Ear className="w-4 h-4 shrink-0 text-muted-foreground" />
+                    : <Activity className="w-4 h-4 shrink-0 text-muted-foreground" />}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground">{format(clip.eventAt, 'MMM d, HH:mm:ss')}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {clip.reason === 'noise' ? 'Noise' : 'Motion'} · {Math.round(clip.durationMs / 1000)}s · {formatSize(clip.size)}
+                    </p>
+                    {downloading?.id === clip.id && (
+                      <Progress value={downloading.progress * 100} className="h-1 mt-2" />
+                    )}
+                  </div>
+                </div>
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={() => download(clip)}
+                  disabled={downloading !== null}
+                  aria-label="Download clip"
+                >
+                  {downloading?.id === clip.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClipListDialog;
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronUp, Gauge } from 'lucide-react';
+import type { ConnectionStats } from '@/lib/connection-stats';
+
+const CANDIDATE_LABELS: Record<string, string> = {
+  host: 'Local network',
+  srflx: 'Direct (NAT)',
+  prflx: 'Direct (NAT)',
+  relay: 'Relayed'
+};
+
+const formatBitrate = (bitsPerSecond: number) =>
+  bitsPerSecond >= 1_000_000
+    ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+
+const formatMs = (ms: number | undefined) => (ms === undefined ? '–' : `${Math.round(ms)} ms`);
+
+const connectionType = (stats: ConnectionStats) => {
+  const { localCandidateType: local, remoteCandidateType: remote } = stats;
+  if (!local || !remote) return '–';
+  const label = local === 'relay' || remote === 'relay' ? CANDIDATE_LABELS.relay : CANDIDATE_LABELS[local] ?? local;
+  return `${label} (${local}/${remote})`;
+};
+
+interface ConnectionStatsPanelProps {
+  stats: ConnectionStats | null;
+}
+
+// Collapsed by default; the signal bars in the header are the at-a-glance view
+const ConnectionStatsPanel = ({ stats }: ConnectionStatsPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const rows: [string, string][] = stats ? [
+    ['Round trip', formatMs(stats.rttMs)],
+    ['Packet loss', `${(stats.packetLoss * 100).toFixed(1)}%`],
+    ['Jitter', formatMs(stats.jitterMs)],
+    ['Bitrate', formatBitrate(stats.bitrate)],
+    ['Resolution', stats.width && stats.height ? `${stats.width}×${stats.height}` : '–'],
+    ['Frame rate', stats.framesPerSecond === undefined ? '–' : `${Math.round(stats.framesPerSecond)} fps`],
+    ['Codec', stats.codec ?? '–'],
+    ['Connection', connectionType(stats)]
+  ] : [];
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="rounded-lg bg-black/60 text-white">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-white hover:bg-white/10 hover:text-white">
+          <Gauge className="w-4 h-4 mr-2" />
+          Stats
+          {isOpen ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3">
+        {stats ? (
+          <dl className="grid grid-cols-[auto_auto] gap-x-4 gap-y-1 text-xs">
+            {rows.map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-white/70">{label}</dt>
+                <dd className="font-mono">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        ) : (
+          <p className="text-xs text-white/70">Waiting for stats…</p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ConnectionStatsPanel;
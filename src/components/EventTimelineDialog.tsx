@@ -0,0 +1,286 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Activity,
+  ArrowLeft,
+  BatteryLow,
+  BellOff,
+  Ear,
+  Image,
+  Loader2,
+  Mic,
+  Play,
+  Share2,
+  Wifi,
+  WifiOff,
+  type LucideIcon
+} from 'lucide-react';
+import {
+  clearEvents,
+  findClipForEvent,
+  getEvents,
+  EVENT_TYPE_LABELS,
+  type MonitorEvent,
+  type MonitorEventType
+} from '@/lib/event-log';
+import { clipFileName, type ClipInfo } from '@/lib/clips';
+import { getSnapshot, shareSnapshot, type Snapshot } from '@/lib/snapshots';
+import { shareFile } from '@/lib/share';
+
+const EVENT_ICONS: Record<MonitorEventType, LucideIcon> = {
+  noise: Ear,
+  motion: Activity,
+  connected: Wifi,
+  disconnected: WifiOff,
+  'signal-lost': WifiOff,
+  'signal-restored': Wifi,
+  'alarm-acknowledged': BellOff,
+  'battery-low': BatteryLow,
+  talk: Mic,
+  snapshot: Image
+};
+
+// What a tapped event opened: a clip from the baby monitor or a saved snapshot
+type Viewing =
+  | { kind: 'clip'; event: MonitorEvent; clip: ClipInfo; progress: number; blob?: Blob }
+  | { kind: 'snapshot'; event: MonitorEvent; snapshot?: Snapshot };
+
+interface EventTimelineDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Clips can only be fetched from the baby monitor we're connected to
+  connectedDeviceId?: string;
+  onListClips?: () => Promise<ClipInfo[]>;
+  onFetchClip?: (clip: ClipInfo, onProgress: (fraction: number) => void) => Promise<Blob>;
+}
+
+const EventTimelineDialog = ({ open, onOpenChange, connectedDeviceId, onListClips, onFetchClip }: EventTimelineDialogProps) => {
+  const [events, setEvents] = useState<MonitorEvent[]>([]);
+  const [typeFilter, setTypeFilter] = useState<MonitorEventType | 'all'>('all');
+  const [deviceFilter, setDeviceFilter] = useState('all');
+  const [clips, setClips] = useState<ClipInfo[]>([]);
+  const [viewing, setViewing] = useState<Viewing | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Fetch once per opening, not whenever the parent re-renders
+  const onListClipsRef = useRef(onListClips);
+  onListClipsRef.current = onListClips;
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setEvents(getEvents().reverse());
+    setViewing(null);
+    setError(null);
+    setClips([]);
+    onListClipsRef.current?.()
+      .then(list => !cancelled && setClips(list))
+      .catch(err => console.log('Could not list clips for the timeline:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  // Devices that appear in the log, under the name each was last seen with
+  const devices = useMemo(() => {
+    const names = new Map<string, string>();
+    events.forEach(event => {
+      if (event.deviceId && !names.has(event.deviceId)) {
+        names.set(event.deviceId, event.deviceName ?? event.deviceId);
+      }
+    });
+    return Array.from(names.entries());
+  }, [events]);
+
+  const shown = events.filter(event =>
+    (typeFilter === 'all' || event.type === typeFilter) &&
+    (deviceFilter === 'all' || event.deviceId === deviceFilter)
+  );
+
+  const clipFor = (event: MonitorEvent) =>
+    connectedDeviceId && event.deviceId === connectedDeviceId ? findClipForEvent(event, clips) : undefined;
+
+  const viewingUrl = useMemo(() => {
+    if (viewing?.kind === 'clip' && viewing.blob) return URL.createObjectURL(viewing.blob);
+    if (viewing?.kind === 'snapshot' && viewing.snapshot) return URL.createObjectURL(viewing.snapshot.blob);
+    return null;
+  }, [viewing]);
+  useEffect(() => () => {
+    if (viewingUrl) URL.revokeObjectURL(viewingUrl);
+  }, [viewingUrl]);
+
+  const openEvent = async (event: MonitorEvent) => {
+    setError(null);
+    if (event.snapshotId) {
+      setViewing({ kind: 'snapshot', event });
+      try {
+        const snapshot = await getSnapshot(event.snapshotId);
+        if (!snapshot) throw new Error('This snapshot has been deleted from the gallery');
+        setViewing({ kind: 'snapshot', event, snapshot });
+      } catch (err) {
+        console.error('Could not open snapshot:', err);
+        setError(err.message);
+        setViewing(null);
+      }
+      return;
+    }
+
+    const clip = clipFor(event);
+    if (!clip || !onFetchClip) return;
+    setViewing({ kind: 'clip', event, clip, progress: 0 });
+    try {
+      const blob = await onFetchClip(clip, progress =>
+        setViewing(current => current?.kind === 'clip' && current.event === event ? { ...current, progress } : current)
+      );
+      setViewing(current => current?.kind === 'clip' && current.event === event ? { ...current, blob } : current);
+    } catch (err) {
+      console.error('Could not fetch clip:', err);
+      setError(err.message);
+      setViewing(null);
+    }
+  };
+
+  const shareViewing = async () => {
+    try {
+      if (viewing?.kind === 'clip' && viewing.blob) {
+        await shareFile(viewing.blob, clipFileName(viewing.clip), `${viewing.event.deviceName ?? 'Baby monitor'} clip`);
+      } else if (viewing?.kind === 'snapshot' && viewing.snapshot) {
+        await shareSnapshot(viewing.snapshot);
+      }
+    } catch (err) {
+      console.error('Could not share:', err);
+      setError(err.message);
+    }
+  };
+
+  const clearHistory = () => {
+    clearEvents();
+    setEvents([]);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Event Timeline</DialogTitle>
+          <DialogDescription>
+            Noise, motion, connection and other events from your baby monitors, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {viewing ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {EVENT_TYPE_LABELS[viewing.event.type]} · {format(viewing.event.at, 'PPpp')}
+            </p>
+            {viewingUrl === null ? (
+              <div className="py-6 space-y-3">
+                <Loader2 className="w-6 h-6 mx-auto animate-spin text-muted-foreground" />
+                {viewing.kind === 'clip' && <Progress value={viewing.progress * 100} className="h-1" />}
+              </div>
+            ) : viewing.kind === 'clip' ? (
+              <video src={viewingUrl} controls autoPlay playsInline className="w-full rounded-lg bg-black" />
+            ) : (
+              <img src={viewingUrl} alt="" className="w-full rounded-lg" />
+            )}
+            <DialogFooter className="gap-2">
+              <Button variant="ghost" onClick={() => setViewing(null)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button onClick={shareViewing} disabled={viewingUrl === null}>
+                <Share2 className="w-4 h-4 mr-2" />
+                Share
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as MonitorEventType | 'all')}>
+                <SelectTrigger aria-label="Event type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All events</SelectItem>
+                  {(Object.keys(EVENT_TYPE_LABELS) as MonitorEventType[]).map(type => (
+                    <SelectItem key={type} value={type}>{EVENT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={deviceFilter} onValueChange={setDeviceFilter}>
+                <SelectTrigger aria-label="Baby monitor">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All monitors</SelectItem>
+                  {devices.map(([id, name]) => (
+                    <SelectItem key={id} value={id}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {shown.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No events to show.</p>
+            ) : (
+              <div className="max-h-[55vh] overflow-y-auto">
+                {shown.map((event, index) => {
+                  const Icon = EVENT_ICONS[event.type];
+                  const clip = clipFor(event);
+                  const canOpen = event.snapshotId !== undefined || (clip !== undefined && onFetchClip !== undefined);
+                  const day = format(event.at, 'EEEE, MMM d');
+                  return (
+                    <div key={event.id}>
+                      {(index === 0 || format(shown[index - 1].at, 'EEEE, MMM d') !== day) && (
+                        <p className="text-xs font-medium text-muted-foreground pt-3 pb-1">{day}</p>
+                      )}
+                      <button
+                        onClick={() => openEvent(event)}
+                        disabled={!canOpen}
+                        className="w-full flex items-center gap-3 p-2 rounded-lg text-left enabled:hover:bg-muted disabled:cursor-default"
+                      >
+                        <span className="text-xs font-mono text-muted-foreground w-16 shrink-0">
+                          {format(event.at, 'HH:mm:ss')}
+                        </span>
+                        <Icon className={`w-4 h-4 shrink-0 ${
+                          event.type === 'signal-lost' || event.type === 'battery-low' ? 'text-destructive' : 'text-muted-foreground'
+                        }`} />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm text-foreground">
+                            {EVENT_TYPE_LABELS[event.type]}
+                            {event.durationMs !== undefined && ` for ${Math.max(1, Math.round(event.durationMs / 1000))}s`}
+                          </p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {[event.deviceName, event.detail].filter(Boolean).join(' · ')}
+                          </p>
+                        </div>
+                        {event.snapshotId && <Image className="w-4 h-4 shrink-0 text-primary" />}
+                        {clip && onFetchClip && <Play className="w-4 h-4 shrink-0 text-primary" />}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {events.length > 0 && (
+              <DialogFooter>
+                <Button variant="ghost" size="sm" onClick={clearHistory}>
+                  Clear History
+                </Button>
+              </DialogFooter>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventTimelineDialog;
@@ -0,0 +1,275 @@
+import { useState, useEffect, useRef, type PointerEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Loader2, Trash2, Undo2 } from 'lucide-react';
+import { rectangleRegion, type MotionRegion, type RegionPoint } from '@/lib/motion-detector';
+import { MAX_MOTION_REGIONS } from '@/lib/signaling';
+
+// Drags smaller than this (in fractions of the frame) are treated as taps
+const MIN_RECTANGLE_SIZE = 0.02;
+// Tapping this close to the first point closes a polygon
+const CLOSE_POLYGON_DISTANCE = 0.04;
+
+const regionColor = (mode: MotionRegion['mode']) =>
+  mode === 'include' ? 'hsl(var(--success))' : 'hsl(var(--destructive))';
+
+const toPath = (points: RegionPoint[]) => points.map(point => `${point.x},${point.y}`).join(' ');
+
+interface MotionRegionEditorProps {
+  open: boolean;
+  // Live stream to draw on
+  stream: MediaStream | null;
+  regions: MotionRegion[];
+  onSave: (regions: MotionRegion[]) => Promise<void>;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MotionRegionEditor = ({ open, stream, regions, onSave, onOpenChange }: MotionRegionEditorProps) => {
+  const [draft, setDraft] = useState<MotionRegion[]>([]);
+  const [tool, setTool] = useState<'rectangle' | 'polygon'>('rectangle');
+  const [mode, setMode] = useState<MotionRegion['mode']>('include');
+  const [dragStart, setDragStart] = useState<RegionPoint | null>(null);
+  const [dragEnd, setDragEnd] = useState<RegionPoint | null>(null);
+  const [polygon, setPolygon] = useState<RegionPoint[]>([]);
+  const [aspectRatio, setAspectRatio] = useState(4 / 3);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(regions);
+      setPolygon([]);
+      setDragStart(null);
+      setError(null);
+    }
+  }, [open, regions]);
+
+  // The dialog mounts its content lazily, so attach the stream once it's there
+  useEffect(() => {
+    if (!open) return;
+    const timer = setTimeout(() => {
+      const video = videoRef.current;
+      if (!video || !stream) return;
+      video.srcObject = stream;
+      video.play().catch(err => console.log('Motion zone preview error:', err));
+    });
+    return () => clearTimeout(timer);
+  }, [open, stream]);
+
+  const isFull = draft.length >= MAX_MOTION_REGIONS;
+
+  const addRegion = (region: MotionRegion) => {
+    if (isFull) return;
+    setDraft(previous => [...previous, region]);
+  };
+
+  const toPoint = (event: PointerEvent<SVGSVGElement>): RegionPoint => {
+    const bounds = svgRef.current.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - bounds.top) / bounds.height))
+    };
+  };
+
+  const finishPolygon = () => {
+    if (polygon.length >= 3) {
+      addRegion({ points: polygon, mode });
+    }
+    setPolygon([]);
+  };
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    if (isFull) return;
+    const point = toPoint(event);
+
+    if (tool === 'rectangle') {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDragStart(point);
+      setDragEnd(point);
+      return;
+    }
+
+    const [first] = polygon;
+    if (polygon.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) < CLOSE_POLYGON_DISTANCE) {
+      finishPolygon();
+    } else {
+      setPolygon(previous => [...previous, point]);
+    }
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (dragStart) {
+      setDragEnd(toPoint(event));
+    }
+  };
+
+  const handlePointerUp = (event: PointerEvent<SVGSVGElement>) => {
+    if (!dragStart) return;
+    const end = toPoint(event);
+    if (Math.abs(end.x - dragStart.x) >= MIN_RECTANGLE_SIZE && Math.abs(end.y - dragStart.y) >= MIN_RECTANGLE_SIZE) {
+      addRegion(rectangleRegion(dragStart, end, mode));
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const changeTool = (value: string) => {
+    if (!value) return;
+    setPolygon([]);
+    setTool(value as typeof tool);
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Could not save motion zones:', err);
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Motion Zones</DialogTitle>
+          <DialogDescription>
+            Drag or tap on the picture. Motion only counts inside green zones (or anywhere, if there are none)
+            and never inside red ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2 justify-between">
+          <ToggleGroup type="single" size="sm" variant="outline" value={tool} onValueChange={changeTool}>
+            <ToggleGroupItem value="rectangle">Rectangle</ToggleGroupItem>
+            <ToggleGroupItem value="polygon">Polygon</ToggleGroupItem>
+          </ToggleGroup>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as MotionRegion['mode'])}
+          >
+            <ToggleGroupItem value="include">Watch</ToggleGroupItem>
+            <ToggleGroupItem value="exclude">Ignore</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="relative bg-muted rounded-lg overflow-hidden" style={{ aspectRatio }}>
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            onLoadedMetadata={(event) => {
+              const { videoWidth, videoHeight } = event.currentTarget;
+              if (videoWidth && videoHeight) setAspectRatio(videoWidth / videoHeight);
+            }}
+            className="absolute inset-0 w-full h-full object-fill"
+          />
+          <svg
+            ref={svgRef}
+            viewBox="0 0 1 1"
+            preserveAspectRatio="none"
+            className="absolute inset-0 w-full h-full touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {draft.map((region, index) => (
+              <polygon
+                key={index}
+                points={toPath(region.points)}
+                fill={regionColor(region.mode)}
+                fillOpacity={0.25}
+                stroke={regionColor(region.mode)}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {dragStart && dragEnd && (
+              <polygon
+                points={toPath(rectangleRegion(dragStart, dragEnd, mode).points)}
+                fill="none"
+                stroke={regionColor(mode)}
+                strokeWidth={2}
+                strokeDasharray="4 4"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+            {polygon.length > 0 && (
+              <polyline
+                points={toPath(polygon)}
+                fill="none"
+                stroke={regionColor(mode)}
+                strokeWidth={2}
+                strokeDasharray="4 4"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+            {polygon.map((point, index) => (
+              <circle key={index} cx={point.x} cy={point.y} r={0.012} fill={regionColor(mode)} />
+            ))}
+          </svg>
+        </div>
+
+        {polygon.length > 0 && (
+          <div className="flex gap-2 justify-center">
+            <Button size="sm" variant="outline" onClick={() => setPolygon(previous => previous.slice(0, -1))}>
+              <Undo2 className="w-4 h-4 mr-2" />
+              Undo Point
+            </Button>
+            <Button size="sm" onClick={finishPolygon} disabled={polygon.length < 3}>
+              Finish Shape
+            </Button>
+          </div>
+        )}
+
+        {draft.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {draft.map((region, index) => (
+              <Button
+                key={index}
+                size="sm"
+                variant="secondary"
+                onClick={() => setDraft(previous => previous.filter((_, i) => i !== index))}
+              >
+                <span
+                  className="w-2 h-2 rounded-full mr-2"
+                  style={{ backgroundColor: regionColor(region.mode) }}
+                />
+                Zone {index + 1}
+                <Trash2 className="w-3 h-3 ml-2" />
+              </Button>
+            ))}
+          </div>
+        )}
+        {isFull && (
+          <p className="text-sm text-muted-foreground">You can draw up to {MAX_MOTION_REGIONS} zones.</p>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={() => setDraft([])} disabled={draft.length === 0 || isSaving}>
+            Clear All
+          </Button>
+          <Button onClick={save} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Zones
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MotionRegionEditor;
@@ -0,0 +1,48 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import { createNightVisionRenderer, type NightVisionSettings } from '@/lib/night-vision';
+
+interface NightVisionCanvasProps {
+  // The (hidden) player to read frames from
+  videoRef: RefObject<HTMLVideoElement>;
+  settings: NightVisionSettings;
+  className?: string;
+  // Called when neither WebGL nor a 2D canvas works, so the plain video can be shown
+  onError: (error: Error) => void;
+}
+
+// Redraws every animation frame; mounted only while night vision is on
+const NightVisionCanvas = ({ videoRef, settings, className, onError }: NightVisionCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    let renderer: ReturnType<typeof createNightVisionRenderer>;
+    try {
+      renderer = createNightVisionRenderer(canvasRef.current);
+    } catch (error) {
+      console.error('Night vision not available:', error);
+      onErrorRef.current(error);
+      return;
+    }
+
+    let frame = requestAnimationFrame(function draw() {
+      const video = videoRef.current;
+      if (video) {
+        renderer.render(video, settingsRef.current);
+      }
+      frame = requestAnimationFrame(draw);
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      renderer.destroy();
+    };
+  }, [videoRef]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
+
+export default NightVisionCanvas;
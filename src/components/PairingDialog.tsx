@@ -0,0 +1,168 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Loader2, QrCode } from 'lucide-react';
+import { parsePairingCode, PAIRING_PIN_LENGTH, type PairingCode } from '@/lib/signaling';
+
+// The Shape Detection API isn't in the DOM typings yet
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+
+const SCAN_INTERVAL_MS = 300;
+
+interface PairingDialogProps {
+  open: boolean;
+  // Name of the monitor being paired, or undefined when pairing by QR code only
+  deviceName?: string;
+  onPin: (pin: string) => Promise<void>;
+  onCode: (code: PairingCode) => Promise<void>;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PairingDialog = ({ open, deviceName, onPin, onCode, onOpenChange }: PairingDialogProps) => {
+  const [pin, setPin] = useState('');
+  const [isScanning, setIsScanning] = useState(false);
+  const [isPairing, setIsPairing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canScan = getBarcodeDetector() !== null;
+  // The scanner keeps running across re-renders, so it reads the latest handler
+  const onCodeRef = useRef(onCode);
+  onCodeRef.current = onCode;
+
+  useEffect(() => {
+    if (open) {
+      setPin('');
+      setError(null);
+      setIsScanning(!deviceName && canScan);
+    } else {
+      setIsScanning(false);
+    }
+  }, [open, deviceName, canScan]);
+
+  const runPairing = async (pairing: Promise<void>) => {
+    setIsPairing(true);
+    setError(null);
+    try {
+      await pairing;
+    } catch (err) {
+      console.error('Pairing failed:', err);
+      setError(err.message);
+      setPin('');
+    } finally {
+      setIsPairing(false);
+    }
+  };
+
+  const submitPin = (value: string) => {
+    setPin(value);
+    if (value.length === PAIRING_PIN_LENGTH && !isPairing) {
+      runPairing(onPin(value));
+    }
+  };
+
+  // Scan the camera for a pairing QR code while scanning is on
+  useEffect(() => {
+    if (!isScanning) return;
+
+    const BarcodeDetector = getBarcodeDetector();
+    const detector = new BarcodeDetector({ formats: ['qr_code'] });
+    let stream: MediaStream | null = null;
+    let interval: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(cameraStream => {
+        stream = cameraStream;
+        if (cancelled || !videoRef.current) {
+          cameraStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = cameraStream;
+        videoRef.current.play().catch(err => console.log('Scanner preview error:', err));
+
+        interval = setInterval(async () => {
+          if (!videoRef.current) return;
+          try {
+            const [barcode] = await detector.detect(videoRef.current);
+            if (!barcode || cancelled) return;
+            const code = parsePairingCode(barcode.rawValue);
+            cancelled = true;
+            setIsScanning(false);
+            runPairing(onCodeRef.current(code));
+          } catch (err) {
+            // Not one of our QR codes; keep looking
+            console.log('Ignoring QR code:', err.message);
+          }
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch(err => {
+        console.error('Could not open camera for scanning:', err);
+        setError('Could not open the camera. Enter the PIN instead.');
+        setIsScanning(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isScanning]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Pair with {deviceName ?? 'a baby monitor'}</DialogTitle>
+          <DialogDescription>
+            On the baby monitor, tap "Pair a Parent", then scan the QR code or enter the PIN shown.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isScanning ? (
+          <div className="relative bg-muted rounded-lg overflow-hidden aspect-square">
+            <video ref={videoRef} autoPlay playsInline muted className="absolute inset-0 w-full h-full object-cover" />
+          </div>
+        ) : deviceName ? (
+          <div className="flex justify-center">
+            <InputOTP maxLength={PAIRING_PIN_LENGTH} value={pin} onChange={submitPin} disabled={isPairing}>
+              <InputOTPGroup>
+                {Array.from({ length: PAIRING_PIN_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        ) : null}
+
+        {isPairing && (
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Pairing...
+          </div>
+        )}
+        {error && <p className="text-sm text-destructive text-center">{error}</p>}
+        {!canScan && !deviceName && (
+          <p className="text-sm text-muted-foreground text-center">
+            QR scanning isn't supported on this device. Pick the monitor from the list to enter its PIN.
+          </p>
+        )}
+
+        {canScan && !isPairing && (deviceName || !isScanning) && (
+          <Button variant="secondary" onClick={() => setIsScanning(!isScanning)}>
+            <QrCode className="w-4 h-4 mr-2" />
+            {isScanning ? 'Enter PIN instead' : 'Scan QR code'}
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PairingDialog;
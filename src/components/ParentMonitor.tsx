@@ -1,29 +1,123 @@
 import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Camera, ArrowLeft, Wifi, WifiOff, Loader2, Volume2, VolumeX } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Camera, ArrowLeft, Wifi, WifiOff, Loader2, Volume2, VolumeX, QrCode, Pencil, Trash2, Check, BellRing, Ear, Moon, Activity, Scan, Mic, Music, MicOff, Video, VideoOff, Battery, BatteryCharging, BatteryLow, SwitchCamera, Eye, Aperture, Images, Clapperboard, History, BedDouble } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import { Haptics, ImpactStyle } from '@capacitor/haptics';
-import { Capacitor } from '@capacitor/core';
 import { Network } from '@capacitor/network';
-import { ensureWebRTCGlobals, observeVideo } from '@/lib/webrtc';
-
-
-
+import { ensureWebRTCGlobals, getInboundBytes, observeVideo, reconnectDelay, waitForConnection } from '@/lib/webrtc';
+import { getEvents, logEvent, type MonitorEvent, type MonitorEventType } from '@/lib/event-log';
+import { buildSleepSession, saveSleepSession, MIN_SESSION_MS } from '@/lib/sleep-sessions';
+import { base64ToBlob, captureFrame, createChunkAssembler, saveSnapshot } from '@/lib/snapshots';
+import { clipFileName, createClipReceiver, type ClipInfo } from '@/lib/clips';
+import { shareFile } from '@/lib/share';
+import { readConnectionStats, signalLevel, type ConnectionStats, type StatsCounters } from '@/lib/connection-stats';
+import { getSignalTimeout, setSignalTimeout, startAlarm, SIGNAL_TIMEOUT_OPTIONS } from '@/lib/signal-alarm';
+import { getSoundActivation, saveSoundActivation, type SoundActivationSettings } from '@/lib/sound-activation';
+import { getNightVision, saveNightVision, type NightVisionSettings, type NightVisionTint } from '@/lib/night-vision';
+import {
+  getQualityMode,
+  saveQualityMode,
+  QUALITY_LABELS,
+  QUALITY_MODES,
+  type QualityMode,
+  type QualityProfile
+} from '@/lib/video-quality';
+import PairingDialog from '@/components/PairingDialog';
+import AudioLevelMeter from '@/components/AudioLevelMeter';
+import MotionRegionEditor from '@/components/MotionRegionEditor';
+import SoothingControls from '@/components/SoothingControls';
+import ConnectionStatsPanel from '@/components/ConnectionStatsPanel';
+import SignalBars from '@/components/SignalBars';
+import NightVisionCanvas from '@/components/NightVisionCanvas';
+import ClipListDialog from '@/components/ClipListDialog';
+import EventTimelineDialog from '@/components/EventTimelineDialog';
+import type { SoothingCommand, SoothingState } from '@/lib/soothing-player';
+import type { MotionRegion } from '@/lib/motion-detector';
+import {
+  browseMonitors,
+  clipListResultSchema,
+  clipTransferResultSchema,
+  connectSignaling,
+  createCommandSender,
+  createDiscoveryMessage,
+  deriveSessionKey,
+  getParentId,
+  openPeerChannel,
+  parseDiscoveryMessage,
+  parsePeerMessage,
+  parseWithSchema,
+  sendPeerMessage,
+  signOffer,
+  snapshotResultSchema,
+  startPairing,
+  storedMonitorSchema,
+  DISCOVERY_CHANNEL_NAME,
+  SIGNALING_PROTOCOL_VERSION,
+  SignalingRejectedError,
+  type DiscoveredService,
+  type DiscoveryMessage,
+  type PairedDevice,
+  type PairingHandshake,
+  type PairingCode,
+  type PeerCommand,
+  type PeerMessage,
+  type PeerTelemetry,
+  type SignalingClient
+} from '@/lib/signaling';
+import {
+  findSavedMonitor,
+  forgetSavedMonitor,
+  getSavedMonitors,
+  markMonitorConnected,
+  renameSavedMonitor,
+  saveMonitor,
+  saveMonitorRegions,
+  type SavedMonitor
+} from '@/lib/saved-monitors';
+
+
+
+
+const CONNECT_TIMEOUT_MS = 15000;
+// Keep below PARENT_RECONNECT_GRACE_MS in BabyMonitor, which holds the connection for the restart
+const ICE_RESTART_TIMEOUT_MS = 10000;
+// How long the motion indicator stays lit after an event
+const MOTION_INDICATOR_MS = 3000;
+const STATS_INTERVAL_MS = 1000;
+// Battery level the baby monitor is flagged at, unless it is charging
+const LOW_BATTERY_LEVEL = 0.2;
+const NO_MOTION_REGIONS: MotionRegion[] = [];
 
 interface BabyMonitorDevice {
   id: string;
+  // The baby monitor's own id, when discovery told us
+  deviceId?: string;
   name: string;
   platform?: string;
   type: string;
   status: 'active' | 'inactive';
   timestamp: number;
   lastSeen: number;
-  connectionMethod?: 'websocket' | 'broadcast' | 'manual' | 'stored' | 'bonjour';
+  connectionMethod?: 'websocket' | 'broadcast' | 'manual' | 'stored' | 'bonjour' | 'qr' | 'saved';
   networkAddress?: string;
   port?: number;
-  txtRecord?: any;
+  txtRecord?: DiscoveredService['txt'];
+}
+
+interface SignalAlarm {
+  // Connected device id, or the saved monitor id when only tracked by discovery
+  key: string;
+  deviceName: string;
+  reason: 'media' | 'heartbeat';
+  since: number;
 }
 
 interface ParentMonitorProps {
@@ -39,45 +133,77 @@ const ParentMonitor = ({ onBack }: ParentMonitorProps) => {
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
   const remoteStreamRef = useRef<MediaStream | null>(null);
   const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
-  const bonjourBrowserRef = useRef<any>(null);
-  const bonjourInstanceRef = useRef<any>(null);
+  const peerChannelRef = useRef<RTCDataChannel | null>(null);
+  // Level (dBFS) of the noise the baby monitor is reporting, or null when quiet
+  const [noiseLevel, setNoiseLevel] = useState<number | null>(null);
+  const [soundActivation, setSoundActivation] = useState(() => getSoundActivation());
+  // Peer messages arrive through a handler bound when the session started
+  const soundActivationRef = useRef(soundActivation);
+  // When the baby monitor last reported sound above the threshold, or null while quiet
+  const [soundHeardAt, setSoundHeardAt] = useState<number | null>(null);
+  // When the baby monitor last reported motion, cleared a few seconds later
+  const [motionAt, setMotionAt] = useState<number | null>(null);
+  const [isZoneEditorOpen, setIsZoneEditorOpen] = useState(false);
+  // Push-to-talk: the sender of the pre-negotiated audio transceiver and our microphone
+  const talkSenderRef = useRef<RTCRtpSender | null>(null);
+  const micTrackRef = useRef<MediaStreamTrack | null>(null);
+  const [isTalking, setIsTalking] = useState(false);
+  // Whether the talk button is held; it can be released before the microphone opens
+  const talkPressedRef = useRef(false);
+  // The baby monitor's soothing sound player, once it has reported in
+  const [soothingState, setSoothingState] = useState<SoothingState | null>(null);
+  const commandSenderRef = useRef(createCommandSender(() => peerChannelRef.current));
+  // Latest status report from the baby monitor
+  const [telemetry, setTelemetry] = useState<PeerTelemetry | null>(null);
+  const [pendingCommand, setPendingCommand] = useState<PeerCommand['name'] | null>(null);
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [qualityMode, setQualityMode] = useState<QualityMode>(() => getQualityMode());
+  // The profile the baby monitor is sending us right now
+  const [activeQuality, setActiveQuality] = useState<QualityProfile | null>(null);
+  const [connectionStats, setConnectionStats] = useState<ConnectionStats | null>(null);
+  const [nightVision, setNightVision] = useState(() => getNightVision());
+  const [nightVisionError, setNightVisionError] = useState<string | null>(null);
+  const chunkAssemblerRef = useRef(createChunkAssembler());
+  const [pendingSnapshot, setPendingSnapshot] = useState<'parent' | 'baby' | null>(null);
+  const [snapshotNotice, setSnapshotNotice] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const clipReceiverRef = useRef(createClipReceiver());
+  const [isClipListOpen, setIsClipListOpen] = useState(false);
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  // So a low battery is logged once, not with every telemetry report
+  const batteryLowRef = useRef(false);
+  // When the current talk session started, for the event log
+  const talkStartedAtRef = useRef<number | null>(null);
+  // The monitoring session a sleep summary is saved for; it spans reconnects
+  const sleepSessionRef = useRef<{ deviceId?: string; deviceName?: string; startedAt: number } | null>(null);
+  const [talkError, setTalkError] = useState<string | null>(null);
+  const bonjourBrowserRef = useRef<{ stop: () => void } | null>(null);
+  const signalingRef = useRef<SignalingClient | null>(null);
+  const [pairingDevice, setPairingDevice] = useState<BabyMonitorDevice | null>(null);
+  const [isPairingOpen, setIsPairingOpen] = useState(false);
+  const [savedMonitors, setSavedMonitors] = useState<SavedMonitor[]>(() => getSavedMonitors());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [reconnectAttempt, setReconnectAttempt] = useState<number | null>(null);
+  const activeDeviceRef = useRef<BabyMonitorDevice | null>(null);
+  const reconnectRef = useRef<{ cancelled: boolean } | null>(null);
+  const [signalTimeout, setSignalTimeoutState] = useState(() => getSignalTimeout());
+  const [alarm, setAlarm] = useState<SignalAlarm | null>(null);
+  const alarmRef = useRef<SignalAlarm | null>(null);
+  const stopAlarmRef = useRef<(() => void) | null>(null);
+  // Alarms the user acknowledged stay quiet until that signal comes back
+  const acknowledgedRef = useRef<Set<string>>(new Set());
+  const lastMediaRef = useRef<{ peerConnection: RTCPeerConnection | null; bytes: number; at: number }>({
+    peerConnection: null,
+    bytes: 0,
+    at: 0
+  });
+  // Saved monitors seen by discovery, with the last time they were heard from
+  const watchedRef = useRef<Map<string, { name: string; lastSeen: number }>>(new Map());
 
   const [manualIp, setManualIp] = useState('');
   const [manualPort, setManualPort] = useState('');
 
- // Access the Capacitor HTTP plugin if available
-  interface HttpLike {
-    post: (options: { url: string; data?: unknown; headers?: Record<string, string> }) => Promise<{ data: unknown; status: number }>;
-    get: (options: { url: string }) => Promise<{ data: unknown; status: number }>;
-  }
-
-  const getHttp = (): HttpLike | null => {
-    const cap = Capacitor as unknown as { Plugins?: { Http?: HttpLike } };
-    return cap.Plugins?.Http ?? null;
-  };
-
-  const httpPost = async (url: string, data: unknown) => {
-    const plugin = getHttp();
-    if (plugin) {
-      return plugin.post({ url, data });
-    }
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data)
-    });
-    return { data: await res.json(), status: res.status };
-  };
-
-  const httpGet = async (url: string) => {
-    const plugin = getHttp();
-    if (plugin) {
-      return plugin.get({ url });
-    }
-    const res = await fetch(url);
-    return { data: await res.json(), status: res.status };
-  };
-
   useEffect(() => {
     ensureWebRTCGlobals();
   }, []);
@@ -103,23 +229,36 @@ const ParentMonitor = ({ onBack }: ParentMonitorProps) => {
     console.log('Stopping network device scanning...');
     setIsScanning(false);
     setDiscoveredDevices([]);
+    // Nothing is listed any more, so silence from those monitors means nothing
+    unwatchMonitors();
   };
 
   const startNetworkDiscovery = async () => {
     try {
+      // Discovery keeps running after a scan so heartbeats stay current
+      stopNetworkDiscovery();
       console.log('Starting network device discovery...');
       
       // Listen for baby monitor broadcasts
-      const networkChannel = new BroadcastChannel('zoya-network-discovery');
+      const networkChannel = new BroadcastChannel(DISCOVERY_CHANNEL_NAME);
       
       const handleNetworkMessage = (event: MessageEvent) => {
         console.log('Received network message:', event.data);
+
+        let message: DiscoveryMessage;
+        try {
+          message = parseDiscoveryMessage(event.data);
+        } catch (error) {
+          console.warn('Ignoring discovery message:', error.message);
+          return;
+        }
         
-        if (event.data.type === 'baby-monitor-active' || event.data.type === 'baby-monitor-heartbeat') {
-          const deviceData = event.data.device;
+        if (message.type === 'baby-monitor-active' || message.type === 'baby-monitor-heartbeat') {
+          const deviceData = message.device;
           
           const device: BabyMonitorDevice = {
             id: `network-${deviceData.id}`,
+            deviceId: deviceData.id,
             name: deviceData.name || `Baby Monitor (${deviceData.host})`,
             type: 'baby-monitor',
             status: 'active',
@@ -143,10 +282,14 @@ const ParentMonitor = ({ onBack }: ParentMonitorProps) => {
               return [...prev, device];
             }
           });
-        } else if (event.data.type === 'baby-monitor-network-disconnected') {
-          // Remove disconnected devices
+        } else if (message.type === 'baby-monitor-network-disconnected') {
+          // Remove the device that went away, or every broadcast device if it didn't say
+          const { deviceId } = message;
+          // A monitor switched off on purpose isn't a lost signal
+          unwatchMonitors(deviceId);
           setDiscoveredDevices(prev => 
-            prev.filter(device => device.connectionMethod !== 'broadcast')
+            prev.filter(device => device.connectionMethod !== 'broadcast' ||
+              (deviceId !== undefined && device.id !== `network-${deviceId}`))
           );
         }
       };
@@ -154,15 +297,49 @@ const ParentMonitor = ({ onBack }: ParentMonitorProps) => {
       networkChannel.addEventListener('message', handleNetworkMessage);
       
       // Request active devices to announce themselves
-      networkChannel.postMessage({
+      networkChannel.postMessage(createDiscoveryMessage({
         type: 'parent-requesting-devices'
-      });
+      }));
       
+      // Browse for baby monitors on other devices over mDNS
+      const stopBrowsing = browseMonitors(
+        (service) => {
+          // Devices on another protocol version are listed but can't be used
+          const compatible = service.txt.v === String(SIGNALING_PROTOCOL_VERSION);
+          const device: BabyMonitorDevice = {
+            id: `bonjour-${service.txt.id}`,
+            deviceId: service.txt.id,
+            name: compatible ? service.txt.name : `${service.txt.name} (update required)`,
+            type: 'baby-monitor',
+            status: compatible ? 'active' : 'inactive',
+            timestamp: Date.now(),
+            lastSeen: Date.now(),
+            connectionMethod: 'bonjour',
+            networkAddress: service.host,
+            port: service.port,
+            txtRecord: service.txt
+          };
+
+          setDiscoveredDevices(prev => {
+            if (prev.some(d => d.id === device.id)) {
+              return prev.map(d => (d.id === device.id ? device : d));
+            }
+            console.log('Adding mDNS device:', device);
+            return [...prev, device];
+          });
+        },
+        (service) => {
+          unwatchMonitors(service.txt.id);
+          setDiscoveredDevices(prev => prev.filter(device => device.id !== `bonjour-${service.txt.id}`));
+        }
+      );
+
       // Store reference for cleanup  
       bonjourBrowserRef.current = { 
         stop: () => {
           networkChannel.removeEventListener('message', handleNetworkMessage);
           networkChannel.close();
+          stopBrowsing();
         }
       };
       
@@ -201,11 +378,12 @@ const ParentMonitor = ({ onBack }: ParentMonitorProps) => {
       const storedDevices = localStorage.getItem('babyMonitorActive');
       if (storedDevices) {
         try {
-          const deviceInfo = JSON.parse(storedDevices);
+          const deviceInfo = parseWithSchema(storedMonitorSchema, storedDevices, 'stored baby monitor');
           console.log('Found stored device info:', deviceInfo);
           
           const device: BabyMonitorDevice = {
             id: `stored-${deviceInfo.address}-${deviceInfo.port}`,
+            deviceId: deviceInfo.device.id,
             name: `Stored Baby Monitor (${deviceInfo.address})`,
             type: 'baby-monitor',
             status: 'active',
@@ -227,7 +405,6 @@ const ParentMonitor = ({ onBack }: ParentMonitorProps) => {
       setTimeout(() => {
         console.log('Network scan completed');
         setIsScanning(false);
-        stopNetworkDiscovery();
       }, 15000);
 
     } catch (error) {
@@ -236,181 +413,518 @@ const ParentMonitor = ({ onBack }: ParentMonitorProps) => {
     }
   };
 
-  const connectToDevice = async (device: BabyMonitorDevice) => {
-    if (connectedDevice) {
-      console.log('Already connected to a device');
-      return;
+  const openPairing = (device: BabyMonitorDevice | null) => {
+    setPairingDevice(device);
+    setIsPairingOpen(true);
+  };
+
+  // Exchange keys with the baby monitor, vouched for by the PIN it shows, and keep the shared key
+  const pairWithDevice = async (device: BabyMonitorDevice, pin: string) => {
+    const parentId = getParentId();
+    const pairing = await startPairing(pin, parentId);
+    const signaling = await connectSignaling(`http://${device.networkAddress}:${device.port}`, parentId, {
+      onIceCandidate: () => {},
+      onBye: () => {}
+    });
+
+    let paired: PairedDevice & PairingHandshake;
+    try {
+      paired = await signaling.pair(pairing.request);
+    } finally {
+      // The session opens its own channel under the same parent id
+      signaling.close();
     }
 
-    setIsConnecting(true);
-    ensureWebRTCGlobals();
-    console.log('Connecting to network baby monitor:', device);
+    const key = await pairing.finish(paired);
+    saveMonitor({
+      deviceId: paired.deviceId,
+      name: paired.name,
+      address: device.networkAddress,
+      port: device.port,
+      key,
+      pairedAt: Date.now()
+    });
+    setSavedMonitors(getSavedMonitors());
+    console.log('Paired with baby monitor:', paired.name);
 
     try {
-      // Create WebRTC peer connection
-      const peerConnection = new RTCPeerConnection({
-        iceServers: [
-          { urls: 'stun:stun.l.google.com:19302' },
-          { urls: 'stun:stun1.l.google.com:19302' }
-        ]
-      });
+      await Haptics.impact({ style: ImpactStyle.Medium });
+    } catch (error) {
+      console.log('Haptics not available:', error);
+    }
 
-      peerConnectionRef.current = peerConnection;
-
-      // Handle incoming stream
-      peerConnection.ontrack = (event) => {
-        console.log('Received remote stream:', event.streams[0]);
-        if (remoteVideoRef.current && event.streams[0]) {
-         // Prepare element for iOSRTC before attaching stream
-          remoteVideoRef.current.setAttribute('playsinline', 'true');
-          observeVideo(remoteVideoRef.current);
-          remoteVideoRef.current.srcObject = event.streams[0];
-          remoteStreamRef.current = event.streams[0];
-          try {
-            remoteVideoRef.current.play();
-          } catch (err) {
-            console.log('Remote video playback error:', err);
-          }
-        }
-      };
+    setIsPairingOpen(false);
+    connectToDevice({ ...device, deviceId: paired.deviceId });
+  };
 
-      // Create offer
-      const offer = await peerConnection.createOffer({
-        offerToReceiveAudio: true,
-        offerToReceiveVideo: true
-      });
+  const pairWithCode = (code: PairingCode) =>
+    pairWithDevice({
+      id: `qr-${code.id}`,
+      deviceId: code.id,
+      name: code.name,
+      type: 'baby-monitor',
+      status: 'active',
+      timestamp: Date.now(),
+      lastSeen: Date.now(),
+      connectionMethod: 'qr',
+      networkAddress: code.host,
+      port: code.port
+    }, code.pin);
+
+  // Show the current remote stream; the video element only exists once connected
+  const attachRemoteStream = () => {
+    const video = remoteVideoRef.current;
+    const stream = remoteStreamRef.current;
+    if (!video || !stream || video.srcObject === stream) return;
+
+    // Prepare element for iOSRTC before attaching stream
+    video.setAttribute('playsinline', 'true');
+    observeVideo(video);
+    video.srcObject = stream;
+    video.play().catch(err => {
+      console.log('Remote video playback error:', err);
+    });
+  };
 
-      await peerConnection.setLocalDescription(offer);
-      console.log('Created offer, sending to baby monitor...');
+  useEffect(() => {
+    attachRemoteStream();
+  }, [connectedDevice, reconnectAttempt]);
+
+  // Open a peer connection and signaling session to the baby monitor.
+  // Resolves once the answer is applied; state changes are handled from there.
+  const startSession = async (device: BabyMonitorDevice, pairing: SavedMonitor) => {
+    const peerConnection = new RTCPeerConnection({
+      iceServers: [
+        { urls: 'stun:stun.l.google.com:19302' },
+        { urls: 'stun:stun1.l.google.com:19302' }
+      ]
+    });
 
-      const parentId = `parent-${Date.now()}`;
-      const baseUrl = `http://${device.networkAddress}:${device.port}`;
+    peerConnectionRef.current = peerConnection;
 
-      console.log('Attempting to connect to baby monitor at:', baseUrl);
+    // Created before the offer so it is part of the negotiated session
+    const channel = openPeerChannel(peerConnection);
+    channel.onmessage = (event) => {
+      if (peerConnectionRef.current !== peerConnection) return;
+      try {
+        handlePeerMessage(parsePeerMessage(event.data));
+      } catch (error) {
+        console.error('Ignoring peer message:', error.message);
+      }
+    };
+    // The baby monitor starts every parent on automatic quality
+    channel.onopen = () => {
+      const mode = getQualityMode();
+      if (mode === 'auto') return;
+      commandSenderRef.current.send({ name: 'set-quality', mode })
+        .catch(error => console.error('Could not set video quality:', error));
+    };
+    peerChannelRef.current = channel;
+
+    // Sends nothing until push-to-talk swaps the microphone in, so talking
+    // never needs a renegotiation
+    talkSenderRef.current = peerConnection.addTransceiver('audio', { direction: 'sendrecv' }).sender;
+
+    // Handle incoming stream
+    peerConnection.ontrack = (event) => {
+      console.log('Received remote stream:', event.streams[0]);
+      if (event.streams[0]) {
+        remoteStreamRef.current = event.streams[0];
+        attachRemoteStream();
+      }
+    };
 
-      // Send WebRTC offer to baby monitor via HTTP
-      const sendOffer = async () => {
-        const url = `${baseUrl}/webrtc/offer`;
-        const payload = { parentId, offer };
-        
-        console.log('Sending offer to:', url, payload);
-        
-        try {
-          let response;
-          if (Capacitor.isNativePlatform()) {
-            response = await httpPost(url, payload);
-            console.log('Native HTTP response:', response);
-            return typeof response.data === 'string' ? JSON.parse(response.data) : response.data;
-          } else {
-            const res = await fetch(url, {
-              method: 'POST',
-              headers: { 
-                'Content-Type': 'application/json',
-                'Accept': 'application/json'
-              },
-              body: JSON.stringify(payload),
-              mode: 'cors'
-            });
-            
-            console.log('Fetch response status:', res.status, res.statusText);
-            
-            if (!res.ok) {
-              const errorText = await res.text();
-              console.error('HTTP error response:', errorText);
-              throw new Error(`HTTP ${res.status}: ${res.statusText} - ${errorText}`);
-            }
-            
-            const responseData = await res.json();
-            console.log('Fetch response data:', responseData);
-            return responseData;
-          }
-        } catch (error) {
-          console.error('Error in sendOffer:', error);
-          throw error;
+    const parentId = getParentId();
+    const baseUrl = `http://${device.networkAddress}:${device.port}`;
+
+    console.log('Attempting to connect to baby monitor at:', baseUrl);
+
+    // Open the signaling channel before creating the offer so no ICE
+    // candidates are lost while it connects
+    const signaling = await connectSignaling(baseUrl, parentId, {
+      authenticate: (offer) => signOffer(pairing.key, parentId, offer),
+      deriveSessionKey: (offer) => deriveSessionKey(pairing.key, parentId, offer),
+      onIceCandidate: (candidate) => {
+        console.log('Received ICE candidate from baby monitor');
+        peerConnection.addIceCandidate(candidate).catch(error => {
+          console.error('Failed to add ICE candidate:', error);
+        });
+      },
+      onBye: (reason) => {
+        console.log('Baby monitor ended the session:', reason);
+        handleConnectionLost();
+      }
+    });
+    signalingRef.current = signaling;
+    console.log('Signaling connected via', signaling.transport);
+
+    peerConnection.onicecandidate = (event) => {
+      if (event.candidate) {
+        console.log('Sending ICE candidate to baby monitor');
+        signaling.sendIceCandidate(event.candidate.toJSON());
+      }
+    };
+
+    // Create offer
+    const offer = await peerConnection.createOffer({
+      offerToReceiveAudio: true,
+      offerToReceiveVideo: true
+    });
+
+    await peerConnection.setLocalDescription(offer);
+    console.log('Created offer, sending to baby monitor...');
+
+    const answer = await signaling.sendOffer(offer);
+    console.log('Received answer from baby monitor');
+
+    await peerConnection.setRemoteDescription(answer);
+
+    // Later changes to the session (e.g. new tracks) are renegotiated
+    // over the same signaling channel
+    peerConnection.onnegotiationneeded = async () => {
+      try {
+        const renegotiationOffer = await peerConnection.createOffer();
+        await peerConnection.setLocalDescription(renegotiationOffer);
+        const renegotiationAnswer = await signaling.sendOffer(renegotiationOffer, true);
+        await peerConnection.setRemoteDescription(renegotiationAnswer);
+      } catch (error) {
+        console.error('Renegotiation failed:', error);
+      }
+    };
+
+    // Connection state monitoring
+    peerConnection.onconnectionstatechange = () => {
+      console.log('Peer connection state:', peerConnection.connectionState);
+      if (peerConnectionRef.current !== peerConnection) return;
+
+      if (peerConnection.connectionState === 'connected') {
+        console.log('Successfully connected to baby monitor!');
+        markMonitorConnected(pairing.deviceId, device.networkAddress, device.port);
+        setSavedMonitors(getSavedMonitors());
+        activeDeviceRef.current = device;
+        setConnectedDevice(device);
+        setIsConnecting(false);
+        logDeviceEvent('connected');
+        if (!sleepSessionRef.current) {
+          sleepSessionRef.current = { deviceId: device.deviceId ?? device.id, deviceName: device.name, startedAt: Date.now() };
         }
-      };
+      } else if (peerConnection.connectionState === 'disconnected' ||
+                 peerConnection.connectionState === 'failed') {
+        if (activeDeviceRef.current && !reconnectRef.current) {
+          logDeviceEvent('disconnected', { detail: 'Connection lost' });
+        }
+        handleConnectionLost();
+      }
+    };
 
-      const { answer } = await sendOffer();
-      console.log('Received answer from baby monitor');
+    return peerConnection;
+  };
 
-      await peerConnection.setRemoteDescription(answer);
+  // Logs an event for the baby monitor we're connected to
+  const logDeviceEvent = (type: MonitorEventType, details: Partial<Pick<MonitorEvent, 'detail' | 'durationMs' | 'snapshotId'>> = {}) => {
+    const device = activeDeviceRef.current;
+    logEvent({ type, deviceId: device ? device.deviceId ?? device.id : undefined, deviceName: device?.name, ...details });
+  };
 
-      // Set up ICE candidate exchange
-      peerConnection.onicecandidate = async (event) => {
-        if (event.candidate) {
-          console.log('Sending ICE candidate to baby monitor');
-          const url = `${baseUrl}/webrtc/ice-candidate`;
-          const data = { parentId, candidate: event.candidate };
+  const handlePeerMessage = async (message: PeerMessage) => {
+    switch (message.type) {
+      case 'noise':
+        if (message.state === 'start') {
+          console.log(`Baby monitor reports noise at ${message.level.toFixed(1)} dB`);
+          setNoiseLevel(message.level);
+          logDeviceEvent('noise', { detail: `${message.level.toFixed(1)} dB` });
           try {
-            if (Capacitor.isNativePlatform()) {
-              await httpPost(url, data);
-            } else {
-              await fetch(url, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(data)
-              });
-            }
+            await Haptics.impact({ style: ImpactStyle.Heavy });
           } catch (error) {
-            console.error('Failed to send ICE candidate:', error);
+            console.log('Haptics not available:', error);
           }
+        } else {
+          console.log(`Noise ended after ${Math.round((message.durationMs ?? 0) / 1000)}s`);
+          setNoiseLevel(null);
         }
-      };
+        break;
+
+      case 'motion':
+        console.log(`Baby monitor reports motion, score ${(message.score * 100).toFixed(1)}%`);
+        setMotionAt(Date.now());
+        logDeviceEvent('motion', { detail: `${(message.score * 100).toFixed(1)}% of the picture changed` });
+        break;
+
+      case 'soothe-state':
+        setSoothingState({
+          sound: message.sound,
+          volume: message.volume,
+          timerEndsAt: message.timerRemainingMs === null ? null : Date.now() + message.timerRemainingMs
+        });
+        break;
+
+      case 'ack':
+        commandSenderRef.current.handleAck(message);
+        break;
+
+      case 'clip-chunk':
+        clipReceiverRef.current.add(message.id, message.index, message.data);
+        break;
+
+      case 'snapshot-chunk':
+        chunkAssemblerRef.current.add(message.id, message.index, message.count, message.data);
+        break;
+
+      case 'quality':
+        setActiveQuality(message.profile);
+        break;
+
+      case 'telemetry': {
+        setTelemetry(message);
+        const batteryLow = message.batteryLevel !== undefined && message.batteryLevel < LOW_BATTERY_LEVEL && !message.charging;
+        if (batteryLow && !batteryLowRef.current) {
+          logDeviceEvent('battery-low', { detail: `${Math.round(message.batteryLevel * 100)}%` });
+        }
+        batteryLowRef.current = batteryLow;
+        break;
+      }
 
-      // Poll for ICE candidates from baby monitor
-      const pollForCandidates = async () => {
-        try {
-const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
-          let candidates: RTCIceCandidateInit[] = [];
-          if (Capacitor.isNativePlatform()) {
-            const res = await httpGet(url);
-            if (res.status === 200) {
-              const data = typeof res.data === 'string' ? JSON.parse(res.data) : res.data;
-              candidates = (data.candidates || []) as RTCIceCandidateInit[];
-            }
-          } else {
-            const response = await fetch(url);
-            if (response.ok) {
-              const data = await response.json();
-              candidates = (data.candidates || []) as RTCIceCandidateInit[];
-            }
-          }
-          for (const candidate of candidates) {
-            console.log('Received ICE candidate from baby monitor');
-            await peerConnection.addIceCandidate(candidate);
-          }
-        } catch (error) {
-          console.error('Failed to poll for ICE candidates:', error);
+      case 'talk':
+      case 'soothe':
+      case 'command':
+        console.log('Ignoring peer message meant for the baby monitor:', message.type);
+        break;
+
+      case 'sound-level':
+        if (soundActivationRef.current.enabled && message.level >= soundActivationRef.current.thresholdDb) {
+          setSoundHeardAt(Date.now());
         }
-      };
+        break;
+    }
+  };
 
-      // Start polling for ICE candidates
-      const candidateInterval = setInterval(pollForCandidates, 1000);
-
-      // Connection state monitoring
-      peerConnection.onconnectionstatechange = () => {
-        console.log('Peer connection state:', peerConnection.connectionState);
-        if (peerConnection.connectionState === 'connected') {
-          console.log('Successfully connected to baby monitor!');
-          setConnectedDevice(device);
-          setIsConnecting(false);
-          clearInterval(candidateInterval);
-        } else if (peerConnection.connectionState === 'disconnected' ||
-                   peerConnection.connectionState === 'failed') {
-          clearInterval(candidateInterval);
-          handleDisconnect();
+  const startTalking = async () => {
+    if (talkPressedRef.current || !talkSenderRef.current) return;
+    talkPressedRef.current = true;
+    setTalkError(null);
+
+    try {
+      await Haptics.impact({ style: ImpactStyle.Medium });
+    } catch (error) {
+      console.log('Haptics not available:', error);
+    }
+
+    try {
+      // Kept between presses so talking starts without a permission round trip
+      if (!micTrackRef.current || micTrackRef.current.readyState === 'ended') {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: true, noiseSuppression: true }
+        });
+        micTrackRef.current = stream.getAudioTracks()[0];
+      }
+      if (!talkPressedRef.current) return;
+      micTrackRef.current.enabled = true;
+      await talkSenderRef.current.replaceTrack(micTrackRef.current);
+      // Released while the track was being swapped in; stopTalking already undid it
+      if (!talkPressedRef.current) return;
+      sendPeerMessage(peerChannelRef.current, { type: 'talk', active: true });
+      setIsTalking(true);
+      talkStartedAtRef.current = Date.now();
+      console.log('Talking to baby monitor');
+    } catch (error) {
+      console.error('Could not start talking:', error);
+      talkPressedRef.current = false;
+      setTalkError(error.name === 'NotAllowedError'
+        ? 'Microphone access denied. Allow it in settings to talk to the baby.'
+        : 'Could not open the microphone.');
+    }
+  };
+
+  const stopTalking = () => {
+    if (!talkPressedRef.current) return;
+    talkPressedRef.current = false;
+    if (micTrackRef.current) {
+      micTrackRef.current.enabled = false;
+    }
+    talkSenderRef.current?.replaceTrack(null).catch(error => {
+      console.error('Could not detach microphone:', error);
+    });
+    sendPeerMessage(peerChannelRef.current, { type: 'talk', active: false });
+    setIsTalking(false);
+    console.log('Stopped talking');
+    if (talkStartedAtRef.current !== null) {
+      logDeviceEvent('talk', { durationMs: Date.now() - talkStartedAtRef.current });
+      talkStartedAtRef.current = null;
+    }
+  };
+
+  const releaseMicrophone = () => {
+    micTrackRef.current?.stop();
+    micTrackRef.current = null;
+    setIsTalking(false);
+  };
+
+  // Send a command over the control channel and wait for the baby monitor's ack
+  const runCommand = async (command: PeerCommand) => {
+    setPendingCommand(command.name);
+    setCommandError(null);
+    try {
+      await commandSenderRef.current.send(command);
+    } catch (error) {
+      console.error(`Command ${command.name} failed:`, error);
+      setCommandError(error.message);
+    } finally {
+      setPendingCommand(null);
+    }
+  };
+
+  // Saves the frame on screen, or asks the baby monitor for a full-resolution still
+  const takeSnapshot = async (source: 'parent' | 'baby') => {
+    try {
+      await Haptics.impact({ style: ImpactStyle.Light });
+    } catch (error) {
+      console.log('Haptics not available:', error);
+    }
+
+    setPendingSnapshot(source);
+    setSnapshotNotice(null);
+    try {
+      let still: { blob: Blob; width: number; height: number };
+      if (source === 'parent') {
+        still = await captureFrame(remoteVideoRef.current);
+      } else {
+        const { id, width, height } = await commandSenderRef.current.send({ name: 'request-snapshot' }, snapshotResultSchema);
+        const data = chunkAssemblerRef.current.take(id);
+        if (!data) {
+          throw new Error('Parts of the snapshot went missing');
         }
-      };
+        still = { blob: base64ToBlob(data, 'image/jpeg'), width, height };
+      }
+
+      const snapshot = await saveSnapshot({ ...still, takenAt: Date.now(), source, monitorName: connectedDevice?.name ?? 'Baby monitor' });
+      logDeviceEvent('snapshot', {
+        detail: source === 'baby' ? 'Full resolution from the baby device' : 'From the live view',
+        snapshotId: snapshot.id
+      });
+      setSnapshotNotice(`Saved a ${still.width}×${still.height} snapshot to the gallery`);
+    } catch (error) {
+      console.error('Snapshot failed:', error);
+      setSnapshotNotice(`Snapshot failed: ${error.message}`);
+    } finally {
+      setPendingSnapshot(null);
+    }
+  };
+
+  const listBabyClips = async () => {
+    const { clips } = await commandSenderRef.current.send({ name: 'list-clips' }, clipListResultSchema);
+    return clips;
+  };
+
+  // The ack announces the transfer; the clip follows in chunks
+  const fetchClip = async (clip: ClipInfo, onProgress: (fraction: number) => void) => {
+    const transfer = await commandSenderRef.current.send({ name: 'get-clip', id: clip.id }, clipTransferResultSchema);
+    const data = await clipReceiverRef.current.expect(transfer.id, transfer.count, onProgress);
+    return base64ToBlob(data, transfer.mimeType);
+  };
+
+  const downloadClip = async (clip: ClipInfo, onProgress: (fraction: number) => void) => {
+    const blob = await fetchClip(clip, onProgress);
+    await shareFile(blob, clipFileName(clip), `${connectedDevice?.name ?? 'Baby monitor'} clip`);
+  };
+
+  const changeQualityMode = (value: string) => {
+    const mode = value as QualityMode;
+    setQualityMode(mode);
+    saveQualityMode(mode);
+    runCommand({ name: 'set-quality', mode });
+  };
+
+  const sendSoothingCommand = (command: SoothingCommand) => {
+    if (!sendPeerMessage(peerChannelRef.current, { type: 'soothe', ...command })) {
+      console.log('Control channel not open, soothing command dropped');
+    }
+  };
+
+  // Store the zones with the paired monitor and send them to the baby device
+  const saveMotionZones = async (regions: MotionRegion[]) => {
+    const monitor = findSavedMonitor(connectedDevice?.deviceId, connectedDevice?.networkAddress, connectedDevice?.port);
+    if (!signalingRef.current || !monitor) {
+      throw new Error('Not connected to a paired baby monitor');
+    }
+    await signalingRef.current.sendMotionRegions(regions);
+    saveMonitorRegions(monitor.deviceId, regions);
+    setSavedMonitors(getSavedMonitors());
+  };
+
+  const updateNightVision = (changes: Partial<NightVisionSettings>) => {
+    const settings = { ...nightVision, ...changes };
+    setNightVision(settings);
+    saveNightVision(settings);
+    if (changes.enabled) {
+      setNightVisionError(null);
+    }
+  };
+
+  const updateSoundActivation = (changes: Partial<SoundActivationSettings>) => {
+    const settings = { ...soundActivationRef.current, ...changes };
+    soundActivationRef.current = settings;
+    setSoundActivation(settings);
+    saveSoundActivation(settings);
+    if (!settings.enabled) {
+      setSoundHeardAt(null);
+    }
+  };
+
+  useEffect(() => {
+    if (motionAt === null) return;
+    const timeout = setTimeout(() => setMotionAt(null), MOTION_INDICATOR_MS);
+    return () => clearTimeout(timeout);
+  }, [motionAt]);
+
+  // Sound-activated mode goes quiet again after the configured quiet time
+  useEffect(() => {
+    if (soundHeardAt === null) return;
+    const timeout = setTimeout(() => {
+      console.log('Quiet again, muting until the next sound');
+      setSoundHeardAt(null);
+    }, soundActivation.quietSeconds * 1000);
+    return () => clearTimeout(timeout);
+  }, [soundHeardAt, soundActivation.quietSeconds]);
+
+  const isAwaitingSound = soundActivation.enabled && soundHeardAt === null;
+  const isVideoAsleep = isAwaitingSound && soundActivation.wakeVideo;
+
+  // Set imperatively: React doesn't keep the `muted` property in sync.
+  // Muted while talking too, so we don't hear ourselves back from the baby's speaker.
+  useEffect(() => {
+    if (remoteVideoRef.current) {
+      remoteVideoRef.current.muted = isMuted || isAwaitingSound || isTalking;
+    }
+  }, [isMuted, isAwaitingSound, isTalking, connectedDevice]);
+
+  const connectToDevice = async (device: BabyMonitorDevice) => {
+    if (connectedDevice) {
+      console.log('Already connected to a device');
+      return;
+    }
+
+    // The baby monitor only answers parents it has paired with
+    const pairing = findSavedMonitor(device.deviceId, device.networkAddress, device.port);
+    if (!pairing) {
+      console.log('Not paired with this baby monitor yet:', device.name);
+      openPairing(device);
+      return;
+    }
+
+    setIsConnecting(true);
+    ensureWebRTCGlobals();
+    console.log('Connecting to network baby monitor:', device);
+
+    try {
+      const peerConnection = await startSession(device, pairing);
 
       // Connection timeout
       setTimeout(() => {
-        if (!connectedDevice) {
+        if (peerConnection.connectionState !== 'connected' && peerConnectionRef.current === peerConnection) {
           console.log('Connection timeout - failed to connect to baby monitor');
-          setIsConnecting(false);
-          clearInterval(candidateInterval);
-          peerConnection.close();
+          handleDisconnect();
         }
-      }, 15000);
+      }, CONNECT_TIMEOUT_MS);
 
     } catch (error) {
       console.error('Error connecting to baby monitor:', error);
@@ -419,17 +933,345 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
         stack: error.stack,
         name: error.name
       });
-      setIsConnecting(false);
+      handleDisconnect();
+
+      // The baby monitor no longer knows us (e.g. it forgot its parents)
+      if (error instanceof SignalingRejectedError && error.code === 'unpaired') {
+        forgetSavedMonitor(pairing.deviceId);
+        setSavedMonitors(getSavedMonitors());
+        openPairing(device);
+      }
     }
   };
 
-  const handleDisconnect = () => {
-    console.log('Handling disconnect...');
+  // The stream dropped mid-session. Try an ICE restart on the existing
+  // connection first, then fresh sessions with exponential backoff until the
+  // stream comes back or the user gives up.
+  const handleConnectionLost = async () => {
+    const device = activeDeviceRef.current;
+    if (!device) {
+      handleDisconnect();
+      return;
+    }
+    if (reconnectRef.current) return;
+
+    const reconnect = { cancelled: false };
+    reconnectRef.current = reconnect;
+    let attempt = 1;
+    setReconnectAttempt(attempt);
+
+    const finishReconnect = () => {
+      console.log(`Reconnected to baby monitor after ${attempt} attempt(s)`);
+      reconnectRef.current = null;
+      setReconnectAttempt(null);
+    };
+
+    const peerConnection = peerConnectionRef.current;
+    const signaling = signalingRef.current;
+    if (peerConnection && signaling) {
+      try {
+        console.log('Connection lost, restarting ICE...');
+        const offer = await peerConnection.createOffer({ iceRestart: true });
+        await peerConnection.setLocalDescription(offer);
+        await peerConnection.setRemoteDescription(await signaling.sendOffer(offer, true));
+        if (await waitForConnection(peerConnection, ICE_RESTART_TIMEOUT_MS)) {
+          if (!reconnect.cancelled) finishReconnect();
+          return;
+        }
+      } catch (error) {
+        console.log('ICE restart failed:', error);
+      }
+    }
+
+    while (!reconnect.cancelled) {
+      attempt += 1;
+      setReconnectAttempt(attempt);
+      closeSession();
+
+      const delay = reconnectDelay(attempt - 1);
+      console.log(`Reconnect attempt ${attempt} in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      if (reconnect.cancelled) return;
+
+      const pairing = findSavedMonitor(device.deviceId, device.networkAddress, device.port);
+      if (!pairing) {
+        handleDisconnect();
+        return;
+      }
+
+      try {
+        const newConnection = await startSession(device, pairing);
+        if (reconnect.cancelled) {
+          closeSession();
+          return;
+        }
+        if (await waitForConnection(newConnection, CONNECT_TIMEOUT_MS)) {
+          if (!reconnect.cancelled) finishReconnect();
+          return;
+        }
+      } catch (error) {
+        console.log(`Reconnect attempt ${attempt} failed:`, error);
+        if (error instanceof SignalingRejectedError && error.code === 'unpaired') {
+          handleDisconnect();
+          forgetSavedMonitor(pairing.deviceId);
+          setSavedMonitors(getSavedMonitors());
+          openPairing(device);
+          return;
+        }
+      }
+    }
+  };
+
+  // Saved monitors reconnect at their current address if discovery has seen them
+  const connectToSavedMonitor = (monitor: SavedMonitor) => {
+    const discovered = discoveredDevices.find(device => device.deviceId === monitor.deviceId);
+    connectToDevice({
+      id: `saved-${monitor.deviceId}`,
+      deviceId: monitor.deviceId,
+      name: monitor.name,
+      type: 'baby-monitor',
+      status: 'active',
+      timestamp: Date.now(),
+      lastSeen: Date.now(),
+      connectionMethod: 'saved',
+      networkAddress: discovered?.networkAddress ?? monitor.address,
+      port: discovered?.port ?? monitor.port,
+      platform: discovered?.platform
+    });
+  };
+
+  const startRenaming = (monitor: SavedMonitor) => {
+    setRenamingId(monitor.deviceId);
+    setRenameValue(monitor.name);
+  };
+
+  const finishRenaming = () => {
+    const name = renameValue.trim();
+    if (renamingId && name) {
+      renameSavedMonitor(renamingId, name);
+      setSavedMonitors(getSavedMonitors());
+    }
+    setRenamingId(null);
+  };
+
+  const forgetMonitor = async (monitor: SavedMonitor) => {
+    try {
+      await Haptics.impact({ style: ImpactStyle.Light });
+    } catch (error) {
+      console.log('Haptics not available:', error);
+    }
+
+    forgetSavedMonitor(monitor.deviceId);
+    watchedRef.current.delete(monitor.deviceId);
+    setSavedMonitors(getSavedMonitors());
+  };
+
+  const raiseAlarm = (next: SignalAlarm) => {
+    alarmRef.current = next;
+    setAlarm(next);
+    stopAlarmRef.current?.();
+    stopAlarmRef.current = startAlarm();
+    logEvent({
+      type: 'signal-lost',
+      deviceId: next.key,
+      deviceName: next.deviceName,
+      detail: next.reason === 'media' ? `No media for ${signalTimeout}s` : `No heartbeat for ${signalTimeout}s`
+    });
+  };
+
+  const silenceAlarm = () => {
+    stopAlarmRef.current?.();
+    stopAlarmRef.current = null;
+    alarmRef.current = null;
+    setAlarm(null);
+  };
+
+  // Stops watching one monitor's heartbeats, or all of them, along with its alarm
+  const unwatchMonitors = (deviceId?: string) => {
+    if (deviceId === undefined) {
+      watchedRef.current.clear();
+    } else {
+      watchedRef.current.delete(deviceId);
+    }
+    const current = alarmRef.current;
+    if (current?.reason === 'heartbeat' && (deviceId === undefined || current.key === deviceId)) {
+      silenceAlarm();
+    }
+  };
+
+  const acknowledgeAlarm = () => {
+    const current = alarmRef.current;
+    if (!current) return;
+    acknowledgedRef.current.add(current.key);
+    silenceAlarm();
+    logEvent({ type: 'alarm-acknowledged', deviceId: current.key, deviceName: current.deviceName });
+  };
+
+  // Raise the alarm when a signal has been silent too long, clear it once it's back
+  const checkSignal = (key: string, deviceName: string, lastSignalAt: number, reason: SignalAlarm['reason']) => {
+    if (Date.now() - lastSignalAt >= signalTimeout * 1000) {
+      if (!alarmRef.current && !acknowledgedRef.current.has(key)) {
+        raiseAlarm({ key, deviceName, reason, since: lastSignalAt });
+      }
+      return;
+    }
+
+    acknowledgedRef.current.delete(key);
+    if (alarmRef.current?.key === key) {
+      silenceAlarm();
+      logEvent({ type: 'signal-restored', deviceId: key, deviceName });
+    }
+  };
+
+  // The watchdog interval outlives renders; this keeps it on the current timeout and alarm state
+  const checkSignalRef = useRef(checkSignal);
+  checkSignalRef.current = checkSignal;
+
+  const changeSignalTimeout = (value: string) => {
+    const seconds = Number(value);
+    setSignalTimeout(seconds);
+    setSignalTimeoutState(seconds);
+  };
+
+  // Keep heartbeats for saved monitors that discovery has seen
+  useEffect(() => {
+    discoveredDevices.forEach(device => {
+      const monitor = savedMonitors.find(m => m.deviceId === device.deviceId);
+      if (!monitor) return;
+      const watched = watchedRef.current.get(monitor.deviceId);
+      watchedRef.current.set(monitor.deviceId, {
+        name: monitor.name,
+        lastSeen: Math.max(watched?.lastSeen ?? 0, device.lastSeen)
+      });
+    });
+  }, [discoveredDevices, savedMonitors]);
+
+  // A fresh session gets a full timeout before media is expected
+  useEffect(() => {
+    if (connectedDevice) {
+      lastMediaRef.current = { peerConnection: null, bytes: 0, at: Date.now() };
+    }
+  }, [connectedDevice]);
+
+  // Loss-of-signal watchdog: media while connected, discovery heartbeats otherwise
+  useEffect(() => {
+    const interval = setInterval(async () => {
+      if (connectedDevice) {
+        const media = lastMediaRef.current;
+        const peerConnection = peerConnectionRef.current;
+        if (peerConnection) {
+          try {
+            const bytes = await getInboundBytes(peerConnection);
+            if (peerConnection !== media.peerConnection) {
+              media.peerConnection = peerConnection;
+              media.bytes = bytes;
+            } else if (bytes > media.bytes) {
+              media.bytes = bytes;
+              media.at = Date.now();
+            }
+          } catch (error) {
+            // No stats on this platform; fall back to the connection state
+            if (peerConnection.connectionState === 'connected') {
+              media.at = Date.now();
+            }
+          }
+        }
+        checkSignalRef.current(connectedDevice.deviceId ?? connectedDevice.id, connectedDevice.name, media.at, 'media');
+      } else {
+        watchedRef.current.forEach((watched, deviceId) => {
+          checkSignalRef.current(deviceId, watched.name, watched.lastSeen, 'heartbeat');
+        });
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [connectedDevice]);
+
+  // Poll the stats behind the signal bars and the stats panel
+  useEffect(() => {
+    setConnectionStats(null);
+    if (!connectedDevice || reconnectAttempt !== null) return;
+
+    let counters: StatsCounters | null = null;
+    let counted: RTCPeerConnection | null = null;
+    const interval = setInterval(async () => {
+      const peerConnection = peerConnectionRef.current;
+      if (!peerConnection) return;
+      try {
+        const result = await readConnectionStats(peerConnection, counted === peerConnection ? counters : null);
+        counters = result.counters;
+        counted = peerConnection;
+        setConnectionStats(result.stats);
+      } catch (error) {
+        console.log('Connection stats not available:', error);
+        clearInterval(interval);
+      }
+    }, STATS_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [connectedDevice, reconnectAttempt]);
+
+  // Close the current signaling channel and peer connection
+  const closeSession = () => {
+    peerChannelRef.current = null;
+    talkSenderRef.current = null;
+    talkPressedRef.current = false;
+    talkStartedAtRef.current = null;
+    setIsTalking(false);
+    setSoothingState(null);
+    commandSenderRef.current.cancelAll();
+    setTelemetry(null);
+    setActiveQuality(null);
+    chunkAssemblerRef.current.clear();
+    clipReceiverRef.current.cancelAll();
+    setIsClipListOpen(false);
+    setSnapshotNotice(null);
+    setCommandError(null);
+    setNoiseLevel(null);
+    setSoundHeardAt(null);
+    setMotionAt(null);
+
+    if (signalingRef.current) {
+      signalingRef.current.close();
+      signalingRef.current = null;
+    }
 
     if (peerConnectionRef.current) {
       peerConnectionRef.current.close();
       peerConnectionRef.current = null;
     }
+  };
+
+  // Saves a sleep summary once watching stops, unless it was just a quick look
+  const finishSleepSession = () => {
+    const session = sleepSessionRef.current;
+    sleepSessionRef.current = null;
+    const endedAt = Date.now();
+    if (!session || endedAt - session.startedAt < MIN_SESSION_MS) return;
+
+    const summary = buildSleepSession(getEvents(), session, session.startedAt, endedAt);
+    saveSleepSession(summary);
+    console.log(`Saved a sleep session with ${summary.wakeUps.length} wake-up(s)`);
+  };
+
+  const handleDisconnect = () => {
+    console.log('Handling disconnect...');
+    // A dropped connection was logged when it dropped
+    if (activeDeviceRef.current && !reconnectRef.current) {
+      logDeviceEvent('disconnected');
+    }
+    batteryLowRef.current = false;
+    finishSleepSession();
+
+    if (reconnectRef.current) {
+      reconnectRef.current.cancelled = true;
+      reconnectRef.current = null;
+    }
+    setReconnectAttempt(null);
+    activeDeviceRef.current = null;
+
+    closeSession();
+    releaseMicrophone();
 
     if (remoteVideoRef.current) {
       remoteVideoRef.current.srcObject = null;
@@ -451,6 +1293,8 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
       console.log('Haptics not available:', error);
     }
 
+    // Leaving on purpose answers any alarm for this device
+    acknowledgeAlarm();
     handleDisconnect();
   };
 
@@ -462,10 +1306,6 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
     }
 
     setIsMuted(!isMuted);
-
-    if (remoteVideoRef.current) {
-      remoteVideoRef.current.muted = !isMuted;
-    }
   };
 
   // Auto-start scanning when component mounts
@@ -475,13 +1315,41 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
     return () => {
       stopNetworkDiscovery();
       handleDisconnect();
+      stopAlarmRef.current?.();
     };
   }, []);
 
+  const alarmBanner = alarm && (
+    <div className="fixed inset-x-0 top-0 z-50 p-4 pt-safe-area-top">
+      <Card className="max-w-md mx-auto p-4 bg-destructive text-destructive-foreground border-destructive">
+        <div className="flex items-center gap-3">
+          <BellRing className="w-6 h-6 shrink-0 animate-pulse" />
+          <div className="flex-1">
+            <p className="font-bold">No signal from {alarm.deviceName}</p>
+            <p className="text-sm">
+              {alarm.reason === 'media' ? 'No video or audio' : 'Not heard on the network'} since{' '}
+              {new Date(alarm.since).toLocaleTimeString()}
+            </p>
+          </div>
+          <Button variant="secondary" onClick={acknowledgeAlarm}>
+            Acknowledge
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+
+  const connectedMonitor = connectedDevice?.deviceId
+    ? savedMonitors.find(monitor => monitor.deviceId === connectedDevice.deviceId)
+    : undefined;
+
+  const isNightVisionOn = nightVision.enabled && nightVisionError === null;
+
   // Connected view
   if (connectedDevice) {
     return (
       <div className="min-h-screen bg-background pt-safe-area-top">
+        {alarmBanner}
         {/* Header */}
         <div className="flex items-center justify-between p-4 pt-4 border-b">
           <Button
@@ -494,8 +1362,27 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
           </Button>
 
           <div className="text-center">
-            <p className="font-medium text-foreground">{connectedDevice.name}</p>
-            <p className="text-sm text-success">Connected</p>
+            <p className="flex items-center justify-center gap-2 font-medium text-foreground">
+              {connectedDevice.name}
+              {reconnectAttempt === null && <SignalBars level={signalLevel(connectionStats)} />}
+            </p>
+            {noiseLevel !== null && reconnectAttempt === null && (
+              <p className="flex items-center justify-center gap-1 text-sm font-medium text-warning">
+                <Ear className="w-4 h-4 animate-pulse" />
+                Noise detected
+              </p>
+            )}
+            {motionAt !== null && reconnectAttempt === null && (
+              <p className="flex items-center justify-center gap-1 text-sm font-medium text-warning">
+                <Activity className="w-4 h-4 animate-pulse" />
+                Motion detected
+              </p>
+            )}
+            {reconnectAttempt !== null ? (
+              <p className="text-sm text-warning">Reconnecting…</p>
+            ) : (
+              <p className="text-sm text-success">Connected</p>
+            )}
           </div>
 
           <Button
@@ -513,12 +1400,53 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
             ref={remoteVideoRef}
             autoPlay
             playsInline
-            muted={isMuted}
-            className="absolute inset-0 w-full h-full object-cover"
+            muted={isMuted || isAwaitingSound || isTalking}
+            className={`absolute inset-0 w-full h-full object-cover ${reconnectAttempt !== null ? 'hidden' : ''} ${
+              isNightVisionOn ? 'opacity-0' : ''
+            }`}
           />
 
-          {/* Loading overlay when no stream */}
-          {!remoteStreamRef.current && (
+          {/* Night vision draws enhanced frames over the player; the stream itself is untouched */}
+          {isNightVisionOn && reconnectAttempt === null && (
+            <NightVisionCanvas
+              videoRef={remoteVideoRef}
+              settings={nightVision}
+              onError={(error) => setNightVisionError(error.message)}
+              className="absolute inset-0 w-full h-full object-cover"
+            />
+          )}
+
+          {reconnectAttempt === null && (
+            <div className="absolute top-2 left-2 z-10">
+              <ConnectionStatsPanel stats={connectionStats} />
+            </div>
+          )}
+
+          {/* Sound-activated mode keeps the screen dark until the baby makes a sound */}
+          {isVideoAsleep && reconnectAttempt === null && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black">
+              <div className="text-center text-muted-foreground">
+                <Moon className="w-12 h-12 mx-auto mb-4" />
+                <p className="text-lg">Listening for sound…</p>
+              </div>
+            </div>
+          )}
+
+          {/* Reconnecting replaces the (frozen) video until the stream is back */}
+          {reconnectAttempt !== null ? (
+            <div className="absolute inset-0 flex items-center justify-center bg-muted">
+              <div className="text-center px-6">
+                <Loader2 className="w-12 h-12 mx-auto mb-4 animate-spin text-warning" />
+                <p className="text-lg font-medium text-foreground">Reconnecting… (attempt {reconnectAttempt})</p>
+                <p className="text-sm text-muted-foreground mb-6">
+                  The stream from {connectedDevice.name} dropped. Trying to restore it.
+                </p>
+                <Button variant="destructive" onClick={disconnect}>
+                  Stop Reconnecting
+                </Button>
+              </div>
+            </div>
+          ) : !remoteStreamRef.current && (
             <div className="absolute inset-0 flex items-center justify-center text-muted-foreground bg-muted">
               <div className="text-center">
                 <Camera className="w-16 h-16 mx-auto mb-4" />
@@ -532,18 +1460,346 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
         {/* Controls */}
         <div className="p-4 border-t">
           <div className="flex justify-center">
-            <div className="flex items-center gap-4">
-              <div className="w-2 h-2 bg-success rounded-full animate-pulse" />
-              <span className="text-sm text-muted-foreground">Live</span>
+            {reconnectAttempt !== null ? (
+              <div className="flex items-center gap-4">
+                <div className="w-2 h-2 bg-warning rounded-full animate-pulse" />
+                <span className="text-sm text-muted-foreground">Stream interrupted</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-4">
+                <div className="w-2 h-2 bg-success rounded-full animate-pulse" />
+                <span className="text-sm text-muted-foreground">
+                  {!soundActivation.enabled ? 'Live' : isAwaitingSound ? 'Live, muted until sound' : 'Live, sound detected'}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {/* Snapshots */}
+          {reconnectAttempt === null && (
+            <div className="max-w-md mx-auto mt-4">
+              <div className="flex gap-3 justify-center">
+                <Button variant="outline" onClick={() => takeSnapshot('parent')} disabled={pendingSnapshot !== null}>
+                  {pendingSnapshot === 'parent'
+                    ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    : <Aperture className="w-4 h-4 mr-2" />}
+                  Snapshot
+                </Button>
+                {telemetry && (
+                  <Button variant="outline" onClick={() => takeSnapshot('baby')} disabled={pendingSnapshot !== null}>
+                    {pendingSnapshot === 'baby'
+                      ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      : <Camera className="w-4 h-4 mr-2" />}
+                    Full-Res Still
+                  </Button>
+                )}
+                {telemetry && (
+                  <Button variant="outline" onClick={() => setIsClipListOpen(true)}>
+                    <Clapperboard className="w-4 h-4 mr-2" />
+                    Clips
+                  </Button>
+                )}
+              </div>
+              {snapshotNotice && <p className="text-sm text-muted-foreground text-center mt-2">{snapshotNotice}</p>}
             </div>
+          )}
+
+          {/* Remote controls for the baby monitor */}
+          {telemetry && reconnectAttempt === null && (
+            <div className="max-w-md mx-auto mt-4">
+              <div className="flex items-center justify-center gap-3">
+                <Button
+                  variant={telemetry.cameraEnabled ? 'outline' : 'destructive'}
+                  size="icon"
+                  className="rounded-full w-12 h-12"
+                  disabled={pendingCommand !== null}
+                  onClick={() => runCommand({ name: 'set-camera', enabled: !telemetry.cameraEnabled })}
+                  aria-label={telemetry.cameraEnabled ? 'Turn baby camera off' : 'Turn baby camera on'}
+                >
+                  {pendingCommand === 'set-camera' ? <Loader2 className="w-5 h-5 animate-spin" />
+                    : telemetry.cameraEnabled ? <Video className="w-5 h-5" /> : <VideoOff className="w-5 h-5" />}
+                </Button>
+                <Button
+                  variant={telemetry.micEnabled ? 'outline' : 'destructive'}
+                  size="icon"
+                  className="rounded-full w-12 h-12"
+                  disabled={pendingCommand !== null}
+                  onClick={() => runCommand({ name: 'set-mic', enabled: !telemetry.micEnabled })}
+                  aria-label={telemetry.micEnabled ? 'Turn baby microphone off' : 'Turn baby microphone on'}
+                >
+                  {pendingCommand === 'set-mic' ? <Loader2 className="w-5 h-5 animate-spin" />
+                    : telemetry.micEnabled ? <Mic className="w-5 h-5" /> : <MicOff className="w-5 h-5" />}
+                </Button>
+                {telemetry.cameraCount > 1 && (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="rounded-full w-12 h-12"
+                    disabled={pendingCommand !== null}
+                    onClick={() => runCommand({ name: 'switch-camera' })}
+                    aria-label="Switch baby camera"
+                  >
+                    {pendingCommand === 'switch-camera' ? <Loader2 className="w-5 h-5 animate-spin" />
+                      : <SwitchCamera className="w-5 h-5" />}
+                  </Button>
+                )}
+
+                {telemetry.batteryLevel !== undefined && (
+                  <span className={`flex items-center gap-1 text-sm ${
+                    telemetry.batteryLevel < LOW_BATTERY_LEVEL && !telemetry.charging ? 'text-destructive' : 'text-muted-foreground'
+                  }`}>
+                    {telemetry.charging ? <BatteryCharging className="w-5 h-5" />
+                      : telemetry.batteryLevel < LOW_BATTERY_LEVEL ? <BatteryLow className="w-5 h-5" /> : <Battery className="w-5 h-5" />}
+                    {Math.round(telemetry.batteryLevel * 100)}%
+                  </span>
+                )}
+                {telemetry.connectedParents > 1 && (
+                  <span className="text-sm text-muted-foreground">{telemetry.connectedParents} parents watching</span>
+                )}
+              </div>
+              <div className="flex items-center justify-center gap-3 mt-3">
+                <Label htmlFor="video-quality">Video quality</Label>
+                <Select value={qualityMode} onValueChange={changeQualityMode} disabled={pendingCommand !== null}>
+                  <SelectTrigger id="video-quality" className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QUALITY_MODES.map(mode => (
+                      <SelectItem key={mode} value={mode}>
+                        {QUALITY_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {activeQuality && qualityMode === 'auto' && (
+                  <span className="text-sm text-muted-foreground">Now {QUALITY_LABELS[activeQuality]}</span>
+                )}
+              </div>
+              {commandError && <p className="text-sm text-destructive text-center mt-2">{commandError}</p>}
+            </div>
+          )}
+
+          {/* Push-to-talk */}
+          {reconnectAttempt === null && (
+            <div className="max-w-md mx-auto mt-4 text-center">
+              <Button
+                size="lg"
+                variant={isTalking ? 'destructive' : 'secondary'}
+                className="w-full select-none touch-none"
+                onPointerDown={startTalking}
+                onPointerUp={stopTalking}
+                onPointerLeave={stopTalking}
+                onPointerCancel={stopTalking}
+                onContextMenu={(event) => event.preventDefault()}
+              >
+                <Mic className={`w-5 h-5 mr-2 ${isTalking ? 'animate-pulse' : ''}`} />
+                {isTalking ? 'Talking… release to stop' : 'Hold to Talk'}
+              </Button>
+              {talkError && <p className="text-sm text-destructive mt-2">{talkError}</p>}
+            </div>
+          )}
+
+          {/* Sound level, shown even while muted */}
+          {reconnectAttempt === null && (
+            <div className="max-w-md mx-auto mt-4">
+              <AudioLevelMeter stream={remoteStreamRef.current} />
+            </div>
+          )}
+
+          {/* Sound-activated mode */}
+          <div className="max-w-md mx-auto mt-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="sound-activated">Mute until the baby makes a sound</Label>
+              <Switch
+                id="sound-activated"
+                checked={soundActivation.enabled}
+                onCheckedChange={(enabled) => updateSoundActivation({ enabled })}
+              />
+            </div>
+
+            {soundActivation.enabled && (
+              <>
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Sensitivity</Label>
+                    <span className="text-sm text-muted-foreground">{soundActivation.thresholdDb} dB</span>
+                  </div>
+                  {/* Reversed so that dragging right means more sensitive */}
+                  <Slider
+                    min={10}
+                    max={70}
+                    step={1}
+                    value={[-soundActivation.thresholdDb]}
+                    onValueChange={([value]) => updateSoundActivation({ thresholdDb: -value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Mute again after quiet for</Label>
+                    <span className="text-sm text-muted-foreground">{soundActivation.quietSeconds}s</span>
+                  </div>
+                  <Slider
+                    min={5}
+                    max={120}
+                    step={5}
+                    value={[soundActivation.quietSeconds]}
+                    onValueChange={([quietSeconds]) => updateSoundActivation({ quietSeconds })}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="wake-video">Keep the screen dark too</Label>
+                  <Switch
+                    id="wake-video"
+                    checked={soundActivation.wakeVideo}
+                    onCheckedChange={(wakeVideo) => updateSoundActivation({ wakeVideo })}
+                  />
+                </div>
+              </>
+            )}
+
+            {/* Night vision */}
+            <div className="pt-4 border-t space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="night-vision" className="flex items-center gap-2">
+                  <Eye className="w-4 h-4" />
+                  Night vision
+                </Label>
+                <Switch
+                  id="night-vision"
+                  checked={nightVision.enabled}
+                  onCheckedChange={(enabled) => updateNightVision({ enabled })}
+                />
+              </div>
+              {nightVisionError && (
+                <p className="text-sm text-destructive">Night vision is not available: {nightVisionError}</p>
+              )}
+
+              {nightVision.enabled && (
+                <>
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <Label>Brightness</Label>
+                      <span className="text-sm text-muted-foreground">{nightVision.gain.toFixed(1)}×</span>
+                    </div>
+                    <Slider
+                      min={1}
+                      max={8}
+                      step={0.1}
+                      value={[nightVision.gain]}
+                      onValueChange={([gain]) => updateNightVision({ gain })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <Label>Shadows (gamma)</Label>
+                      <span className="text-sm text-muted-foreground">{nightVision.gamma.toFixed(1)}</span>
+                    </div>
+                    <Slider
+                      min={1}
+                      max={3}
+                      step={0.1}
+                      value={[nightVision.gamma]}
+                      onValueChange={([gamma]) => updateNightVision({ gamma })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <Label>Contrast</Label>
+                      <span className="text-sm text-muted-foreground">{nightVision.contrast.toFixed(1)}</span>
+                    </div>
+                    <Slider
+                      min={0.5}
+                      max={2}
+                      step={0.1}
+                      value={[nightVision.contrast]}
+                      onValueChange={([contrast]) => updateNightVision({ contrast })}
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <Label>Tint</Label>
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      variant="outline"
+                      value={nightVision.tint}
+                      onValueChange={(value) => value && updateNightVision({ tint: value as NightVisionTint })}
+                    >
+                      <ToggleGroupItem value="none">Colour</ToggleGroupItem>
+                      <ToggleGroupItem value="green">Green</ToggleGroupItem>
+                      <ToggleGroupItem value="gray">Grey</ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {soothingState && reconnectAttempt === null && (
+              <div className="pt-4 border-t">
+                <p className="flex items-center gap-2 font-medium text-foreground mb-3">
+                  <Music className="w-4 h-4" />
+                  Soothing Sounds
+                </p>
+                <SoothingControls state={soothingState} onCommand={sendSoothingCommand} />
+              </div>
+            )}
+
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setIsZoneEditorOpen(true)}
+              disabled={reconnectAttempt !== null}
+            >
+              <Scan className="w-4 h-4 mr-2" />
+              Motion Zones
+            </Button>
+
+            <Button variant="outline" className="w-full" onClick={() => setIsTimelineOpen(true)}>
+              <History className="w-4 h-4 mr-2" />
+              Event Timeline
+            </Button>
           </div>
         </div>
+
+        <ClipListDialog
+          open={isClipListOpen}
+          onOpenChange={setIsClipListOpen}
+          onList={listBabyClips}
+          onDownload={downloadClip}
+        />
+
+        <EventTimelineDialog
+          open={isTimelineOpen}
+          onOpenChange={setIsTimelineOpen}
+          connectedDeviceId={telemetry ? connectedDevice.deviceId ?? connectedDevice.id : undefined}
+          onListClips={telemetry ? listBabyClips : undefined}
+          onFetchClip={fetchClip}
+        />
+
+        <MotionRegionEditor
+          open={isZoneEditorOpen}
+          stream={remoteStreamRef.current}
+          regions={connectedMonitor?.motionRegions ?? NO_MOTION_REGIONS}
+          onSave={saveMotionZones}
+          onOpenChange={setIsZoneEditorOpen}
+        />
       </div>
     );
   }
 
+  // Saved monitors are listed separately, above everything else
+  const isSaved = (device: BabyMonitorDevice) =>
+    device.deviceId !== undefined && savedMonitors.some(monitor => monitor.deviceId === device.deviceId);
+  const availableDevices = discoveredDevices.filter(device => !isSaved(device));
+
   return (
     <div className="min-h-screen bg-background p-4 pt-safe-area-top">
+      {alarmBanner}
+
       {/* Header */}
       <div className="flex items-center justify-between mb-6 pt-4">
         <Button
@@ -581,6 +1837,72 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
           </p>
         </Card>
 
+        {/* Saved Monitors */}
+        {savedMonitors.length > 0 && (
+          <div className="space-y-3 mb-6">
+            <h3 className="font-medium text-foreground">Saved Monitors</h3>
+            {savedMonitors.map((monitor) => {
+              const isOnline = discoveredDevices.some(device => device.deviceId === monitor.deviceId);
+              const isRenaming = renamingId === monitor.deviceId;
+
+              return (
+                <Card key={monitor.deviceId} className="p-4">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 min-w-0 flex-1">
+                      <div className={`w-3 h-3 shrink-0 rounded-full ${
+                        isOnline ? 'bg-success animate-pulse' : 'bg-muted-foreground'
+                      }`} />
+                      {isRenaming ? (
+                        <Input
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && finishRenaming()}
+                          autoFocus
+                        />
+                      ) : (
+                        <div className="min-w-0">
+                          <p className="font-medium text-card-foreground truncate">{monitor.name}</p>
+                          <p className="text-sm text-muted-foreground truncate">
+                            {monitor.address}:{monitor.port}
+                            {monitor.lastConnectedAt
+                              ? ` • ${formatDistanceToNow(monitor.lastConnectedAt, { addSuffix: true })}`
+                              : ' • never connected'}
+                          </p>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex items-center gap-1 shrink-0">
+                      {isRenaming ? (
+                        <Button size="icon" variant="ghost" onClick={finishRenaming} aria-label="Save name">
+                          <Check className="w-4 h-4" />
+                        </Button>
+                      ) : (
+                        <>
+                          <Button size="icon" variant="ghost" onClick={() => startRenaming(monitor)} aria-label="Rename">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" onClick={() => forgetMonitor(monitor)} aria-label="Forget">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => connectToSavedMonitor(monitor)}
+                            disabled={isConnecting}
+                          >
+                            Connect
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
         {/* Connecting State */}
         {isConnecting && (
           <Card className="p-6 text-center mb-6">
@@ -607,6 +1929,56 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
           </Card>
         )}
 
+        {/* Loss-of-signal alarm */}
+        <Card className="p-4 mb-6">
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="signal-timeout">Alarm after no signal for</Label>
+            <Select value={String(signalTimeout)} onValueChange={changeSignalTimeout}>
+              <SelectTrigger id="signal-timeout" className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SIGNAL_TIMEOUT_OPTIONS.map(seconds => (
+                  <SelectItem key={seconds} value={String(seconds)}>
+                    {seconds} seconds
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </Card>
+
+        {/* Saved snapshots, the event history and sleep reports */}
+        <Card className="p-4 mb-6 space-y-3">
+          <Button onClick={() => navigate('/gallery')} variant="outline" className="w-full">
+            <Images className="w-4 h-4 mr-2" />
+            Snapshot Gallery
+          </Button>
+          <Button onClick={() => setIsTimelineOpen(true)} variant="outline" className="w-full">
+            <History className="w-4 h-4 mr-2" />
+            Event Timeline
+          </Button>
+          <Button onClick={() => navigate('/sleep')} variant="outline" className="w-full">
+            <BedDouble className="w-4 h-4 mr-2" />
+            Sleep Reports
+          </Button>
+        </Card>
+
+        <EventTimelineDialog open={isTimelineOpen} onOpenChange={setIsTimelineOpen} />
+
+        {/* Pair by QR code */}
+        <Card className="p-4 mb-6">
+          <Button
+            onClick={() => openPairing(null)}
+            variant="secondary"
+            className="w-full"
+            disabled={isConnecting}
+          >
+            <QrCode className="w-4 h-4 mr-2" />
+            Scan Pairing Code
+          </Button>
+        </Card>
+
         {/* Manual Connect */}
         <Card className="p-4 mb-6">
           <div className="grid gap-4">
@@ -655,7 +2027,7 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
             )}
           </div>
 
-          {!isScanning && discoveredDevices.length === 0 ? (
+          {!isScanning && availableDevices.length === 0 ? (
             <Card className="p-6 text-center">
               <div className="text-muted-foreground">
                 <WifiOff className="w-12 h-12 mx-auto mb-3 opacity-50" />
@@ -663,7 +2035,7 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
                 <p className="text-sm mt-1">Tap "Start Scanning" to find baby monitors on local network</p>
               </div>
             </Card>
-          ) : discoveredDevices.length === 0 ? (
+          ) : availableDevices.length === 0 ? (
             <Card className="p-6 text-center">
               <div className="text-muted-foreground">
                 <Wifi className="w-12 h-12 mx-auto mb-3 opacity-50" />
@@ -672,7 +2044,7 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
               </div>
             </Card>
           ) : (
-            discoveredDevices.map((device) => (
+            availableDevices.map((device) => (
               <Card
                 key={device.id}
                 className={`p-4 cursor-pointer smooth-transition hover:shadow-medium ${
@@ -704,6 +2076,14 @@ const url = `${baseUrl}/webrtc/get-candidates/${parentId}`;
           )}
         </div>
       </div>
+
+      <PairingDialog
+        open={isPairingOpen}
+        deviceName={pairingDevice?.name}
+        onPin={(pin) => pairWithDevice(pairingDevice, pin)}
+        onCode={pairWithCode}
+        onOpenChange={setIsPairingOpen}
+      />
     </div>
   );
 };
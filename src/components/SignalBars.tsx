@@ -0,0 +1,35 @@
+import { cn } from '@/lib/utils';
+
+const BAR_HEIGHTS = ['h-1', 'h-2', 'h-3', 'h-4'];
+
+const levelColor = (level: number) => {
+  if (level >= 3) return 'bg-success';
+  if (level === 2) return 'bg-warning';
+  return 'bg-destructive';
+};
+
+const LEVEL_LABELS = ['No signal information', 'Poor signal', 'Fair signal', 'Good signal', 'Excellent signal'];
+
+interface SignalBarsProps {
+  // 0..4, from signalLevel()
+  level: number;
+  className?: string;
+}
+
+const SignalBars = ({ level, className }: SignalBarsProps) => (
+  <span
+    role="img"
+    aria-label={LEVEL_LABELS[level]}
+    title={LEVEL_LABELS[level]}
+    className={cn('inline-flex items-end gap-0.5 h-4', className)}
+  >
+    {BAR_HEIGHTS.map((height, index) => (
+      <span
+        key={height}
+        className={cn('w-1 rounded-sm', height, index < level ? levelColor(level) : 'bg-muted-foreground/30')}
+      />
+    ))}
+  </span>
+);
+
+export default SignalBars;
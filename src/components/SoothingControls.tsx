@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Music, Square } from 'lucide-react';
+import {
+  SLEEP_TIMER_OPTIONS,
+  SOOTHING_SOUNDS,
+  SOOTHING_SOUND_LABELS,
+  type SoothingCommand,
+  type SoothingState
+} from '@/lib/soothing-player';
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+interface SoothingControlsProps {
+  state: SoothingState;
+  onCommand: (command: SoothingCommand) => void;
+}
+
+// Used both on the baby device and, over the control channel, on the parent
+const SoothingControls = ({ state, onCommand }: SoothingControlsProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (state.timerEndsAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state.timerEndsAt]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        {SOOTHING_SOUNDS.map(sound => (
+          <Button
+            key={sound}
+            size="sm"
+            variant={state.sound === sound ? 'default' : 'outline'}
+            onClick={() => onCommand({ sound: state.sound === sound ? null : sound })}
+          >
+            {SOOTHING_SOUND_LABELS[sound]}
+          </Button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label>Volume</Label>
+          <span className="text-sm text-muted-foreground">{Math.round(state.volume * 100)}%</span>
+        </div>
+        <Slider
+          min={0}
+          max={100}
+          step={5}
+          value={[Math.round(state.volume * 100)]}
+          onValueChange={([percent]) => onCommand({ volume: percent / 100 })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <Label>Sleep timer</Label>
+        <Select
+          value={state.timerEndsAt === null ? 'off' : ''}
+          onValueChange={(value) => onCommand({ timerMinutes: value === 'off' ? null : Number(value) })}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue placeholder={state.timerEndsAt !== null ? formatRemaining(state.timerEndsAt - now) : undefined} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="off">Off</SelectItem>
+            {SLEEP_TIMER_OPTIONS.map(minutes => (
+              <SelectItem key={minutes} value={String(minutes)}>
+                {minutes} minutes
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {state.sound && (
+        <div className="flex items-center justify-between">
+          <span className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Music className="w-4 h-4 animate-pulse" />
+            Playing {SOOTHING_SOUND_LABELS[state.sound].toLowerCase()}
+            {state.timerEndsAt !== null && `, stops in ${formatRemaining(state.timerEndsAt - now)}`}
+          </span>
+          <Button size="sm" variant="ghost" onClick={() => onCommand({ sound: null })}>
+            <Square className="w-4 h-4 mr-2" />
+            Stop
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SoothingControls;
@@ -0,0 +1,46 @@
+const SETTINGS_KEY = 'zoyaCameraId';
+
+export interface CameraInfo {
+  deviceId: string;
+  label: string;
+}
+
+/** The remembered camera, or null to let the platform pick the rear one. */
+export const getCameraPreference = () => localStorage.getItem(SETTINGS_KEY);
+
+export const saveCameraPreference = (deviceId: string) => {
+  localStorage.setItem(SETTINGS_KEY, deviceId);
+};
+
+/**
+ * Video inputs on this device. Browsers only fill in labels (and sometimes
+ * ids) once camera access has been granted, so call this after getUserMedia.
+ */
+export async function listCameras(): Promise<CameraInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput' && device.deviceId)
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Camera ${index + 1}` }));
+}
+
+/** The camera after `currentId`, wrapping around; null with fewer than two. */
+export const nextCamera = (cameras: CameraInfo[], currentId: string | undefined) => {
+  if (cameras.length < 2) return null;
+  const index = cameras.findIndex(camera => camera.deviceId === currentId);
+  return cameras[(index + 1) % cameras.length];
+};
+
+/**
+ * Video constraints for a camera. `exact` fails instead of falling back to
+ * another camera, which is what a switch needs; on start a stale id should
+ * fall back. Without an id the rear camera is preferred, as that's the one
+ * that faces the crib.
+ */
+export const cameraConstraints = (deviceId: string | null, exact = false): MediaTrackConstraints => ({
+  ...(deviceId
+    ? { deviceId: exact ? { exact: deviceId } : { ideal: deviceId } }
+    : { facingMode: { ideal: 'environment' } }),
+  // Captured at the HD profile's size; senders scale down per parent
+  width: { ideal: 1280, max: 1280 },
+  height: { ideal: 720, max: 720 }
+});
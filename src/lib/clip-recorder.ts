@@ -0,0 +1,165 @@
+/**
+ * Event clips on the baby device. A MediaRecorder file can't be trimmed
+ * from the front (the header and first keyframe are at its start), so
+ * pre-roll comes from overlapping recorders instead: a new one starts every
+ * `preRollMs` and each is dropped once it is two pre-rolls old. When an
+ * event comes in, the newest recorder that already holds a full pre-roll
+ * is kept going until the post-roll is over, and its file becomes the clip.
+ */
+
+import type { ClipReason } from '@/lib/signaling';
+
+export type { ClipReason };
+
+export interface RecordedClip {
+  blob: Blob;
+  mimeType: string;
+  startedAt: number;
+  durationMs: number;
+  // The event that triggered the clip and when it happened
+  reason: ClipReason;
+  eventAt: number;
+}
+
+export interface ClipRecorderOptions {
+  preRollMs: number;
+  // Recording continues this long after the last event...
+  postRollMs: number;
+  // ...but a clip never gets longer than this
+  maxClipMs: number;
+}
+
+export const DEFAULT_CLIP_OPTIONS: ClipRecorderOptions = {
+  preRollMs: 5000,
+  postRollMs: 15000,
+  maxClipMs: 30000
+};
+
+const MIME_TYPES = ['video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+// Recorder chunks are collected this often so stopping loses little
+const TIMESLICE_MS = 1000;
+
+/** The first container this browser can record, or null without MediaRecorder. */
+export function pickRecordingMimeType() {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+interface Segment {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+}
+
+interface ActiveClip {
+  segment: Segment;
+  reason: ClipReason;
+  eventAt: number;
+  endsAt: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export interface ClipRecorder {
+  // Starts a clip, or stretches the one being recorded
+  trigger: (reason: ClipReason) => void;
+  isRecordingClip: () => boolean;
+  // Finishes any clip in progress and stops recording
+  stop: () => void;
+}
+
+export function createClipRecorder(
+  stream: MediaStream,
+  options: ClipRecorderOptions,
+  onClip: (clip: RecordedClip) => void
+): ClipRecorder {
+  const mimeType = pickRecordingMimeType();
+  if (mimeType === null) {
+    throw new Error('MediaRecorder is not available');
+  }
+
+  let segments: Segment[] = [];
+  let active: ActiveClip | null = null;
+  let stopped = false;
+
+  const startSegment = () => {
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const segment: Segment = { recorder, chunks: [], startedAt: Date.now() };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) segment.chunks.push(event.data);
+    };
+    recorder.start(TIMESLICE_MS);
+    segments.push(segment);
+  };
+
+  const discard = (segment: Segment) => {
+    segment.recorder.ondataavailable = null;
+    if (segment.recorder.state !== 'inactive') segment.recorder.stop();
+  };
+
+  // Start the next overlapping recorder and drop the ones too old for pre-roll
+  const rotate = () => {
+    const now = Date.now();
+    segments = segments.filter(segment => {
+      if (segment === active?.segment || now - segment.startedAt < options.preRollMs * 2) return true;
+      discard(segment);
+      return false;
+    });
+    startSegment();
+  };
+
+  const finish = () => {
+    if (!active) return;
+    const { segment, reason, eventAt } = active;
+    clearTimeout(active.timer);
+    active = null;
+    segments = segments.filter(candidate => candidate !== segment);
+
+    segment.recorder.onstop = () => {
+      const type = segment.recorder.mimeType || mimeType || 'video/webm';
+      onClip({
+        blob: new Blob(segment.chunks, { type }),
+        mimeType: type,
+        startedAt: segment.startedAt,
+        durationMs: Date.now() - segment.startedAt,
+        reason,
+        eventAt
+      });
+    };
+    segment.recorder.stop();
+  };
+
+  const trigger = (reason: ClipReason) => {
+    if (stopped) return;
+    const now = Date.now();
+
+    if (active) {
+      active.endsAt = Math.min(now + options.postRollMs, active.segment.startedAt + options.maxClipMs);
+      clearTimeout(active.timer);
+      active.timer = setTimeout(finish, active.endsAt - now);
+      return;
+    }
+
+    // The newest recorder with a full pre-roll, or the oldest if none has one yet
+    const ready = segments.filter(candidate => now - candidate.startedAt >= options.preRollMs);
+    const segment = ready.length > 0 ? ready[ready.length - 1] : segments[0];
+    if (!segment) return;
+    const endsAt = Math.min(now + options.postRollMs, segment.startedAt + options.maxClipMs);
+    active = { segment, reason, eventAt: now, endsAt, timer: setTimeout(finish, endsAt - now) };
+    console.log(`Recording a ${reason} clip with ${Math.round((now - segment.startedAt) / 1000)}s of pre-roll`);
+  };
+
+  startSegment();
+  const interval = setInterval(rotate, options.preRollMs);
+
+  return {
+    trigger,
+    isRecordingClip: () => active !== null,
+    stop: () => {
+      stopped = true;
+      clearInterval(interval);
+      finish();
+      segments.forEach(discard);
+      segments = [];
+    }
+  };
+}
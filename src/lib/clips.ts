@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { parseWithSchema, type ClipInfo } from '@/lib/signaling';
+import { requestToPromise, withStore, CLIP_STORE } from '@/lib/media-db';
+import type { RecordedClip } from '@/lib/clip-recorder';
+
+const SETTINGS_KEY = 'zoyaClipRecording';
+// Oldest clips are deleted past this many
+export const MAX_STORED_CLIPS = 50;
+// A download fails if no chunk arrives for this long
+const TRANSFER_IDLE_TIMEOUT_MS = 15000;
+
+export interface ClipRecordingSettings {
+  enabled: boolean;
+  onNoise: boolean;
+  onMotion: boolean;
+}
+
+export const DEFAULT_CLIP_RECORDING: ClipRecordingSettings = { enabled: false, onNoise: true, onMotion: true };
+
+const clipRecordingSchema = z.object({
+  enabled: z.boolean(),
+  onNoise: z.boolean(),
+  onMotion: z.boolean()
+}) as z.ZodType<ClipRecordingSettings>;
+
+export const getClipRecording = (): ClipRecordingSettings => {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  if (!stored) return DEFAULT_CLIP_RECORDING;
+  try {
+    return parseWithSchema(clipRecordingSchema, stored, 'clip recording settings');
+  } catch (error) {
+    console.warn('Discarding invalid clip recording settings:', error.message);
+    return DEFAULT_CLIP_RECORDING;
+  }
+};
+
+export const saveClipRecording = (settings: ClipRecordingSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface StoredClip extends RecordedClip {
+  id: string;
+}
+
+// The clip list is sent to parents, so its shape is defined by the protocol
+export type { ClipInfo };
+
+export const toClipInfo = ({ blob, ...info }: StoredClip): ClipInfo => ({ ...info, size: blob.size });
+
+/** Stores a clip, deleting the oldest ones beyond MAX_STORED_CLIPS. */
+export async function saveClip(clip: RecordedClip) {
+  const record: StoredClip = { id: crypto.randomUUID(), ...clip };
+  await withStore(CLIP_STORE, 'readwrite', async store => {
+    store.put(record);
+    const keys = await requestToPromise(store.index('startedAt').getAllKeys());
+    keys.slice(0, Math.max(0, keys.length - MAX_STORED_CLIPS)).forEach(key => store.delete(key));
+  });
+  return record;
+}
+
+/** Newest first. */
+export async function listClips() {
+  const clips = await withStore(CLIP_STORE, 'readonly', store =>
+    requestToPromise(store.index('startedAt').getAll() as IDBRequest<StoredClip[]>)
+  );
+  return clips.map(toClipInfo).reverse();
+}
+
+export const getClip = (id: string) =>
+  withStore(CLIP_STORE, 'readonly', store => requestToPromise(store.get(id) as IDBRequest<StoredClip | undefined>));
+
+export const clipFileName = (clip: ClipInfo) =>
+  `zoya-${clip.reason}-${new Date(clip.startedAt).toISOString().replace(/[:.]/g, '-')}.${
+    clip.mimeType.includes('mp4') ? 'mp4' : 'webm'
+  }`;
+
+/**
+ * Parent side of clip downloads: the baby monitor acks `get-clip` with a
+ * transfer id and chunk count, then streams `clip-chunk` messages. Pass
+ * every chunk to `add`.
+ */
+export function createClipReceiver() {
+  const transfers = new Map<string, {
+    chunks: string[];
+    received: number;
+    onProgress: (fraction: number) => void;
+    resolve: (data: string) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+  }>();
+
+  const fail = (id: string, error: Error) => {
+    const transfer = transfers.get(id);
+    if (!transfer) return;
+    clearTimeout(transfer.timer);
+    transfers.delete(id);
+    transfer.reject(error);
+  };
+
+  const armTimer = (id: string) =>
+    setTimeout(() => fail(id, new Error('Clip download stalled')), TRANSFER_IDLE_TIMEOUT_MS);
+
+  const add = (id: string, index: number, data: string) => {
+    // The channel is ordered, so a known transfer's chunks never beat its ack
+    const transfer = transfers.get(id);
+    if (!transfer || index >= transfer.chunks.length || transfer.chunks[index] !== undefined) return;
+
+    transfer.chunks[index] = data;
+    transfer.received++;
+    clearTimeout(transfer.timer);
+    transfer.onProgress(transfer.received / transfer.chunks.length);
+    if (transfer.received === transfer.chunks.length) {
+      transfers.delete(id);
+      transfer.resolve(transfer.chunks.join(''));
+    } else {
+      transfer.timer = armTimer(id);
+    }
+  };
+
+  // Resolves with the joined base64 once all `count` chunks are in
+  const expect = (id: string, count: number, onProgress: (fraction: number) => void) =>
+    new Promise<string>((resolve, reject) => {
+      transfers.set(id, {
+        chunks: Array.from<string>({ length: count }),
+        received: 0,
+        onProgress,
+        resolve,
+        reject,
+        timer: armTimer(id)
+      });
+    });
+
+  const cancelAll = () => {
+    Array.from(transfers.keys()).forEach(id => fail(id, new Error('Connection closed')));
+  };
+
+  return { add, expect, cancelAll };
+}
@@ -0,0 +1,113 @@
+/**
+ * What the parent's connection looks like from `getStats()`: the numbers
+ * behind the stats panel and the signal bars.
+ */
+
+export interface ConnectionStats {
+  // Round trip over the selected candidate pair, in ms
+  rttMs?: number;
+  // Fraction (0..1) of video packets lost since the last sample
+  packetLoss: number;
+  jitterMs?: number;
+  // Bits per second received since the last sample, audio and video together
+  bitrate: number;
+  width?: number;
+  height?: number;
+  framesPerSecond?: number;
+  codec?: string;
+  // host, srflx, prflx or relay, for each end of the selected pair
+  localCandidateType?: string;
+  remoteCandidateType?: string;
+}
+
+/** Running totals from the previous sample, to turn counters into rates. */
+export interface StatsCounters {
+  at: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+type StatsReport = Record<string, unknown> & { id: string; type: string };
+
+const findSelectedPair = (reports: Map<string, StatsReport>) => {
+  for (const report of reports.values()) {
+    if (report.type === 'transport' && typeof report.selectedCandidatePairId === 'string') {
+      return reports.get(report.selectedCandidatePairId);
+    }
+  }
+  // Firefox has no transport report but marks the pair instead
+  for (const report of reports.values()) {
+    if (report.type === 'candidate-pair' && (report.selected || (report.nominated && report.state === 'succeeded'))) {
+      return report;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Reads the stats for one sample. Rates are worked out against `previous`;
+ * pass the returned counters in next time.
+ */
+export async function readConnectionStats(
+  peerConnection: RTCPeerConnection,
+  previous: StatsCounters | null
+): Promise<{ stats: ConnectionStats; counters: StatsCounters }> {
+  const report = await peerConnection.getStats();
+  const reports = new Map<string, StatsReport>();
+  report.forEach((entry: StatsReport) => reports.set(entry.id, entry));
+
+  const counters: StatsCounters = { at: Date.now(), bytesReceived: 0, packetsReceived: 0, packetsLost: 0 };
+  const stats: ConnectionStats = { packetLoss: 0, bitrate: 0 };
+
+  for (const entry of reports.values()) {
+    if (entry.type !== 'inbound-rtp') continue;
+    counters.bytesReceived += Number(entry.bytesReceived ?? 0);
+    if (entry.kind !== 'video') continue;
+
+    counters.packetsReceived += Number(entry.packetsReceived ?? 0);
+    counters.packetsLost += Number(entry.packetsLost ?? 0);
+    if (typeof entry.jitter === 'number') stats.jitterMs = entry.jitter * 1000;
+    if (typeof entry.frameWidth === 'number') stats.width = entry.frameWidth;
+    if (typeof entry.frameHeight === 'number') stats.height = entry.frameHeight;
+    if (typeof entry.framesPerSecond === 'number') stats.framesPerSecond = entry.framesPerSecond;
+    const codec = typeof entry.codecId === 'string' ? reports.get(entry.codecId) : undefined;
+    if (typeof codec?.mimeType === 'string') stats.codec = codec.mimeType.replace(/^video\//, '');
+  }
+
+  const pair = findSelectedPair(reports);
+  if (pair) {
+    if (typeof pair.currentRoundTripTime === 'number') stats.rttMs = pair.currentRoundTripTime * 1000;
+    const local = reports.get(String(pair.localCandidateId));
+    const remote = reports.get(String(pair.remoteCandidateId));
+    if (typeof local?.candidateType === 'string') stats.localCandidateType = local.candidateType;
+    if (typeof remote?.candidateType === 'string') stats.remoteCandidateType = remote.candidateType;
+  }
+
+  if (previous) {
+    const seconds = (counters.at - previous.at) / 1000;
+    if (seconds > 0) {
+      stats.bitrate = Math.max(0, ((counters.bytesReceived - previous.bytesReceived) * 8) / seconds);
+    }
+    const received = counters.packetsReceived - previous.packetsReceived;
+    const lost = counters.packetsLost - previous.packetsLost;
+    if (received + lost > 0) {
+      stats.packetLoss = Math.min(1, Math.max(0, lost / (received + lost)));
+    }
+  }
+
+  return { stats, counters };
+}
+
+/**
+ * 0 to 4 bars from loss and round trip time: the things that make the
+ * picture stutter. 0 means no stats yet.
+ */
+export function signalLevel(stats: ConnectionStats | null) {
+  if (!stats) return 0;
+  const rtt = stats.rttMs ?? 0;
+  if (stats.packetLoss > 0.1 || rtt > 1000) return 1;
+  if (stats.packetLoss > 0.05 || rtt > 400) return 2;
+  if (stats.packetLoss > 0.01 || rtt > 150) return 3;
+  return 4;
+}
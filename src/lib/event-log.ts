@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { parseWithSchema } from '@/lib/signaling';
+import type { ClipInfo } from '@/lib/clips';
+
+// Monitoring events on this device, oldest first
+const EVENT_LOG_KEY = 'zoyaEventLog';
+const MAX_EVENTS = 2000;
+// Clock drift between the two devices allowed when matching events to clips
+const CLIP_MATCH_SLACK_MS = 5000;
+
+export const monitorEventSchema = z.object({
+  id: z.string(),
+  type: z.enum([
+    'noise',
+    'motion',
+    'connected',
+    'disconnected',
+    'signal-lost',
+    'signal-restored',
+    'alarm-acknowledged',
+    'battery-low',
+    'talk',
+    'snapshot'
+  ]),
+  at: z.number(),
+  deviceId: z.string().optional(),
+  deviceName: z.string().optional(),
+  detail: z.string().optional(),
+  // How long a talk session lasted
+  durationMs: z.number().optional(),
+  // The gallery snapshot this event saved
+  snapshotId: z.string().optional()
+});
+
+export type MonitorEvent = z.infer<typeof monitorEventSchema>;
+export type MonitorEventType = MonitorEvent['type'];
+
+export const EVENT_TYPE_LABELS: Record<MonitorEventType, string> = {
+  noise: 'Noise',
+  motion: 'Motion',
+  connected: 'Connected',
+  disconnected: 'Disconnected',
+  'signal-lost': 'Signal lost',
+  'signal-restored': 'Signal restored',
+  'alarm-acknowledged': 'Alarm acknowledged',
+  'battery-low': 'Battery low',
+  talk: 'Talked',
+  snapshot: 'Snapshot'
+};
+
+export const getEvents = (): MonitorEvent[] => {
+  const stored = localStorage.getItem(EVENT_LOG_KEY);
+  if (!stored) return [];
+  try {
+    return parseWithSchema(z.array(monitorEventSchema), stored, 'event log');
+  } catch (error) {
+    console.warn('Discarding invalid event log:', error.message);
+    return [];
+  }
+};
+
+/** Records an event, dropping the oldest ones past MAX_EVENTS. */
+export const logEvent = (event: Omit<MonitorEvent, 'id' | 'at'>): MonitorEvent => {
+  const entry: MonitorEvent = { id: crypto.randomUUID(), at: Date.now(), ...event };
+  console.log(`Event ${entry.type}:`, entry.deviceName ?? '', entry.detail ?? '');
+
+  const events = [...getEvents(), entry].slice(-MAX_EVENTS);
+  localStorage.setItem(EVENT_LOG_KEY, JSON.stringify(events));
+  return entry;
+};
+
+export const clearEvents = () => {
+  localStorage.removeItem(EVENT_LOG_KEY);
+};
+
+/** The baby monitor's clip covering a noise or motion event, if it recorded one. */
+export const findClipForEvent = (event: MonitorEvent, clips: ClipInfo[]) => {
+  if (event.type !== 'noise' && event.type !== 'motion') return undefined;
+  return clips.find(clip =>
+    event.at >= clip.startedAt - CLIP_MATCH_SLACK_MS &&
+    event.at <= clip.startedAt + clip.durationMs + CLIP_MATCH_SLACK_MS
+  );
+};
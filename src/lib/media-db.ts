@@ -0,0 +1,65 @@
+/**
+ * The IndexedDB database for media kept on this device. Blobs are far too
+ * big for localStorage, which is what everything else here uses.
+ */
+
+const DB_NAME = 'zoyaMedia';
+const DB_VERSION = 3;
+
+export const SNAPSHOT_STORE = 'snapshots';
+export const CLIP_STORE = 'clips';
+export const RECORDING_STORE = 'recording';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openMediaDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' }).createIndex('takenAt', 'takenAt');
+        }
+        if (!db.objectStoreNames.contains(CLIP_STORE)) {
+          db.createObjectStore(CLIP_STORE, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+          db.createObjectStore(RECORDING_STORE, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/** Wraps an IDBRequest in a promise. */
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Runs `work` in a transaction and resolves with its result once the transaction commits. */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openMediaDb();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+  const result = await work(transaction.objectStore(storeName));
+  await done;
+  return result;
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeMotionScore,
+  createMotionDetector,
+  createRegionMask,
+  rectangleRegion,
+  toGrayscale,
+  type Frame
+} from './motion-detector';
+
+const WIDTH = 10;
+const HEIGHT = 10;
+
+// An ImageData-like grey frame; `paint` gives the brightness of each pixel
+const frame = (paint: (x: number, y: number) => number = () => 0, width = WIDTH, height = HEIGHT): Frame => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      data.fill(paint(x, y), offset, offset + 3);
+      data[offset + 3] = 255;
+    }
+  }
+  return { data, width, height };
+};
+
+// White in the left `columns` columns, black elsewhere
+const leftColumns = (columns: number) => frame(x => (x < columns ? 255 : 0));
+
+const options = { threshold: 0.1, pixelThreshold: 25, cooldownMs: 1000, regions: [] };
+
+const countWatched = (mask: Uint8Array) => mask.reduce((sum, value) => sum + value, 0);
+
+describe('createRegionMask', () => {
+  it('watches the whole frame without regions', () => {
+    expect(countWatched(createRegionMask(WIDTH, HEIGHT, []))).toBe(WIDTH * HEIGHT);
+  });
+
+  it('watches only the include regions', () => {
+    const mask = createRegionMask(WIDTH, HEIGHT, [rectangleRegion({ x: 0, y: 0 }, { x: 0.5, y: 1 }, 'include')]);
+
+    expect(countWatched(mask)).toBe(50);
+    expect(mask[0]).toBe(1);
+    expect(mask[9]).toBe(0);
+  });
+
+  it('leaves out the exclude regions', () => {
+    const mask = createRegionMask(WIDTH, HEIGHT, [rectangleRegion({ x: 0.5, y: 0.5 }, { x: 1, y: 1 }, 'exclude')]);
+
+    expect(countWatched(mask)).toBe(75);
+    expect(mask[HEIGHT * WIDTH - 1]).toBe(0);
+  });
+
+  it('ignores regions with fewer than three points', () => {
+    const line = { points: [{ x: 0, y: 0 }, { x: 1, y: 1 }], mode: 'include' as const };
+
+    expect(countWatched(createRegionMask(WIDTH, HEIGHT, [line]))).toBe(WIDTH * HEIGHT);
+  });
+});
+
+describe('computeMotionScore', () => {
+  it('is the fraction of watched pixels that changed past the pixel threshold', () => {
+    const mask = createRegionMask(WIDTH, HEIGHT, []);
+
+    expect(computeMotionScore(toGrayscale(frame()), toGrayscale(leftColumns(3)), mask, 25)).toBeCloseTo(0.3);
+    expect(computeMotionScore(toGrayscale(frame()), toGrayscale(frame(() => 25)), mask, 25)).toBe(0);
+  });
+
+  it('only counts pixels inside the mask', () => {
+    const mask = createRegionMask(WIDTH, HEIGHT, [rectangleRegion({ x: 0.5, y: 0 }, { x: 1, y: 1 }, 'include')]);
+
+    expect(computeMotionScore(toGrayscale(frame()), toGrayscale(leftColumns(5)), mask, 25)).toBe(0);
+    expect(computeMotionScore(toGrayscale(frame()), toGrayscale(leftColumns(6)), mask, 25)).toBeCloseTo(0.2);
+  });
+});
+
+describe('createMotionDetector', () => {
+  it('uses the first frame as the reference', () => {
+    const detector = createMotionDetector(options);
+
+    expect(detector.process(leftColumns(10), 0)).toEqual({ score: 0, event: null });
+  });
+
+  it('reports motion when enough pixels change between frames', () => {
+    const detector = createMotionDetector(options);
+    detector.process(frame(), 0);
+
+    expect(detector.process(frame(), 100).event).toBeNull();
+    expect(detector.process(leftColumns(2), 200)).toEqual({ score: 0.2, event: { at: 200, score: 0.2 } });
+  });
+
+  it('ignores changes below the threshold', () => {
+    const detector = createMotionDetector(options);
+    detector.process(frame(), 0);
+
+    // Half of one column
+    const update = detector.process(frame((x, y) => (x === 0 && y < 5 ? 255 : 0)), 100);
+    expect(update.score).toBeCloseTo(0.05);
+    expect(update.event).toBeNull();
+  });
+
+  it('reports at most one event per cooldown', () => {
+    const detector = createMotionDetector(options);
+    detector.process(frame(), 0);
+
+    expect(detector.process(leftColumns(5), 100).event).not.toBeNull();
+    expect(detector.process(frame(), 600).event).toBeNull();
+    expect(detector.process(leftColumns(5), 1100).event).not.toBeNull();
+  });
+
+  it('ignores motion outside the regions', () => {
+    const detector = createMotionDetector({
+      ...options,
+      regions: [rectangleRegion({ x: 0, y: 0 }, { x: 0.5, y: 1 }, 'exclude')]
+    });
+    detector.process(frame(), 0);
+
+    expect(detector.process(leftColumns(5), 100).event).toBeNull();
+    expect(detector.process(frame(), 200).event).toBeNull();
+    expect(detector.process(frame(x => (x >= 5 ? 255 : 0)), 1500).event).not.toBeNull();
+  });
+
+  it('starts over when the frame size changes', () => {
+    const detector = createMotionDetector(options);
+    detector.process(frame(), 0);
+
+    expect(detector.process(leftColumns(10), 100).event).not.toBeNull();
+    expect(detector.process(frame(() => 0, 20, 20), 2000)).toEqual({ score: 0, event: null });
+  });
+
+  it('takes a new reference frame after reset', () => {
+    const detector = createMotionDetector(options);
+    detector.process(frame(), 0);
+
+    detector.reset();
+
+    expect(detector.process(leftColumns(10), 100)).toEqual({ score: 0, event: null });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Frame differencing for motion detection. Pure functions over ImageData-like
+ * frames so the rules can be checked against synthetic pixels.
+ */
+
+import type { MotionRegion, RegionPoint } from '@/lib/signaling';
+
+// Regions travel between devices, so their shape is defined by the protocol
+export type { MotionRegion, RegionPoint };
+
+/** The parts of ImageData the detector reads. */
+export interface Frame {
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+}
+
+export interface MotionDetectorOptions {
+  // Fraction of watched pixels (0..1) that must change to count as motion
+  threshold: number;
+  // Brightness change (0..255) for a single pixel to count as changed
+  pixelThreshold: number;
+  // Minimum time between two motion events
+  cooldownMs: number;
+  // Without any include regions the whole frame is watched
+  regions: MotionRegion[];
+}
+
+export interface MotionDetectorUpdate {
+  score: number;
+  event: { at: number; score: number } | null;
+}
+
+export const DEFAULT_MOTION_OPTIONS: MotionDetectorOptions = {
+  threshold: 0.02,
+  pixelThreshold: 25,
+  cooldownMs: 5000,
+  regions: []
+};
+
+/** The four corners of a rectangle as a region polygon. */
+export const rectangleRegion = (from: RegionPoint, to: RegionPoint, mode: MotionRegion['mode']): MotionRegion => ({
+  points: [
+    { x: Math.min(from.x, to.x), y: Math.min(from.y, to.y) },
+    { x: Math.max(from.x, to.x), y: Math.min(from.y, to.y) },
+    { x: Math.max(from.x, to.x), y: Math.max(from.y, to.y) },
+    { x: Math.min(from.x, to.x), y: Math.max(from.y, to.y) }
+  ],
+  mode
+});
+
+/** Rec. 601 luma of each RGBA pixel. */
+export function toGrayscale(frame: Frame) {
+  const gray = new Uint8ClampedArray(frame.width * frame.height);
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4;
+    gray[i] = 0.299 * frame.data[offset] + 0.587 * frame.data[offset + 1] + 0.114 * frame.data[offset + 2];
+  }
+  return gray;
+}
+
+/** Even-odd ray casting test. */
+export function isInsidePolygon(point: RegionPoint, polygon: RegionPoint[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * 1 for every watched pixel, 0 elsewhere: the include regions (or the whole
+ * frame when there are none) minus the exclude regions. Pixels are tested
+ * at their centres.
+ */
+export function createRegionMask(width: number, height: number, regions: MotionRegion[]) {
+  const includes = regions.filter(region => region.mode === 'include' && region.points.length >= 3);
+  const excludes = regions.filter(region => region.mode === 'exclude' && region.points.length >= 3);
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const point = { x: (x + 0.5) / width, y: (y + 0.5) / height };
+      const included = includes.length === 0 || includes.some(region => isInsidePolygon(point, region.points));
+      if (included && !excludes.some(region => isInsidePolygon(point, region.points))) {
+        mask[y * width + x] = 1;
+      }
+    }
+  }
+  return mask;
+}
+
+/**
+ * Fraction of masked pixels whose brightness changed by more than
+ * `pixelThreshold` between two grayscale frames of the same size.
+ */
+export function computeMotionScore(
+  previous: ArrayLike<number>,
+  current: ArrayLike<number>,
+  mask: ArrayLike<number>,
+  pixelThreshold: number
+) {
+  let watched = 0;
+  let changed = 0;
+  for (let i = 0; i < current.length; i++) {
+    if (!mask[i]) continue;
+    watched++;
+    if (Math.abs(current[i] - previous[i]) > pixelThreshold) {
+      changed++;
+    }
+  }
+  return watched === 0 ? 0 : changed / watched;
+}
+
+/**
+ * Compares each frame with the one before and reports motion events, at
+ * most one per cooldown. A change of frame size starts over.
+ */
+export function createMotionDetector(options: MotionDetectorOptions) {
+  let settings = { ...options };
+  let previous: Uint8ClampedArray | null = null;
+  let mask: Uint8Array | null = null;
+  let size = '';
+  let lastEventAt = -Infinity;
+
+  const reset = () => {
+    previous = null;
+    mask = null;
+    size = '';
+  };
+
+  const process = (frame: Frame, at: number): MotionDetectorUpdate => {
+    const gray = toGrayscale(frame);
+    const frameSize = `${frame.width}x${frame.height}`;
+    if (frameSize !== size) {
+      size = frameSize;
+      previous = gray;
+      mask = createRegionMask(frame.width, frame.height, settings.regions);
+      return { score: 0, event: null };
+    }
+
+    const score = computeMotionScore(previous, gray, mask, settings.pixelThreshold);
+    previous = gray;
+
+    if (score < settings.threshold || at - lastEventAt < settings.cooldownMs) {
+      return { score, event: null };
+    }
+    lastEventAt = at;
+    return { score, event: { at, score } };
+  };
+
+  const configure = (changes: Partial<MotionDetectorOptions>) => {
+    settings = { ...settings, ...changes };
+    if (changes.regions) {
+      reset();
+    }
+  };
+
+  return { process, configure, reset };
+}
+
+export type MotionDetector = ReturnType<typeof createMotionDetector>;
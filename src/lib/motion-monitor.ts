@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { motionRegionSchema, parseWithSchema } from '@/lib/signaling';
+import {
+  createMotionDetector,
+  DEFAULT_MOTION_OPTIONS,
+  type MotionDetectorOptions,
+  type MotionDetectorUpdate
+} from '@/lib/motion-detector';
+
+const SETTINGS_KEY = 'zoyaMotionSettings';
+const SAMPLE_INTERVAL_MS = 500;
+// Frames are scaled down before differencing; motion doesn't need detail
+const SAMPLE_WIDTH = 160;
+
+const motionSettingsSchema = z.object({
+  threshold: z.number().min(0).max(1),
+  pixelThreshold: z.number().min(0).max(255),
+  cooldownMs: z.number().int().min(0),
+  regions: z.array(motionRegionSchema)
+}) as z.ZodType<MotionDetectorOptions>;
+
+export const getMotionSettings = (): MotionDetectorOptions => {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  if (!stored) return DEFAULT_MOTION_OPTIONS;
+  try {
+    return parseWithSchema(motionSettingsSchema, stored, 'motion settings');
+  } catch (error) {
+    console.warn('Discarding invalid motion settings:', error.message);
+    return DEFAULT_MOTION_OPTIONS;
+  }
+};
+
+export const saveMotionSettings = (settings: MotionDetectorOptions) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface MotionMonitor {
+  configure: (changes: Partial<MotionDetectorOptions>) => void;
+  // Stops sampling and drops the reference frame until resumed
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+}
+
+/**
+ * Samples frames from `video` into an offscreen canvas every
+ * SAMPLE_INTERVAL_MS and runs the motion detector over them. Nothing is
+ * sampled while the video has no picture: no frame yet, or its camera track
+ * disabled or ended. When the picture comes back the next frame becomes the
+ * new reference, so the jump from the last frame before isn't motion.
+ */
+export function startMotionMonitor(
+  video: HTMLVideoElement,
+  options: MotionDetectorOptions,
+  onUpdate: (update: MotionDetectorUpdate) => void
+): MotionMonitor {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas 2D context not available');
+  }
+
+  const detector = createMotionDetector(options);
+  let hadPicture = true;
+  let paused = false;
+
+  const hasPicture = () => {
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) return false;
+    // A disabled track keeps the video element showing black frames
+    const stream = video.srcObject instanceof MediaStream ? video.srcObject : null;
+    const track = stream?.getVideoTracks()[0];
+    return !track || (track.enabled && track.readyState === 'live');
+  };
+
+  const interval = setInterval(() => {
+    if (paused || !hasPicture()) {
+      hadPicture = false;
+      return;
+    }
+    if (!hadPicture) {
+      hadPicture = true;
+      detector.reset();
+    }
+
+    canvas.width = SAMPLE_WIDTH;
+    canvas.height = Math.round((SAMPLE_WIDTH * video.videoHeight) / video.videoWidth);
+    try {
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      onUpdate(detector.process(context.getImageData(0, 0, canvas.width, canvas.height), Date.now()));
+    } catch (error) {
+      console.log('Could not sample video frame:', error);
+    }
+  }, SAMPLE_INTERVAL_MS);
+
+  return {
+    configure: detector.configure,
+    pause: () => {
+      paused = true;
+      detector.reset();
+    },
+    resume: () => {
+      paused = false;
+    },
+    stop: () => clearInterval(interval)
+  };
+}
@@ -0,0 +1,225 @@
+import { z } from 'zod';
+import { parseWithSchema } from '@/lib/signaling';
+
+/**
+ * Night vision for the parent's player: brightens dark footage while
+ * drawing it to a canvas. It only changes what this parent sees; the stream
+ * from the baby monitor is untouched.
+ */
+
+const SETTINGS_KEY = 'zoyaNightVision';
+
+export const NIGHT_VISION_TINTS = ['none', 'green', 'gray'] as const;
+export type NightVisionTint = typeof NIGHT_VISION_TINTS[number];
+
+export interface NightVisionSettings {
+  enabled: boolean;
+  // Brightness multiplier, applied first
+  gain: number;
+  // Above 1 lifts the shadows more than the highlights
+  gamma: number;
+  // 1 leaves contrast alone; stretches around mid grey
+  contrast: number;
+  tint: NightVisionTint;
+}
+
+export const DEFAULT_NIGHT_VISION: NightVisionSettings = {
+  enabled: false,
+  gain: 2,
+  gamma: 1.5,
+  contrast: 1.2,
+  tint: 'none'
+};
+
+const nightVisionSchema = z.object({
+  enabled: z.boolean(),
+  gain: z.number().min(1).max(8),
+  gamma: z.number().min(1).max(3),
+  contrast: z.number().min(0.5).max(2),
+  tint: z.enum(NIGHT_VISION_TINTS)
+}) as z.ZodType<NightVisionSettings>;
+
+export const getNightVision = (): NightVisionSettings => {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  if (!stored) return DEFAULT_NIGHT_VISION;
+  try {
+    return parseWithSchema(nightVisionSchema, stored, 'night vision settings');
+  } catch (error) {
+    console.warn('Discarding invalid night vision settings:', error.message);
+    return DEFAULT_NIGHT_VISION;
+  }
+};
+
+export const saveNightVision = (settings: NightVisionSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Green phosphor look; grey is plain luma
+const GREEN_TINT = [0.1, 1, 0.2];
+
+/** Gain, then gamma, then contrast, on one channel in 0..1. */
+export const enhanceChannel = (value: number, { gain, gamma, contrast }: NightVisionSettings) => {
+  const boosted = Math.min(1, value * gain) ** (1 / gamma);
+  return Math.min(1, Math.max(0, (boosted - 0.5) * contrast + 0.5));
+};
+
+/** The same pipeline as the shader, over RGBA pixels in place; the 2D fallback. */
+export function enhancePixels(data: Uint8ClampedArray, settings: NightVisionSettings) {
+  const curve = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    curve[i] = Math.round(enhanceChannel(i / 255, settings) * 255);
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = curve[data[i]];
+    const g = curve[data[i + 1]];
+    const b = curve[data[i + 2]];
+    if (settings.tint === 'none') {
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    } else {
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+      const [tr, tg, tb] = settings.tint === 'green' ? GREEN_TINT : [1, 1, 1];
+      data[i] = luma * tr;
+      data[i + 1] = luma * tg;
+      data[i + 2] = luma * tb;
+    }
+  }
+  return data;
+}
+
+const VERTEX_SHADER = `
+attribute vec2 position;
+varying vec2 uv;
+void main() {
+  uv = vec2((position.x + 1.0) / 2.0, (1.0 - position.y) / 2.0);
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D frame;
+uniform float gain;
+uniform float gamma;
+uniform float contrast;
+uniform float useTint;
+uniform vec3 tint;
+varying vec2 uv;
+void main() {
+  vec3 color = texture2D(frame, uv).rgb;
+  color = pow(min(color * gain, 1.0), vec3(1.0 / gamma));
+  color = clamp((color - 0.5) * contrast + 0.5, 0.0, 1.0);
+  float luma = dot(color, vec3(0.299, 0.587, 0.114));
+  gl_FragColor = vec4(mix(color, luma * tint, useTint), 1.0);
+}`;
+
+export interface NightVisionRenderer {
+  // Draws the current video frame; false when there is nothing to draw yet
+  render: (video: HTMLVideoElement, settings: NightVisionSettings) => boolean;
+  destroy: () => void;
+}
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+  }
+  return shader;
+};
+
+const hasFrame = (video: HTMLVideoElement) =>
+  video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0;
+
+function createWebGLRenderer(canvas: HTMLCanvasElement, gl: WebGLRenderingContext): NightVisionRenderer {
+  const program = gl.createProgram();
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader program failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  gl.useProgram(program);
+
+  // Two triangles covering the canvas
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, 'position');
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  // Video frames are rarely a power of two in size
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+  const uniforms = {
+    gain: gl.getUniformLocation(program, 'gain'),
+    gamma: gl.getUniformLocation(program, 'gamma'),
+    contrast: gl.getUniformLocation(program, 'contrast'),
+    useTint: gl.getUniformLocation(program, 'useTint'),
+    tint: gl.getUniformLocation(program, 'tint')
+  };
+
+  return {
+    render: (video, settings) => {
+      if (!hasFrame(video)) return false;
+      if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        gl.viewport(0, 0, canvas.width, canvas.height);
+      }
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGB, gl.RGB, gl.UNSIGNED_BYTE, video);
+      gl.uniform1f(uniforms.gain, settings.gain);
+      gl.uniform1f(uniforms.gamma, settings.gamma);
+      gl.uniform1f(uniforms.contrast, settings.contrast);
+      gl.uniform1f(uniforms.useTint, settings.tint === 'none' ? 0 : 1);
+      gl.uniform3fv(uniforms.tint, settings.tint === 'green' ? GREEN_TINT : [1, 1, 1]);
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+      return true;
+    },
+    destroy: () => {
+      gl.deleteTexture(texture);
+      gl.deleteBuffer(buffer);
+      gl.deleteProgram(program);
+    }
+  };
+}
+
+function createCanvasRenderer(canvas: HTMLCanvasElement): NightVisionRenderer {
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas 2D context not available');
+  }
+
+  return {
+    render: (video, settings) => {
+      if (!hasFrame(video)) return false;
+      if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+      }
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      enhancePixels(image.data, settings);
+      context.putImageData(image, 0, 0);
+      return true;
+    },
+    destroy: () => {}
+  };
+}
+
+/**
+ * Renders enhanced frames into `canvas` with WebGL, or pixel by pixel on a
+ * 2D canvas where WebGL isn't available (much slower, but it works).
+ */
+export function createNightVisionRenderer(canvas: HTMLCanvasElement): NightVisionRenderer {
+  const gl = canvas.getContext('webgl');
+  return gl ? createWebGLRenderer(canvas, gl) : createCanvasRenderer(canvas);
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { computeRms, createNoiseDetector, toDecibels, MIN_DECIBELS } from './noise-detector';
+
+// A block of PCM whose RMS is `amplitude`: a square wave alternating ±amplitude
+const block = (amplitude: number, length = 1024) =>
+  Float32Array.from({ length }, (_, i) => (i % 2 === 0 ? amplitude : -amplitude));
+
+// 0.1 full scale is -20 dBFS, 0.001 is -60 dBFS
+const LOUD = block(0.1);
+const QUIET = block(0.001);
+
+const options = { thresholdDb: -35, holdMs: 500, releaseMs: 3000 };
+
+describe('levels', () => {
+  it('measures the RMS of a block', () => {
+    expect(computeRms(block(0.5))).toBeCloseTo(0.5);
+    expect(computeRms([])).toBe(0);
+  });
+
+  it('converts RMS to dBFS with a floor for silence', () => {
+    expect(toDecibels(1)).toBeCloseTo(0);
+    expect(toDecibels(0.1)).toBeCloseTo(-20);
+    expect(toDecibels(0)).toBe(MIN_DECIBELS);
+    expect(toDecibels(1e-9)).toBe(MIN_DECIBELS);
+  });
+});
+
+describe('createNoiseDetector', () => {
+  it('ignores sound below the threshold', () => {
+    const detector = createNoiseDetector(options);
+    for (let at = 0; at <= 5000; at += 100) {
+      expect(detector.process(QUIET, at).event).toBeNull();
+    }
+    expect(detector.isNoisy()).toBe(false);
+  });
+
+  it('starts noise once the level has stayed above the threshold for the hold time', () => {
+    const detector = createNoiseDetector(options);
+
+    expect(detector.process(LOUD, 0).event).toBeNull();
+    expect(detector.process(LOUD, 400).event).toBeNull();
+    const update = detector.process(LOUD, 500);
+
+    expect(update.level).toBeCloseTo(-20);
+    expect(update.event).toEqual({ type: 'start', at: 500, level: update.level });
+    expect(detector.isNoisy()).toBe(true);
+  });
+
+  it('counts a level exactly at the threshold as noise', () => {
+    const detector = createNoiseDetector({ ...options, thresholdDb: -20, holdMs: 0 });
+
+    expect(detector.process(block(0.1), 0).event?.type).toBe('start');
+  });
+
+  it('restarts the hold when the sound drops out before it is over', () => {
+    const detector = createNoiseDetector(options);
+
+    detector.process(LOUD, 0);
+    detector.process(LOUD, 300);
+    detector.process(QUIET, 400);
+    expect(detector.process(LOUD, 500).event).toBeNull();
+    expect(detector.process(LOUD, 900).event).toBeNull();
+    expect(detector.process(LOUD, 1000).event?.type).toBe('start');
+  });
+
+  it('ends noise after the release time of quiet, with its peak and duration', () => {
+    const detector = createNoiseDetector(options);
+    detector.process(LOUD, 0);
+    detector.process(LOUD, 500);
+    detector.process(block(0.5), 1000);
+
+    expect(detector.process(QUIET, 2000).event).toBeNull();
+    expect(detector.process(QUIET, 4900).event).toBeNull();
+    const { event } = detector.process(QUIET, 5000);
+
+    expect(event).toMatchObject({ type: 'end', at: 5000, durationMs: 2000 });
+    expect(event?.type === 'end' && event.peak).toBeCloseTo(toDecibels(0.5));
+    expect(detector.isNoisy()).toBe(false);
+  });
+
+  it('keeps noise going when the sound comes back within the release time', () => {
+    const detector = createNoiseDetector(options);
+    detector.process(LOUD, 0);
+    detector.process(LOUD, 500);
+
+    detector.process(QUIET, 1000);
+    detector.process(LOUD, 3500);
+    expect(detector.process(QUIET, 4500).event).toBeNull();
+    expect(detector.process(QUIET, 7000).event).toBeNull();
+    expect(detector.process(QUIET, 7500).event).toMatchObject({ type: 'end', durationMs: 4500 });
+  });
+
+  it('applies a new threshold from configure', () => {
+    const detector = createNoiseDetector({ ...options, holdMs: 0 });
+    detector.configure({ thresholdDb: -10 });
+
+    expect(detector.process(LOUD, 0).event).toBeNull();
+    expect(detector.process(block(0.5), 100).event?.type).toBe('start');
+  });
+
+  it('forgets noise in progress on reset', () => {
+    const detector = createNoiseDetector(options);
+    detector.process(LOUD, 0);
+    detector.process(LOUD, 500);
+
+    detector.reset();
+
+    expect(detector.isNoisy()).toBe(false);
+    expect(detector.process(QUIET, 10000).event).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Sound level analysis for cry/noise detection. Pure functions over PCM
+ * samples (floats in -1..1) so the detection rules don't depend on Web Audio.
+ */
+
+// Level reported for digital silence
+export const MIN_DECIBELS = -100;
+
+export interface NoiseDetectorOptions {
+  // Level in dBFS (0 is full scale) that counts as noise
+  thresholdDb: number;
+  // How long the level must stay above the threshold before noise starts
+  holdMs: number;
+  // How long it must stay below the threshold before noise ends
+  releaseMs: number;
+}
+
+export type NoiseDetectorEvent =
+  | { type: 'start'; at: number; level: number }
+  | { type: 'end'; at: number; level: number; peak: number; durationMs: number };
+
+export interface NoiseDetectorUpdate {
+  level: number;
+  event: NoiseDetectorEvent | null;
+}
+
+export const DEFAULT_NOISE_OPTIONS: NoiseDetectorOptions = {
+  thresholdDb: -35,
+  holdMs: 500,
+  releaseMs: 3000
+};
+
+/** Root mean square of a block of samples. */
+export function computeRms(samples: ArrayLike<number>) {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+/** Converts an RMS amplitude to dBFS, floored at MIN_DECIBELS. */
+export function toDecibels(rms: number) {
+  if (rms <= 0) return MIN_DECIBELS;
+  return Math.max(MIN_DECIBELS, 20 * Math.log10(rms));
+}
+
+/**
+ * Turns a stream of sample blocks into noise start/end events. Feed it a
+ * block with its timestamp (ms) each time new audio is available.
+ */
+export function createNoiseDetector(options: NoiseDetectorOptions) {
+  let settings = { ...options };
+  // When the level first crossed the threshold, or null while below it
+  let loudSince: number | null = null;
+  // When the level first dropped below the threshold during noise
+  let quietSince: number | null = null;
+  let noiseStartedAt: number | null = null;
+  let peak = MIN_DECIBELS;
+
+  const reset = () => {
+    loudSince = null;
+    quietSince = null;
+    noiseStartedAt = null;
+    peak = MIN_DECIBELS;
+  };
+
+  const process = (samples: ArrayLike<number>, at: number): NoiseDetectorUpdate => {
+    const level = toDecibels(computeRms(samples));
+    const isLoud = level >= settings.thresholdDb;
+
+    if (noiseStartedAt === null) {
+      if (!isLoud) {
+        loudSince = null;
+        return { level, event: null };
+      }
+      loudSince ??= at;
+      if (at - loudSince < settings.holdMs) {
+        return { level, event: null };
+      }
+      noiseStartedAt = loudSince;
+      peak = level;
+      return { level, event: { type: 'start', at, level } };
+    }
+
+    peak = Math.max(peak, level);
+    if (isLoud) {
+      quietSince = null;
+      return { level, event: null };
+    }
+    quietSince ??= at;
+    if (at - quietSince < settings.releaseMs) {
+      return { level, event: null };
+    }
+
+    const event: NoiseDetectorEvent = { type: 'end', at, level, peak, durationMs: quietSince - noiseStartedAt };
+    reset();
+    return { level, event };
+  };
+
+  const configure = (changes: Partial<NoiseDetectorOptions>) => {
+    settings = { ...settings, ...changes };
+  };
+
+  return {
+    process,
+    configure,
+    reset,
+    isNoisy: () => noiseStartedAt !== null
+  };
+}
+
+export type NoiseDetector = ReturnType<typeof createNoiseDetector>;
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { parseWithSchema } from '@/lib/signaling';
+import {
+  createNoiseDetector,
+  DEFAULT_NOISE_OPTIONS,
+  type NoiseDetectorOptions,
+  type NoiseDetectorUpdate
+} from '@/lib/noise-detector';
+
+const SETTINGS_KEY = 'zoyaNoiseSettings';
+const SAMPLE_INTERVAL_MS = 100;
+const FFT_SIZE = 2048;
+
+const noiseSettingsSchema = z.object({
+  thresholdDb: z.number().min(-100).max(0),
+  holdMs: z.number().int().min(0),
+  releaseMs: z.number().int().min(0)
+}) as z.ZodType<NoiseDetectorOptions>;
+
+export const getNoiseSettings = (): NoiseDetectorOptions => {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  if (!stored) return DEFAULT_NOISE_OPTIONS;
+  try {
+    return parseWithSchema(noiseSettingsSchema, stored, 'noise settings');
+  } catch (error) {
+    console.warn('Discarding invalid noise settings:', error.message);
+    return DEFAULT_NOISE_OPTIONS;
+  }
+};
+
+export const saveNoiseSettings = (settings: NoiseDetectorOptions) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface NoiseMonitor {
+  configure: (changes: Partial<NoiseDetectorOptions>) => void;
+  stop: () => void;
+}
+
+/**
+ * Reads the audio of `stream` through an AnalyserNode, calling `onSamples`
+ * every SAMPLE_INTERVAL_MS with the latest block of samples. Nothing is
+ * played, so it works whether or not the stream is audible. Throws when Web
+ * Audio can't read the stream (e.g. native iOS tracks).
+ */
+export async function startAudioSampler(
+  stream: MediaStream,
+  onSamples: (samples: Float32Array, at: number) => void
+): Promise<() => void> {
+  if (stream.getAudioTracks().length === 0) {
+    throw new Error('Stream has no audio track');
+  }
+
+  const AudioContextClass = window.AudioContext ??
+    (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  const context = new AudioContextClass();
+  try {
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = FFT_SIZE;
+    // Not connected to the destination: analysis only
+    source.connect(analyser);
+    await context.resume();
+
+    const samples = new Float32Array(analyser.fftSize);
+    const interval = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      onSamples(samples, Date.now());
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      source.disconnect();
+      context.close();
+    };
+  } catch (error) {
+    context.close();
+    throw error;
+  }
+}
+
+/** Runs the noise detector over the audio of `stream`. */
+export async function startNoiseMonitor(
+  stream: MediaStream,
+  options: NoiseDetectorOptions,
+  onUpdate: (update: NoiseDetectorUpdate) => void
+): Promise<NoiseMonitor> {
+  const detector = createNoiseDetector(options);
+  const stop = await startAudioSampler(stream, (samples, at) => onUpdate(detector.process(samples, at)));
+  return { configure: detector.configure, stop };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { selectExpiredSegments, type ContinuousRecordingSettings, type SegmentEntry } from './recordings';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const MEGABYTE = 1024 * 1024;
+const NOW = Date.UTC(2024, 2, 1, 6, 0);
+
+const settings: ContinuousRecordingSettings = { enabled: true, maxHours: 4, maxMegabytes: 100 };
+
+// One-minute segments of `sizeMb` each, the last one ending now, oldest first
+const segments = (count: number, sizeMb = 1): SegmentEntry[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `segment-${index}`,
+    startedAt: NOW - (count - index) * MINUTE,
+    durationMs: MINUTE,
+    size: sizeMb * MEGABYTE
+  }));
+
+const ids = (expired: SegmentEntry[]) => expired.map(segment => segment.id);
+
+describe('selectExpiredSegments', () => {
+  it('keeps everything within the limits', () => {
+    expect(selectExpiredSegments(segments(60), settings, null, NOW)).toEqual([]);
+  });
+
+  it('deletes segments that ended before the age cutoff', () => {
+    const old = { id: 'old', startedAt: NOW - 5 * HOUR, durationMs: MINUTE, size: MEGABYTE };
+    // Ends right at the cutoff, so it stays
+    const edge = { id: 'edge', startedAt: NOW - 4 * HOUR - MINUTE, durationMs: MINUTE, size: MEGABYTE };
+
+    expect(ids(selectExpiredSegments([old, edge, ...segments(3)], settings, null, NOW))).toEqual(['old']);
+  });
+
+  it('deletes the oldest segments until the rest fit in the megabyte cap', () => {
+    const expired = selectExpiredSegments(segments(30, 4), settings, null, NOW);
+
+    // 120 MB against a 100 MB cap: five 4 MB segments have to go
+    expect(ids(expired)).toEqual(['segment-0', 'segment-1', 'segment-2', 'segment-3', 'segment-4']);
+  });
+
+  it('counts segments deleted for age towards the cap', () => {
+    const old = { id: 'old', startedAt: NOW - 5 * HOUR, durationMs: MINUTE, size: 8 * MEGABYTE };
+
+    expect(ids(selectExpiredSegments([old, ...segments(25, 4)], settings, null, NOW))).toEqual(['old']);
+  });
+
+  it('keeps recordings within the share of the quota that is left', () => {
+    // 20 MB recorded, 8 MB more may be used: 90% of 100 MB minus 82 MB in use
+    const estimate = { quota: 100 * MEGABYTE, usage: 82 * MEGABYTE };
+
+    const expired = selectExpiredSegments(segments(10, 2), settings, estimate, NOW);
+
+    expect(expired).toEqual([]);
+    // 4 MB over the share: the two oldest segments make up for it
+    expect(ids(selectExpiredSegments(segments(10, 2), settings, { ...estimate, usage: 94 * MEGABYTE }, NOW)))
+      .toEqual(['segment-0', 'segment-1']);
+  });
+
+  it('ignores an estimate without a quota', () => {
+    expect(selectExpiredSegments(segments(10, 2), settings, { usage: 10 * MEGABYTE }, NOW)).toEqual([]);
+  });
+});
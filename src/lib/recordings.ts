@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import { parseWithSchema } from '@/lib/signaling';
+import { requestToPromise, withStore, RECORDING_STORE } from '@/lib/media-db';
+import type { RecordedSegment } from '@/lib/segment-recorder';
+
+const SETTINGS_KEY = 'zoyaContinuousRecording';
+// Short enough that a segment in memory stays small, long enough to keep the file count down
+export const RECORDING_SEGMENT_MS = 60 * 1000;
+// Share of the browser's storage quota recordings may grow into
+const QUOTA_SHARE = 0.9;
+const MEGABYTE = 1024 * 1024;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ContinuousRecordingSettings {
+  enabled: boolean;
+  // Segments older than this are deleted...
+  maxHours: number;
+  // ...and so are the oldest ones once all of them take more than this
+  maxMegabytes: number;
+}
+
+export const DEFAULT_CONTINUOUS_RECORDING: ContinuousRecordingSettings = {
+  enabled: false,
+  maxHours: 12,
+  maxMegabytes: 2048
+};
+
+export const RETENTION_HOURS = [4, 8, 12, 24];
+export const RETENTION_MEGABYTES = [512, 1024, 2048, 4096];
+
+const continuousRecordingSchema = z.object({
+  enabled: z.boolean(),
+  maxHours: z.number().min(1).max(48),
+  maxMegabytes: z.number().min(64).max(32768)
+}) as z.ZodType<ContinuousRecordingSettings>;
+
+export const getContinuousRecording = (): ContinuousRecordingSettings => {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  if (!stored) return DEFAULT_CONTINUOUS_RECORDING;
+  try {
+    return parseWithSchema(continuousRecordingSchema, stored, 'continuous recording settings');
+  } catch (error) {
+    console.warn('Discarding invalid continuous recording settings:', error.message);
+    return DEFAULT_CONTINUOUS_RECORDING;
+  }
+};
+
+export const saveContinuousRecording = (settings: ContinuousRecordingSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface StoredSegment extends RecordedSegment {
+  id: string;
+  // blob.size, so totals don't go through every blob. Segments saved before
+  // it was added don't have it.
+  size?: number;
+}
+
+/** What retention and the usage figures need to know about a segment. */
+export interface SegmentEntry {
+  id: string;
+  startedAt: number;
+  durationMs: number;
+  size: number;
+}
+
+export interface RecordingUsage {
+  segments: number;
+  bytes: number;
+  durationMs: number;
+  // The browser's figures for everything this app stores, where it gives them
+  storageUsed: number | null;
+  storageQuota: number | null;
+}
+
+const estimateStorage = async () => {
+  try {
+    return (await navigator.storage?.estimate()) ?? null;
+  } catch (error) {
+    console.log('Storage estimate not available:', error);
+    return null;
+  }
+};
+
+/** Asks the browser not to evict recordings when the device runs low on space. */
+export async function requestPersistentStorage() {
+  try {
+    return (await navigator.storage?.persist()) ?? false;
+  } catch (error) {
+    console.log('Persistent storage not available:', error);
+    return false;
+  }
+}
+
+export async function saveSegment(segment: RecordedSegment) {
+  const record: StoredSegment = { id: crypto.randomUUID(), ...segment, size: segment.blob.size };
+  await withStore(RECORDING_STORE, 'readwrite', store => {
+    store.put(record);
+  });
+  return record;
+}
+
+// Walks the segments oldest first with a cursor, keeping only their entries
+const readEntries = (store: IDBObjectStore) =>
+  new Promise<SegmentEntry[]>((resolve, reject) => {
+    const entries: SegmentEntry[] = [];
+    const request = store.index('startedAt').openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(entries);
+        return;
+      }
+      const { id, startedAt, durationMs, size, blob }: StoredSegment = cursor.value;
+      entries.push({ id, startedAt, durationMs, size: size ?? blob.size });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * The segments past the retention limits, from `segments` oldest first:
+ * anything older than `maxHours`, then the oldest ones until the rest fit
+ * in `maxMegabytes` and in the browser's quota.
+ */
+export function selectExpiredSegments(
+  segments: SegmentEntry[],
+  settings: ContinuousRecordingSettings,
+  estimate: StorageEstimate | null,
+  now: number
+) {
+  const total = segments.reduce((sum, segment) => sum + segment.size, 0);
+
+  let limit = settings.maxMegabytes * MEGABYTE;
+  // Past the quota share, recordings give up what the app is over by
+  if (estimate?.quota && estimate.usage !== undefined) {
+    limit = Math.min(limit, Math.max(0, total + estimate.quota * QUOTA_SHARE - estimate.usage));
+  }
+
+  const cutoff = now - settings.maxHours * HOUR_MS;
+  let kept = total;
+  return segments.filter(segment => {
+    if (segment.startedAt + segment.durationMs >= cutoff && kept <= limit) return false;
+    kept -= segment.size;
+    return true;
+  });
+}
+
+/** Deletes the segments past the retention limits. Resolves with the number deleted. */
+export async function applyRetention(settings: ContinuousRecordingSettings, now = Date.now()) {
+  const estimate = await estimateStorage();
+  return withStore(RECORDING_STORE, 'readwrite', async store => {
+    const expired = selectExpiredSegments(await readEntries(store), settings, estimate, now);
+    expired.forEach(segment => store.delete(segment.id));
+    return expired.length;
+  });
+}
+
+export async function getRecordingUsage(): Promise<RecordingUsage> {
+  const [segments, estimate] = await Promise.all([
+    withStore(RECORDING_STORE, 'readonly', readEntries),
+    estimateStorage()
+  ]);
+  return {
+    segments: segments.length,
+    bytes: segments.reduce((sum, segment) => sum + segment.size, 0),
+    durationMs: segments.reduce((sum, segment) => sum + segment.durationMs, 0),
+    storageUsed: estimate?.usage ?? null,
+    storageQuota: estimate?.quota ?? null
+  };
+}
+
+export const clearRecordings = () => withStore(RECORDING_STORE, 'readwrite', store => requestToPromise(store.clear()));
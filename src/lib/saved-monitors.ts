@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import type { MotionRegion } from '@/lib/motion-detector';
+import { motionRegionSchema, parseWithSchema } from '@/lib/signaling';
+
+// Baby monitors this parent has paired with, newest pairing last
+const SAVED_MONITORS_KEY = 'zoyaPairedMonitors';
+
+export const savedMonitorSchema = z.object({
+  deviceId: z.string().min(1),
+  name: z.string(),
+  // Last address the monitor was reached at; it can change between sessions
+  address: z.string(),
+  port: z.number().int().positive(),
+  key: z.string(),
+  pairedAt: z.number(),
+  lastConnectedAt: z.number().optional(),
+  // Motion zones last drawn for this monitor
+  motionRegions: z.array(motionRegionSchema).optional()
+});
+
+export type SavedMonitor = z.infer<typeof savedMonitorSchema>;
+
+const writeSavedMonitors = (monitors: SavedMonitor[]) => {
+  localStorage.setItem(SAVED_MONITORS_KEY, JSON.stringify(monitors));
+};
+
+export const getSavedMonitors = (): SavedMonitor[] => {
+  const stored = localStorage.getItem(SAVED_MONITORS_KEY);
+  if (!stored) return [];
+  try {
+    return parseWithSchema(z.array(savedMonitorSchema), stored, 'saved monitors');
+  } catch (error) {
+    console.warn('Discarding invalid saved monitors:', error.message);
+    return [];
+  }
+};
+
+/** Finds a saved monitor by id, or by address for manual entries. */
+export const findSavedMonitor = (deviceId: string | undefined, address?: string, port?: number) =>
+  getSavedMonitors().find(monitor =>
+    deviceId ? monitor.deviceId === deviceId : monitor.address === address && monitor.port === port
+  ) ?? null;
+
+/** Adds a monitor, replacing any earlier pairing with the same device. */
+export const saveMonitor = (monitor: SavedMonitor) => {
+  writeSavedMonitors([...getSavedMonitors().filter(m => m.deviceId !== monitor.deviceId), monitor]);
+};
+
+const updateSavedMonitor = (deviceId: string, changes: Partial<SavedMonitor>) => {
+  writeSavedMonitors(getSavedMonitors().map(m => (m.deviceId === deviceId ? { ...m, ...changes } : m)));
+};
+
+export const markMonitorConnected = (deviceId: string, address: string, port: number) => {
+  updateSavedMonitor(deviceId, { address, port, lastConnectedAt: Date.now() });
+};
+
+export const renameSavedMonitor = (deviceId: string, name: string) => {
+  updateSavedMonitor(deviceId, { name });
+};
+
+export const saveMonitorRegions = (deviceId: string, motionRegions: MotionRegion[]) => {
+  updateSavedMonitor(deviceId, { motionRegions });
+};
+
+export const forgetSavedMonitor = (deviceId: string) => {
+  writeSavedMonitors(getSavedMonitors().filter(m => m.deviceId !== deviceId));
+};
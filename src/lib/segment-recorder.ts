@@ -0,0 +1,69 @@
+/**
+ * Continuous recording on the baby device, cut into segments. Each segment
+ * has its own MediaRecorder so every stored file plays on its own. The next
+ * recorder starts just before the previous one stops, so no footage is lost
+ * between segments.
+ */
+
+import { pickRecordingMimeType } from '@/lib/clip-recorder';
+
+export interface RecordedSegment {
+  blob: Blob;
+  mimeType: string;
+  startedAt: number;
+  durationMs: number;
+}
+
+export interface SegmentRecorder {
+  // Saves the segment in progress and stops recording
+  stop: () => void;
+}
+
+// Recorder chunks are collected this often so stopping loses little
+const TIMESLICE_MS = 1000;
+
+export function createSegmentRecorder(
+  stream: MediaStream,
+  segmentMs: number,
+  onSegment: (segment: RecordedSegment) => void
+): SegmentRecorder {
+  const mimeType = pickRecordingMimeType();
+  if (mimeType === null) {
+    throw new Error('MediaRecorder is not available');
+  }
+
+  let current: MediaRecorder | null = null;
+
+  const startSegment = () => {
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      const type = recorder.mimeType || mimeType || 'video/webm';
+      if (chunks.length === 0) return;
+      onSegment({ blob: new Blob(chunks, { type }), mimeType: type, startedAt, durationMs: Date.now() - startedAt });
+    };
+    recorder.start(TIMESLICE_MS);
+    return recorder;
+  };
+
+  const rotate = () => {
+    const previous = current;
+    current = startSegment();
+    previous?.stop();
+  };
+
+  rotate();
+  const interval = setInterval(rotate, segmentMs);
+
+  return {
+    stop: () => {
+      clearInterval(interval);
+      if (current && current.state !== 'inactive') current.stop();
+      current = null;
+    }
+  };
+}
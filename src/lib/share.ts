@@ -0,0 +1,25 @@
+/**
+ * Shares a file through the system share sheet where files can be shared,
+ * and downloads it otherwise.
+ */
+export async function shareFile(blob: Blob, fileName: string, title: string) {
+  const file = new File([blob], fileName, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return;
+    } catch (error) {
+      // Closing the share sheet isn't a failure
+      if (error.name === 'AbortError') return;
+      // Sharing needs a recent tap, which a long download outlives; download instead
+      if (error.name !== 'NotAllowedError') throw error;
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
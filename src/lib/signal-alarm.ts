@@ -0,0 +1,55 @@
+import { Haptics } from '@capacitor/haptics';
+
+const SETTINGS_KEY = 'zoyaSignalAlarmSeconds';
+const BEEP_INTERVAL_MS = 1000;
+const BEEP_DURATION_S = 0.4;
+
+export const DEFAULT_SIGNAL_TIMEOUT_S = 10;
+export const SIGNAL_TIMEOUT_OPTIONS = [5, 10, 20, 30, 60];
+
+/** Seconds without media or heartbeat before the loss-of-signal alarm sounds. */
+export const getSignalTimeout = () => {
+  const stored = Number(localStorage.getItem(SETTINGS_KEY));
+  return SIGNAL_TIMEOUT_OPTIONS.includes(stored) ? stored : DEFAULT_SIGNAL_TIMEOUT_S;
+};
+
+export const setSignalTimeout = (seconds: number) => {
+  localStorage.setItem(SETTINGS_KEY, String(seconds));
+};
+
+/** Beeps and vibrates once a second until the returned function is called. */
+export function startAlarm(): () => void {
+  const AudioContextClass = window.AudioContext ??
+    (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  let context: AudioContext | null = null;
+  try {
+    context = new AudioContextClass();
+  } catch (error) {
+    console.log('Alarm sound not available:', error);
+  }
+
+  const beep = () => {
+    if (context) {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'square';
+      oscillator.frequency.value = 880;
+      gain.gain.value = 0.3;
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start();
+      oscillator.stop(context.currentTime + BEEP_DURATION_S);
+    }
+
+    Haptics.vibrate({ duration: BEEP_DURATION_S * 1000 }).catch(error => {
+      console.log('Haptics not available:', error);
+    });
+  };
+
+  beep();
+  const interval = setInterval(beep, BEEP_INTERVAL_MS);
+
+  return () => {
+    clearInterval(interval);
+    context?.close();
+  };
+}
@@ -0,0 +1,319 @@
+import { z } from 'zod';
+import { parseWithSchema, SIGNALING_PROTOCOL_VERSION } from './protocol';
+
+/**
+ * Messages sent directly between a parent and the baby monitor over an
+ * RTCDataChannel, once the peer connection is up. The channel is negotiated
+ * (both sides create it with the same id) so neither waits for the other.
+ *
+ * Parents control the baby monitor with `command` messages; the baby answers
+ * each one with an `ack` carrying the same id. Everything else is a one-way
+ * event.
+ */
+
+export const PEER_CHANNEL_LABEL = 'zoya-control';
+const PEER_CHANNEL_ID = 0;
+const COMMAND_TIMEOUT_MS = 10000;
+// Most chunks one clip download may take; about 22 MB of video
+export const MAX_CLIP_CHUNKS = 2000;
+// Base64 characters per data channel message; well under the 16 KiB every browser accepts
+export const SNAPSHOT_CHUNK_SIZE = 15000;
+// About 3 MB of JPEG, far more than a 720p still needs
+export const MAX_SNAPSHOT_CHUNKS = 256;
+
+// Names both sides must agree on. soothing-player.ts, video-quality.ts and
+// clip-recorder.ts build on them.
+export const SOOTHING_SOUNDS = ['white', 'pink', 'brown', 'lullaby'] as const;
+export type SoothingSound = typeof SOOTHING_SOUNDS[number];
+
+export const QUALITY_PROFILES = ['data-saver', 'standard', 'hd'] as const;
+export type QualityProfile = typeof QUALITY_PROFILES[number];
+
+export const QUALITY_MODES = ['auto', ...QUALITY_PROFILES] as const;
+export type QualityMode = typeof QUALITY_MODES[number];
+
+// Why the baby device recorded a clip
+export const CLIP_REASONS = ['noise', 'motion'] as const;
+export type ClipReason = typeof CLIP_REASONS[number];
+
+/** What parents see in the clip list; everything but the video. */
+export interface ClipInfo {
+  id: string;
+  mimeType: string;
+  startedAt: number;
+  durationMs: number;
+  reason: ClipReason;
+  eventAt: number;
+  size: number;
+}
+
+/** Announces a clip download; `count` clip-chunk messages with its id follow. */
+export interface ClipTransfer {
+  id: string;
+  count: number;
+  mimeType: string;
+  size: number;
+}
+
+const versionSchema = z.literal(SIGNALING_PROTOCOL_VERSION);
+
+export const peerCommandSchema = z.discriminatedUnion('name', [
+  z.object({ name: z.literal('set-camera'), enabled: z.boolean() }),
+  z.object({ name: z.literal('set-mic'), enabled: z.boolean() }),
+  // Without a deviceId, switch to the next camera
+  z.object({ name: z.literal('switch-camera'), deviceId: z.string().optional() }),
+  z.object({ name: z.literal('request-snapshot') }),
+  // Video quality for the requesting parent only
+  z.object({ name: z.literal('set-quality'), mode: z.enum(QUALITY_MODES) }),
+  // Recorded event clips: the list, or one clip streamed as `clip-chunk` messages
+  z.object({ name: z.literal('list-clips') }),
+  z.object({ name: z.literal('get-clip'), id: z.string().min(1) })
+]);
+
+export type PeerCommand = z.infer<typeof peerCommandSchema>;
+
+// `result` depends on the command; `error` explains a refusal
+const peerAckSchema = z.object({
+  v: versionSchema,
+  type: z.literal('ack'),
+  id: z.string().min(1),
+  ok: z.boolean(),
+  error: z.string().optional(),
+  result: z.unknown().optional()
+});
+
+export type PeerAck = z.infer<typeof peerAckSchema>;
+
+// Ack results, for the commands that have one. Pass them to `send`.
+
+// `request-snapshot`: the id of the snapshot chunks sent ahead of the ack
+export const snapshotResultSchema = z.object({
+  id: z.string().min(1),
+  width: z.number().int().positive(),
+  height: z.number().int().positive()
+});
+
+// `list-clips`: the recorded clips, newest first
+export const clipListResultSchema = z.object({
+  clips: z.array(z.object({
+    id: z.string().min(1),
+    mimeType: z.string(),
+    startedAt: z.number(),
+    durationMs: z.number().min(0),
+    reason: z.enum(CLIP_REASONS),
+    eventAt: z.number(),
+    size: z.number().int().min(0)
+  }))
+}) as z.ZodType<{ clips: ClipInfo[] }>;
+
+// `get-clip`: the transfer that the clip chunks after the ack belong to
+export const clipTransferResultSchema = z.object({
+  id: z.string().min(1),
+  count: z.number().int().min(1).max(MAX_CLIP_CHUNKS),
+  mimeType: z.string(),
+  size: z.number().int().min(0)
+}) as z.ZodType<ClipTransfer>;
+
+const peerTelemetrySchema = z.object({
+  v: versionSchema,
+  type: z.literal('telemetry'),
+  cameraEnabled: z.boolean(),
+  micEnabled: z.boolean(),
+  connectedParents: z.number().int().min(0),
+  // Cameras the baby device can switch between
+  cameraCount: z.number().int().min(0).optional(),
+  // 0..1, when the platform reports it
+  batteryLevel: z.number().min(0).max(1).optional(),
+  charging: z.boolean().optional()
+});
+
+export type PeerTelemetry = z.infer<typeof peerTelemetrySchema>;
+
+export const peerMessageSchema = z.discriminatedUnion('type', [
+  // Sound on the baby side crossed the noise threshold (start) or died down (end).
+  // Levels are in dBFS.
+  z.object({
+    v: versionSchema,
+    type: z.literal('noise'),
+    state: z.enum(['start', 'end']),
+    at: z.number(),
+    level: z.number(),
+    peak: z.number().optional(),
+    durationMs: z.number().optional()
+  }),
+  // Current sound level on the baby side in dBFS, sent a few times a second
+  z.object({ v: versionSchema, type: z.literal('sound-level'), at: z.number(), level: z.number() }),
+  // The camera picture changed; score is the fraction (0..1) of watched pixels that changed
+  z.object({ v: versionSchema, type: z.literal('motion'), at: z.number(), score: z.number().min(0).max(1) }),
+  // Parent to baby: push-to-talk pressed or released
+  z.object({ v: versionSchema, type: z.literal('talk'), active: z.boolean() }),
+  // Parent to baby: change the soothing sound player; unset fields are left alone
+  z.object({
+    v: versionSchema,
+    type: z.literal('soothe'),
+    sound: z.enum(SOOTHING_SOUNDS).nullable().optional(),
+    volume: z.number().min(0).max(1).optional(),
+    timerMinutes: z.number().positive().nullable().optional()
+  }),
+  // Baby to parent: what the player is doing. The timer is sent as time left
+  // because the two clocks don't agree.
+  z.object({
+    v: versionSchema,
+    type: z.literal('soothe-state'),
+    sound: z.enum(SOOTHING_SOUNDS).nullable(),
+    volume: z.number().min(0).max(1),
+    timerRemainingMs: z.number().nullable()
+  }),
+  // Baby to parent: the quality profile in use for this parent, and the mode that picked it
+  z.object({
+    v: versionSchema,
+    type: z.literal('quality'),
+    mode: z.enum(QUALITY_MODES),
+    profile: z.enum(QUALITY_PROFILES)
+  }),
+  // Baby to parent: one piece of a base64 JPEG answering `request-snapshot`.
+  // All pieces arrive before the ack, which carries the snapshot id.
+  z.object({
+    v: versionSchema,
+    type: z.literal('snapshot-chunk'),
+    id: z.string().min(1),
+    index: z.number().int().min(0),
+    count: z.number().int().min(1).max(MAX_SNAPSHOT_CHUNKS),
+    data: z.string().max(SNAPSHOT_CHUNK_SIZE)
+  }),
+  // Baby to parent: one piece of a base64 clip. Unlike snapshots, these follow
+  // the ack, which announces the transfer id and chunk count.
+  z.object({
+    v: versionSchema,
+    type: z.literal('clip-chunk'),
+    id: z.string().min(1),
+    index: z.number().int().min(0).max(MAX_CLIP_CHUNKS - 1),
+    data: z.string().max(SNAPSHOT_CHUNK_SIZE)
+  }),
+  z.object({ v: versionSchema, type: z.literal('command'), id: z.string().min(1), command: peerCommandSchema }),
+  peerAckSchema,
+  // Baby to parent: device status, sent on change and every so often
+  peerTelemetrySchema
+]);
+
+export type PeerMessage = z.infer<typeof peerMessageSchema>;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+export type PeerPayload = DistributiveOmit<PeerMessage, 'v'>;
+
+/** Creates the control channel; call before the offer or answer is created. */
+export const openPeerChannel = (peerConnection: RTCPeerConnection) =>
+  peerConnection.createDataChannel(PEER_CHANNEL_LABEL, { negotiated: true, id: PEER_CHANNEL_ID });
+
+/** Sends `payload` if the channel is open; returns whether it was sent. */
+export const sendPeerMessage = (channel: RTCDataChannel | null | undefined, payload: PeerPayload) => {
+  if (channel?.readyState !== 'open') return false;
+  channel.send(JSON.stringify({ v: SIGNALING_PROTOCOL_VERSION, ...payload }));
+  return true;
+};
+
+/**
+ * Resolves once the channel's send buffer drops to `limit` bytes, so large
+ * transfers don't pile up in memory. Rejects if the channel closes.
+ */
+export const waitForBufferedAmount = (channel: RTCDataChannel, limit: number) =>
+  new Promise<void>((resolve, reject) => {
+    if (channel.readyState !== 'open') {
+      reject(new Error('Control channel closed'));
+      return;
+    }
+    if (channel.bufferedAmount <= limit) {
+      resolve();
+      return;
+    }
+    const cleanup = () => {
+      channel.removeEventListener('bufferedamountlow', handleLow);
+      channel.removeEventListener('close', handleClose);
+    };
+    const handleLow = () => {
+      cleanup();
+      resolve();
+    };
+    const handleClose = () => {
+      cleanup();
+      reject(new Error('Control channel closed'));
+    };
+    channel.bufferedAmountLowThreshold = limit;
+    channel.addEventListener('bufferedamountlow', handleLow);
+    channel.addEventListener('close', handleClose);
+  });
+
+export const parsePeerMessage = (data: unknown) =>
+  parseWithSchema(peerMessageSchema, data, 'peer message', { versioned: true });
+
+// Refused or unanswered commands on the parent side
+export class PeerCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PeerCommandError';
+  }
+}
+
+/**
+ * Parent side of the command protocol: sends commands and matches acks to
+ * them. Pass every `ack` message to `handleAck`. With a `resultSchema`,
+ * `send` resolves to the parsed result, and an ack whose result doesn't
+ * match rejects like a refused command.
+ */
+export function createCommandSender(getChannel: () => RTCDataChannel | null) {
+  const pending = new Map<string, {
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+  }>();
+
+  const send = <T = unknown>(command: PeerCommand, resultSchema?: z.ZodType<T>) =>
+    new Promise<T>((resolve, reject) => {
+      const id = crypto.randomUUID();
+      if (!sendPeerMessage(getChannel(), { type: 'command', id, command })) {
+        reject(new PeerCommandError('Not connected to the baby monitor'));
+        return;
+      }
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new PeerCommandError('Baby monitor did not answer in time'));
+      }, COMMAND_TIMEOUT_MS);
+      const settle = (result: unknown) => {
+        if (!resultSchema) {
+          resolve(result as T);
+          return;
+        }
+        try {
+          resolve(parseWithSchema(resultSchema, result, `${command.name} result`));
+        } catch (error) {
+          reject(new PeerCommandError(error.message));
+        }
+      };
+      pending.set(id, { resolve: settle, reject, timer });
+    });
+
+  const handleAck = (ack: PeerAck) => {
+    const request = pending.get(ack.id);
+    if (!request) return;
+    pending.delete(ack.id);
+    clearTimeout(request.timer);
+    if (ack.ok) {
+      request.resolve(ack.result);
+    } else {
+      request.reject(new PeerCommandError(ack.error ?? 'Command refused'));
+    }
+  };
+
+  // Fail everything still waiting, e.g. when the session closes
+  const cancelAll = () => {
+    pending.forEach(request => {
+      clearTimeout(request.timer);
+      request.reject(new PeerCommandError('Connection closed'));
+    });
+    pending.clear();
+  };
+
+  return { send, handleAck, cancelAll };
+}
+
+export type CommandSender = ReturnType<typeof createCommandSender>;
@@ -0,0 +1,432 @@
+import { Capacitor } from '@capacitor/core';
+import {
+  candidatesResponseSchema,
+  createSignalingMessage,
+  errorResponseSchema,
+  offerResponseSchema,
+  pairResponseSchema,
+  parseSignalingMessage,
+  parseWithSchema,
+  SIGNALING_PROTOCOL_VERSION,
+  SignalingRejectedError,
+  type MotionRegion,
+  type PairedDevice,
+  type PairingHandshake,
+  type SignalingMessage,
+  type SignalingPayload
+} from './protocol';
+import { signSessionRequest, type SessionRequestType } from './pairing';
+
+const SOCKET_OPEN_TIMEOUT_MS = 3000;
+const ANSWER_TIMEOUT_MS = 15000;
+const CANDIDATE_POLL_INTERVAL_MS = 1000;
+// Long enough for ICE gathering to finish after an offer/answer exchange
+const CANDIDATE_POLL_DURATION_MS = 15000;
+
+export interface SignalingClientHandlers {
+  /** Signs outgoing offers for a paired baby monitor (see pairing.ts). */
+  authenticate?: (offer: RTCSessionDescriptionInit) => Promise<string>;
+  /** The session key the baby monitor derives from an answered offer. */
+  deriveSessionKey?: (offer: RTCSessionDescriptionInit) => Promise<string>;
+  onIceCandidate: (candidate: RTCIceCandidateInit) => void;
+  onBye: (reason?: string) => void;
+}
+
+export interface SignalingClient {
+  transport: 'websocket' | 'http';
+  sendOffer: (offer: RTCSessionDescriptionInit, renegotiate?: boolean) => Promise<RTCSessionDescriptionInit>;
+  pair: (request: PairingHandshake) => Promise<PairedDevice & PairingHandshake>;
+  sendIceCandidate: (candidate: RTCIceCandidateInit) => void;
+  sendMotionRegions: (regions: MotionRegion[]) => Promise<void>;
+  close: () => void;
+}
+
+// Access the Capacitor HTTP plugin if available
+interface HttpLike {
+  post: (options: { url: string; data?: unknown; headers?: Record<string, string> }) => Promise<{ data: unknown; status: number }>;
+  get: (options: { url: string }) => Promise<{ data: unknown; status: number }>;
+}
+
+const getHttp = (): HttpLike | null => {
+  if (!Capacitor.isNativePlatform()) return null;
+  const cap = Capacitor as unknown as { Plugins?: { Http?: HttpLike } };
+  return cap.Plugins?.Http ?? null;
+};
+
+const safeJsonParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+// Response bodies are returned undecoded and validated by the caller, so a
+// bad response surfaces as a SignalingProtocolError rather than a JSON crash
+const httpPost = async (url: string, data: unknown) => {
+  const plugin = getHttp();
+  if (plugin) {
+    return plugin.post({ url, data, headers: { 'Content-Type': 'application/json' } });
+  }
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    },
+    body: JSON.stringify(data),
+    mode: 'cors'
+  });
+  return { data: await res.text(), status: res.status };
+};
+
+const httpGet = async (url: string) => {
+  const plugin = getHttp();
+  if (plugin) {
+    return plugin.get({ url });
+  }
+  const res = await fetch(url);
+  return { data: await res.text(), status: res.status };
+};
+
+/**
+ * Signs requests within a session. ICE candidates gathered before the answer
+ * arrives are held back until the session starts.
+ */
+const createSession = (parentId: string, sendCandidate: (candidate: RTCIceCandidateInit) => void) => {
+  let key: string | null = null;
+  let seq = 0;
+  let heldCandidates: RTCIceCandidateInit[] = [];
+
+  return {
+    isActive: () => key !== null,
+    start: (sessionKey: string) => {
+      key = sessionKey;
+      seq = 0;
+      heldCandidates.splice(0).forEach(sendCandidate);
+    },
+    end: () => {
+      key = null;
+      heldCandidates = [];
+    },
+    // Candidates before the session starts are kept for it
+    hold: (candidate: RTCIceCandidateInit) => {
+      if (key === null) {
+        heldCandidates.push(candidate);
+        return true;
+      }
+      return false;
+    },
+    sign: async (type: SessionRequestType) => {
+      if (key === null) {
+        throw new Error('Not connected to the baby monitor');
+      }
+      seq += 1;
+      const current = seq;
+      return { seq: current, auth: await signSessionRequest(key, type, parentId, current) };
+    }
+  };
+};
+
+// Starts a session once the baby monitor has answered the first offer
+const startSessionFor = async (
+  session: ReturnType<typeof createSession>,
+  handlers: SignalingClientHandlers,
+  offer: RTCSessionDescriptionInit,
+  renegotiate: boolean
+) => {
+  if (!renegotiate && handlers.deriveSessionKey) {
+    session.start(await handlers.deriveSessionKey(offer));
+  }
+};
+
+const connectWebSocket = async (
+  baseUrl: string,
+  parentId: string,
+  handlers: SignalingClientHandlers
+): Promise<SignalingClient> => {
+  const url = `${baseUrl.replace(/^http/, 'ws')}/webrtc/ws?parentId=${encodeURIComponent(parentId)}`;
+  let socket: WebSocket | null = null;
+  let reopening: Promise<WebSocket> | null = null;
+  let pendingReply: {
+    type: 'answer' | 'paired';
+    resolve: (message: SignalingMessage) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  let closedByUs = false;
+
+  const handleMessage = (event: MessageEvent) => {
+    let message: SignalingMessage;
+    try {
+      message = parseSignalingMessage(event.data);
+    } catch (error) {
+      console.error('Rejected message from baby monitor:', error.message);
+      // An incompatible baby monitor will never answer, so fail fast
+      if (pendingReply && error.code === 'incompatible') {
+        pendingReply.reject(error);
+        pendingReply = null;
+      }
+      return;
+    }
+
+    switch (message.type) {
+      case 'answer':
+      case 'paired':
+        if (pendingReply?.type === message.type) {
+          pendingReply.resolve(message);
+          pendingReply = null;
+        }
+        break;
+      case 'error':
+        if (pendingReply) {
+          pendingReply.reject(new SignalingRejectedError(message.message, message.code));
+          pendingReply = null;
+        } else {
+          console.error('Signaling error from baby monitor:', message.message);
+        }
+        break;
+      case 'ice-candidate':
+        handlers.onIceCandidate(message.candidate);
+        break;
+      case 'bye':
+        handlers.onBye(message.reason);
+        break;
+      default:
+        console.log('Ignoring unexpected signaling message:', message.type);
+    }
+  };
+
+  const openSocket = () =>
+    new Promise<WebSocket>((resolve, reject) => {
+      const next = new WebSocket(url);
+      const openTimer = setTimeout(() => {
+        next.close();
+        reject(new Error('Timed out opening signaling socket'));
+      }, SOCKET_OPEN_TIMEOUT_MS);
+
+      next.onmessage = handleMessage;
+      next.onerror = () => {
+        clearTimeout(openTimer);
+        reject(new Error('Could not open signaling socket'));
+      };
+      next.onclose = () => {
+        // Sockets that never opened, or were replaced, don't count
+        if (socket !== next) return;
+        pendingReply?.reject(new Error('Signaling socket closed'));
+        pendingReply = null;
+        if (!closedByUs) {
+          handlers.onBye('Signaling socket closed');
+        }
+      };
+      next.onopen = () => {
+        clearTimeout(openTimer);
+        socket = next;
+        resolve(next);
+      };
+    });
+
+  // A dropped socket is reopened for the next message. The server keeps the
+  // session for a while, so signed requests carry on over the new one.
+  const ensureOpen = async () => {
+    if (socket?.readyState === WebSocket.OPEN) return socket;
+    if (closedByUs) {
+      throw new Error('Signaling channel closed');
+    }
+    reopening ??= openSocket().finally(() => {
+      reopening = null;
+    });
+    return reopening;
+  };
+
+  const encode = (message: SignalingPayload) => JSON.stringify(createSignalingMessage(message));
+
+  const send = async (message: SignalingPayload) => {
+    (await ensureOpen()).send(encode(message));
+  };
+
+  const sendCandidate = (candidate: RTCIceCandidateInit) => {
+    session.sign('ice-candidate')
+      .then(auth => send({ type: 'ice-candidate', candidate, ...auth }))
+      .catch(error => console.error('Failed to send ICE candidate:', error));
+  };
+  const session = createSession(parentId, sendCandidate);
+
+  // Send a message and wait for the baby monitor's reply to it
+  const request = (type: 'answer' | 'paired', message: SignalingPayload) =>
+    new Promise<SignalingMessage>((resolveReply, rejectReply) => {
+      pendingReply?.reject(new Error('Superseded by a newer request'));
+      const timer = setTimeout(() => {
+        pendingReply = null;
+        rejectReply(new Error('Baby monitor did not answer in time'));
+      }, ANSWER_TIMEOUT_MS);
+      const reply = {
+        type,
+        resolve: (message: SignalingMessage) => {
+          clearTimeout(timer);
+          resolveReply(message);
+        },
+        reject: (error: Error) => {
+          clearTimeout(timer);
+          rejectReply(error);
+        }
+      };
+      pendingReply = reply;
+      // Without a socket there is no point waiting for the answer
+      send(message).catch(error => {
+        if (pendingReply === reply) pendingReply = null;
+        reply.reject(error);
+      });
+    });
+
+  await openSocket();
+
+  return {
+    transport: 'websocket',
+    sendOffer: async (offer, renegotiate = false) => {
+      const auth = await handlers.authenticate?.(offer);
+      const reply = await request('answer', { type: renegotiate ? 'renegotiate' : 'offer', offer, auth });
+      await startSessionFor(session, handlers, offer, renegotiate);
+      return reply.type === 'answer' ? reply.answer : undefined;
+    },
+    pair: async ({ publicKey, proof }) => {
+      const reply = await request('paired', { type: 'pair', publicKey, proof });
+      return reply.type === 'paired'
+        ? { deviceId: reply.deviceId, name: reply.name, publicKey: reply.publicKey, proof: reply.proof }
+        : undefined;
+    },
+    sendIceCandidate: (candidate) => {
+      if (!session.hold(candidate)) sendCandidate(candidate);
+    },
+    sendMotionRegions: async (regions) => send({ type: 'motion-regions', regions, ...await session.sign('motion-regions') }),
+    close: () => {
+      if (closedByUs) return;
+      closedByUs = true;
+      if (!session.isActive()) {
+        socket?.close();
+        return;
+      }
+      // Without a socket the server says bye itself once the session times out
+      session.sign('bye')
+        .then(auth => {
+          if (socket?.readyState === WebSocket.OPEN) socket.send(encode({ type: 'bye', ...auth }));
+        })
+        .catch(error => console.error('Failed to send bye:', error))
+        .finally(() => {
+          session.end();
+          socket?.close();
+        });
+    }
+  };
+};
+
+const toRejectedError = (res: { data: unknown; status: number }) => {
+  const body = errorResponseSchema.safeParse(typeof res.data === 'string' ? safeJsonParse(res.data) : res.data);
+  return body.success
+    ? new SignalingRejectedError(`HTTP ${res.status}: ${body.data.error}`, body.data.code)
+    : new SignalingRejectedError(`HTTP ${res.status}: No answer from baby monitor`);
+};
+
+// Fallback for hosts that can't hold sockets: HTTP requests plus candidate polling
+const connectHttp = (baseUrl: string, parentId: string, handlers: SignalingClientHandlers): SignalingClient => {
+  let pollInterval: ReturnType<typeof setInterval> | null = null;
+  let pollUntil = 0;
+  let closed = false;
+
+  const stopPolling = () => {
+    if (pollInterval) {
+      clearInterval(pollInterval);
+      pollInterval = null;
+    }
+  };
+
+  const sendCandidate = (candidate: RTCIceCandidateInit) => {
+    session.sign('ice-candidate')
+      .then(auth => httpPost(`${baseUrl}/webrtc/ice-candidate`, { v: SIGNALING_PROTOCOL_VERSION, parentId, candidate, ...auth }))
+      .catch(error => console.error('Failed to send ICE candidate:', error));
+  };
+  const session = createSession(parentId, sendCandidate);
+
+  const pollForCandidates = async () => {
+    if (Date.now() > pollUntil) {
+      stopPolling();
+      return;
+    }
+    try {
+      const { seq, auth } = await session.sign('get-candidates');
+      const res = await httpGet(
+        `${baseUrl}/webrtc/get-candidates/${encodeURIComponent(parentId)}?seq=${seq}&auth=${encodeURIComponent(auth)}`
+      );
+      if (res.status === 200) {
+        const { candidates } = parseWithSchema(candidatesResponseSchema, res.data, 'candidates response');
+        candidates.forEach(candidate => handlers.onIceCandidate(candidate));
+      }
+    } catch (error) {
+      console.error('Failed to poll for ICE candidates:', error);
+    }
+  };
+
+  return {
+    transport: 'http',
+    sendOffer: async (offer, renegotiate = false) => {
+      const auth = await handlers.authenticate?.(offer);
+      const res = await httpPost(`${baseUrl}/webrtc/offer`, { v: SIGNALING_PROTOCOL_VERSION, parentId, offer, renegotiate, auth });
+      if (res.status !== 200) {
+        throw toRejectedError(res);
+      }
+      const { answer } = parseWithSchema(offerResponseSchema, res.data, 'offer response');
+      await startSessionFor(session, handlers, offer, renegotiate);
+
+      // Poll for the baby monitor's ICE candidates while gathering completes
+      pollUntil = Date.now() + CANDIDATE_POLL_DURATION_MS;
+      if (!pollInterval && !closed) {
+        pollInterval = setInterval(pollForCandidates, CANDIDATE_POLL_INTERVAL_MS);
+      }
+
+      return answer;
+    },
+    pair: async ({ publicKey, proof }) => {
+      const res = await httpPost(`${baseUrl}/webrtc/pair`, { v: SIGNALING_PROTOCOL_VERSION, parentId, publicKey, proof });
+      if (res.status !== 200) {
+        throw toRejectedError(res);
+      }
+      return parseWithSchema(pairResponseSchema, res.data, 'pair response');
+    },
+    sendIceCandidate: (candidate) => {
+      if (!session.hold(candidate)) sendCandidate(candidate);
+    },
+    sendMotionRegions: async (regions) => {
+      const auth = await session.sign('motion-regions');
+      const res = await httpPost(`${baseUrl}/webrtc/motion-regions`, { v: SIGNALING_PROTOCOL_VERSION, parentId, regions, ...auth });
+      if (res.status !== 200) {
+        throw toRejectedError(res);
+      }
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      stopPolling();
+      if (!session.isActive()) return;
+      session.sign('bye')
+        .then(auth => httpPost(`${baseUrl}/webrtc/bye`, { v: SIGNALING_PROTOCOL_VERSION, parentId, ...auth }))
+        .catch(error => console.error('Failed to send bye:', error))
+        .finally(() => session.end());
+    }
+  };
+};
+
+/**
+ * Opens a signaling channel to a baby monitor's signaling server, preferring
+ * a WebSocket and falling back to HTTP polling when one can't be opened.
+ */
+export async function connectSignaling(
+  baseUrl: string,
+  parentId: string,
+  handlers: SignalingClientHandlers
+): Promise<SignalingClient> {
+  try {
+    return await connectWebSocket(baseUrl, parentId, handlers);
+  } catch (error) {
+    console.log('WebSocket signaling unavailable, falling back to HTTP polling:', error);
+    return connectHttp(baseUrl, parentId, handlers);
+  }
+}
@@ -0,0 +1,124 @@
+import type { PluginListenerHandle } from '@capacitor/core';
+import { getSignalingUrl, hasNodeJSRuntime } from './host';
+import { discoveredServiceSchema, parseWithSchema, type DiscoveredService } from './protocol';
+
+const BROWSE_POLL_INTERVAL_MS = 3000;
+
+export interface MonitorAdvertisement {
+  id: string;
+  name: string;
+  capabilities: string[];
+}
+
+const parseService = (data: unknown): DiscoveredService | null => {
+  try {
+    return parseWithSchema(discoveredServiceSchema, data, 'mDNS service');
+  } catch (error) {
+    console.warn('Ignoring mDNS service:', error.message);
+    return null;
+  }
+};
+
+/**
+ * Publishes this baby monitor as a `_zoya-monitor._tcp` service, through the
+ * bundled Node.js runtime or the standalone signaling server. Resolves to a
+ * function that withdraws the advertisement.
+ */
+export async function advertiseMonitor(advertisement: MonitorAdvertisement): Promise<() => void> {
+  if (hasNodeJSRuntime()) {
+    const { NodeJS } = await import('capacitor-nodejs');
+    NodeJS.send({ eventName: 'discovery:advertise', args: [advertisement] });
+    return () => {
+      NodeJS.send({ eventName: 'discovery:unadvertise', args: [] });
+    };
+  }
+
+  const baseUrl = getSignalingUrl();
+  const res = await fetch(`${baseUrl}/discovery/advertise`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(advertisement)
+  });
+  if (!res.ok) {
+    throw new Error(`mDNS advertising failed: ${res.status} ${res.statusText}`);
+  }
+
+  return () => {
+    fetch(`${baseUrl}/discovery/unadvertise`, { method: 'POST' }).catch(error => {
+      console.error('Failed to stop mDNS advertising:', error);
+    });
+  };
+}
+
+/**
+ * Browses for baby monitors over mDNS. `onUp` is called whenever a service
+ * is seen, including again while it keeps answering, and `onDown` when it
+ * leaves. Returns a function that stops browsing.
+ */
+export function browseMonitors(
+  onUp: (service: DiscoveredService) => void,
+  onDown: (service: DiscoveredService) => void
+): () => void {
+  if (hasNodeJSRuntime()) {
+    const listeners: PluginListenerHandle[] = [];
+    const ready = import('capacitor-nodejs').then(({ NodeJS }) => {
+      listeners.push(NodeJS.addListener('discovery:up', (event) => {
+        const service = parseService(event.args[0]);
+        if (service) onUp(service);
+      }));
+      listeners.push(NodeJS.addListener('discovery:down', (event) => {
+        const service = parseService(event.args[0]);
+        if (service) onDown(service);
+      }));
+      NodeJS.send({ eventName: 'discovery:browse', args: [] });
+      return NodeJS;
+    });
+
+    return () => {
+      ready.then(NodeJS => {
+        NodeJS.send({ eventName: 'discovery:stop-browse', args: [] });
+        listeners.forEach(listener => NodeJS.removeListener(listener));
+      });
+    };
+  }
+
+  // The standalone server keeps a list of services; poll it and report changes
+  const baseUrl = getSignalingUrl();
+  let known = new Map<string, DiscoveredService>();
+  let unavailable = false;
+
+  const poll = async () => {
+    try {
+      const res = await fetch(`${baseUrl}/discovery/services`);
+      if (!res.ok) {
+        // 501 means the server has no mDNS support; don't keep asking
+        unavailable = res.status === 501;
+        return;
+      }
+      const { services } = (await res.json()) as { services: unknown[] };
+      const current = new Map<string, DiscoveredService>();
+      services.map(parseService).filter(Boolean).forEach(service => {
+        current.set(service.name, service);
+        const previous = known.get(service.name);
+        if (!previous || previous.seenAt !== service.seenAt) onUp(service);
+      });
+      known.forEach((service, name) => {
+        if (!current.has(name)) onDown(service);
+      });
+      known = current;
+    } catch (error) {
+      console.log('mDNS browsing unavailable:', error);
+    }
+  };
+
+  poll();
+  const interval = setInterval(() => {
+    if (unavailable) {
+      clearInterval(interval);
+      return;
+    }
+    poll();
+  }, BROWSE_POLL_INTERVAL_MS);
+
+  return () => clearInterval(interval);
+}
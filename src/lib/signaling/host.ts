@@ -0,0 +1,276 @@
+import { Capacitor, type PluginListenerHandle } from '@capacitor/core';
+import {
+  createSignalingMessage,
+  parseSignalingMessage,
+  parseWithSchema,
+  signalingEnvelopeSchema,
+  SignalingProtocolError,
+  type MotionRegion,
+  type PairedDevice,
+  type PairingHandshake,
+  type SignalingEnvelope,
+  type SignalingMessage,
+  type SignalingPayload
+} from './protocol';
+
+// Must match DEFAULT_PORT in public/nodejs/signaling-server.js
+export const DEFAULT_SIGNALING_PORT = 8090;
+
+const READY_TIMEOUT_MS = 5000;
+const SOCKET_OPEN_TIMEOUT_MS = 3000;
+const POLL_RETRY_DELAY_MS = 2000;
+
+export interface SignalingHostHandlers {
+  /**
+   * Checks an offer's pairing signature and returns the session key for it,
+   * or null; unauthorized offers never reach onOffer.
+   */
+  authorize: (parentId: string, offer: RTCSessionDescriptionInit, auth?: string) => Promise<string | null>;
+  /** Checks a pairing request and returns this device's identity and half of the key exchange, or throws. */
+  onPair: (parentId: string, request: PairingHandshake) => Promise<PairedDevice & PairingHandshake>;
+  onOffer: (parentId: string, offer: RTCSessionDescriptionInit) => Promise<RTCSessionDescriptionInit>;
+  onRenegotiate: (parentId: string, offer: RTCSessionDescriptionInit) => Promise<RTCSessionDescriptionInit>;
+  // The signaling server only relays these within a session
+  onIceCandidate: (parentId: string, candidate: RTCIceCandidateInit) => void;
+  onBye: (parentId: string) => void;
+  /** Motion regions drawn by a parent. */
+  onMotionRegions: (parentId: string, regions: MotionRegion[]) => void;
+}
+
+export interface SignalingHost {
+  port: number;
+  transport: 'nodejs' | 'websocket' | 'http';
+  /** `sessionKey` rides along with the answer that starts a session and stays on the server. */
+  send: (parentId: string, message: SignalingPayload, sessionKey?: string) => void;
+  stop: () => void;
+}
+
+/** Base URL of the standalone signaling server on this machine. */
+export const getSignalingUrl = () =>
+  import.meta.env.VITE_SIGNALING_URL ?? `http://localhost:${DEFAULT_SIGNALING_PORT}`;
+
+/** Whether the app bundles the capacitor-nodejs runtime (native builds only). */
+export const hasNodeJSRuntime = () =>
+  Capacitor.isNativePlatform() && Capacitor.isPluginAvailable('NodeJS');
+
+// Validate a message from a parent and route it to the matching handler,
+// replying through `send`
+const dispatch = async (
+  handlers: SignalingHostHandlers,
+  send: SignalingHost['send'],
+  { parentId, message: data }: SignalingEnvelope
+) => {
+  let message: SignalingMessage;
+  try {
+    message = parseSignalingMessage(data);
+  } catch (error) {
+    console.error(`Rejected message from ${parentId}:`, error.message);
+    if (error instanceof SignalingProtocolError) {
+      send(parentId, { type: 'error', message: error.message });
+    }
+    return;
+  }
+
+  switch (message.type) {
+    case 'offer':
+    case 'renegotiate': {
+      const sessionKey = await handlers.authorize(parentId, message.offer, message.auth);
+      if (!sessionKey) {
+        console.log('Rejected offer from unpaired parent:', parentId);
+        send(parentId, { type: 'error', message: 'This parent is not paired with the baby monitor', code: 'unpaired' });
+        return;
+      }
+      try {
+        // A renegotiation stays in the session the first offer started
+        if (message.type === 'offer') {
+          send(parentId, { type: 'answer', answer: await handlers.onOffer(parentId, message.offer) }, sessionKey);
+        } else {
+          send(parentId, { type: 'answer', answer: await handlers.onRenegotiate(parentId, message.offer) });
+        }
+      } catch (error) {
+        console.error('Error answering offer:', error);
+        send(parentId, { type: 'error', message: error.message });
+      }
+      break;
+    }
+    case 'ice-candidate':
+      handlers.onIceCandidate(parentId, message.candidate);
+      break;
+    case 'bye':
+      handlers.onBye(parentId);
+      break;
+    case 'motion-regions':
+      handlers.onMotionRegions(parentId, message.regions);
+      break;
+    case 'pair':
+      try {
+        const device = await handlers.onPair(parentId, { publicKey: message.publicKey, proof: message.proof });
+        send(parentId, { type: 'paired', ...device });
+      } catch (error) {
+        console.log('Pairing failed for parent:', parentId, error.message);
+        send(parentId, { type: 'error', message: error.message, code: 'pairing-failed' });
+      }
+      break;
+    default:
+      console.log('Ignoring unexpected signaling message:', message.type);
+  }
+};
+
+// Signaling through the Node.js runtime bundled by capacitor-nodejs
+const startNodeJSHost = async (handlers: SignalingHostHandlers): Promise<SignalingHost> => {
+  const { NodeJS } = await import('capacitor-nodejs');
+  const listeners: PluginListenerHandle[] = [];
+
+  const port = await new Promise<number>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Timed out waiting for Node.js signaling server')), READY_TIMEOUT_MS);
+
+    listeners.push(NodeJS.addListener('signaling:ready', (event) => {
+      clearTimeout(timer);
+      resolve(event.args[0].port);
+    }));
+    listeners.push(NodeJS.addListener('signaling:error', (event) => {
+      clearTimeout(timer);
+      reject(new Error(event.args[0].message));
+    }));
+
+    // The Node.js process starts with the app, so ask for its status in case
+    // the initial ready message was sent before we subscribed.
+    NodeJS.send({ eventName: 'signaling:status', args: [] });
+  });
+
+  const send: SignalingHost['send'] = (parentId, message, sessionKey) => {
+    NodeJS.send({ eventName: 'signaling:send', args: [parentId, createSignalingMessage(message), sessionKey] });
+  };
+
+  listeners.push(NodeJS.addListener('signaling:message', (event) => {
+    const [parentId, message] = event.args as [string, unknown];
+    dispatch(handlers, send, { parentId, message });
+  }));
+
+  return {
+    port,
+    transport: 'nodejs',
+    send,
+    stop: () => {
+      listeners.forEach(listener => NodeJS.removeListener(listener));
+    }
+  };
+};
+
+const openSocket = (url: string) =>
+  new Promise<WebSocket>((resolve, reject) => {
+    const socket = new WebSocket(url);
+    const timer = setTimeout(() => {
+      socket.close();
+      reject(new Error('Timed out opening signaling socket'));
+    }, SOCKET_OPEN_TIMEOUT_MS);
+
+    socket.onopen = () => {
+      clearTimeout(timer);
+      resolve(socket);
+    };
+    socket.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error('Could not open signaling socket'));
+    };
+  });
+
+// Signaling through a standalone server on this machine (npm run signaling-server)
+const startStandaloneHost = async (handlers: SignalingHostHandlers): Promise<SignalingHost> => {
+  const baseUrl = getSignalingUrl();
+  const port = parseInt(new URL(baseUrl).port, 10) || DEFAULT_SIGNALING_PORT;
+
+  // Make sure the server is actually there before advertising it
+  const probe = await fetch(`${baseUrl}/webrtc/get-candidates/probe`).catch(() => null);
+  if (!probe?.ok) {
+    throw new Error(`Signaling server not reachable at ${baseUrl}`);
+  }
+
+  try {
+    const socket = await openSocket(`${baseUrl.replace(/^http/, 'ws')}/webrtc/host/ws`);
+
+    const send: SignalingHost['send'] = (parentId, message, sessionKey) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ parentId, message: createSignalingMessage(message), sessionKey }));
+      }
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        dispatch(handlers, send, parseWithSchema(signalingEnvelopeSchema, event.data, 'signaling envelope'));
+      } catch (error) {
+        console.error('Invalid message from signaling server:', error.message);
+      }
+    };
+    socket.onclose = () => {
+      console.log('Signaling host socket closed');
+    };
+
+    return {
+      port,
+      transport: 'websocket',
+      send,
+      stop: () => socket.close()
+    };
+  } catch (error) {
+    console.log('Signaling socket unavailable, falling back to HTTP polling:', error);
+  }
+
+  let stopped = false;
+  let pollController: AbortController | null = null;
+
+  const send: SignalingHost['send'] = (parentId, message, sessionKey) => {
+    fetch(`${baseUrl}/webrtc/host/message`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ parentId, message: createSignalingMessage(message), sessionKey })
+    }).catch(error => {
+      console.error(`Failed to send ${message.type} to parent:`, error);
+    });
+  };
+
+  const poll = async () => {
+    while (!stopped) {
+      try {
+        pollController = new AbortController();
+        const res = await fetch(`${baseUrl}/webrtc/host/events`, { signal: pollController.signal });
+        const { events } = (await res.json()) as { events: unknown[] };
+        events.forEach(event => {
+          try {
+            dispatch(handlers, send, parseWithSchema(signalingEnvelopeSchema, event, 'signaling envelope'));
+          } catch (error) {
+            console.error('Invalid event from signaling server:', error.message);
+          }
+        });
+      } catch (error) {
+        if (stopped) return;
+        console.error('Error polling signaling server:', error);
+        await new Promise(resolve => setTimeout(resolve, POLL_RETRY_DELAY_MS));
+      }
+    }
+  };
+
+  poll();
+
+  return {
+    port,
+    transport: 'http',
+    send,
+    stop: () => {
+      stopped = true;
+      pollController?.abort();
+    }
+  };
+};
+
+export async function startSignalingHost(handlers: SignalingHostHandlers): Promise<SignalingHost> {
+  if (hasNodeJSRuntime()) {
+    try {
+      return await startNodeJSHost(handlers);
+    } catch (error) {
+      console.log('Node.js signaling server not available:', error);
+    }
+  }
+
+  return startStandaloneHost(handlers);
+}
@@ -0,0 +1,9 @@
+export * from './protocol';
+export { startSignalingHost, getSignalingUrl, DEFAULT_SIGNALING_PORT } from './host';
+export type { SignalingHost, SignalingHostHandlers } from './host';
+export { connectSignaling } from './client';
+export type { SignalingClient, SignalingClientHandlers } from './client';
+export { advertiseMonitor, browseMonitors } from './discovery';
+export type { MonitorAdvertisement } from './discovery';
+export * from './pairing';
+export * from './channel';
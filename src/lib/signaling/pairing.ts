@@ -0,0 +1,249 @@
+import { z } from 'zod';
+import { parseWithSchema, SIGNALING_PROTOCOL_VERSION, type PairingHandshake } from './protocol';
+
+/**
+ * Pairing between a baby monitor and a parent.
+ *
+ * The baby shows a short-lived PIN (also inside a QR code). Both sides run an
+ * ECDH (P-256) key exchange and each signs its public key, together with
+ * what it received, with a key derived from the PIN, so neither accepts a
+ * public key from someone who doesn't know the PIN. The shared key comes
+ * from the exchange, not the PIN: someone who records the pairing and later
+ * guesses the PIN still can't compute it. The baby remembers the key for
+ * that parent. Every offer is then signed with the key, and offers without a
+ * valid signature are refused before a peer connection is created. Parents
+ * keep their keys in the saved monitors store (src/lib/saved-monitors.ts).
+ *
+ * An answered offer also yields a session key. The baby hands it to the
+ * signaling server, which then only relays the parent's candidates, bye and
+ * motion regions if they are signed with it.
+ *
+ * This is not a PAKE. The parent sends its proof before the baby has proved
+ * anything, and the proof can be checked against every 6-digit PIN offline,
+ * so the baby's attempt limit does not hold against it. Someone who can take
+ * the parent's pair request instead of the baby (a spoofed monitor in the
+ * list, or by dropping it on the network) can recover the PIN and pair with
+ * the baby in the parent's place while the PIN is still valid. Someone who
+ * only listens is too late: the baby closes pairing once the parent has
+ * paired, and the PIN expires after two minutes either way.
+ */
+
+export const PAIRING_PIN_LENGTH = 6;
+export const PAIRING_PIN_TTL_MS = 2 * 60 * 1000;
+export const MAX_PAIRING_ATTEMPTS = 5;
+
+const PBKDF2_ITERATIONS = 100000;
+const PARENT_ID_KEY = 'zoyaParentId';
+const PAIRED_PARENTS_KEY = 'zoyaPairedParents';
+
+// Contents of the QR code shown by the baby monitor
+export const pairingCodeSchema = z.object({
+  v: z.literal(SIGNALING_PROTOCOL_VERSION),
+  type: z.literal('zoya-pairing'),
+  id: z.string().min(1),
+  name: z.string(),
+  host: z.string().min(1),
+  port: z.number().int().positive(),
+  pin: z.string().regex(/^\d{6}$/)
+});
+
+const pairedParentsSchema = z.record(z.object({
+  key: z.string(),
+  pairedAt: z.number()
+}));
+
+export type PairingCode = z.infer<typeof pairingCodeSchema>;
+
+/** Parent requests the signaling server only accepts within a session. */
+export type SessionRequestType = 'ice-candidate' | 'bye' | 'motion-regions' | 'get-candidates';
+
+export interface PairingSession {
+  pin: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const getSubtle = () => {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('Pairing needs a secure context (HTTPS or the native app)');
+  }
+  return globalThis.crypto.subtle;
+};
+
+const importHmacKey = (key: string) =>
+  getSubtle().importKey('raw', fromBase64(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+const readJson = <T>(storageKey: string, schema: z.ZodType<T>, fallback: T): T => {
+  const stored = localStorage.getItem(storageKey);
+  if (!stored) return fallback;
+  try {
+    return parseWithSchema(schema, stored, storageKey);
+  } catch (error) {
+    console.warn(`Discarding invalid ${storageKey}:`, error.message);
+    return fallback;
+  }
+};
+
+/** Stable id for this parent, used to look up its pairing on the baby. */
+export const getParentId = () => {
+  let parentId = localStorage.getItem(PARENT_ID_KEY);
+  if (!parentId) {
+    parentId = `parent-${crypto.randomUUID()}`;
+    localStorage.setItem(PARENT_ID_KEY, parentId);
+  }
+  return parentId;
+};
+
+/** A uniformly random numeric PIN. */
+export const generatePin = () => {
+  const limit = 10 ** PAIRING_PIN_LENGTH;
+  // Reject values past the last full multiple of `limit` to avoid modulo bias
+  const max = Math.floor(0x100000000 / limit) * limit;
+  const value = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(value);
+  } while (value[0] >= max);
+  return String(value[0] % limit).padStart(PAIRING_PIN_LENGTH, '0');
+};
+
+export const startPairingSession = (): PairingSession => ({
+  pin: generatePin(),
+  expiresAt: Date.now() + PAIRING_PIN_TTL_MS,
+  attempts: 0
+});
+
+// Only authenticates the key exchange; a PIN has too few values to be a key
+async function derivePinKey(pin: string, parentId: string): Promise<string> {
+  const subtle = getSubtle();
+  const baseKey = await subtle.importKey('raw', encoder.encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(`zoya-pairing:${parentId}`), iterations: PBKDF2_ITERATIONS },
+    baseKey,
+    256
+  );
+  return toBase64(bits);
+}
+
+const sign = async (key: string, data: string) => {
+  const signature = await getSubtle().sign('HMAC', await importHmacKey(key), encoder.encode(data));
+  return toBase64(signature);
+};
+
+const verify = async (key: string, data: string, signature: string) => {
+  try {
+    return await getSubtle().verify('HMAC', await importHmacKey(key), fromBase64(signature), encoder.encode(data));
+  } catch {
+    return false;
+  }
+};
+
+const ECDH_PARAMS = { name: 'ECDH', namedCurve: 'P-256' } as const;
+
+const generateExchangeKeys = async () => {
+  const keys = await getSubtle().generateKey(ECDH_PARAMS, false, ['deriveBits']);
+  const publicKey = toBase64(await getSubtle().exportKey('raw', keys.publicKey));
+  return { privateKey: keys.privateKey, publicKey };
+};
+
+// The pairing key: the ECDH secret, bound to this parent and salted with the PIN key
+const deriveSharedKey = async (privateKey: CryptoKey, peerPublicKey: string, pinKey: string, parentId: string) => {
+  const subtle = getSubtle();
+  const peerKey = await subtle.importKey('raw', fromBase64(peerPublicKey), ECDH_PARAMS, false, []);
+  const secret = await subtle.deriveBits({ name: 'ECDH', public: peerKey }, privateKey, 256);
+  const hkdfKey = await subtle.importKey('raw', secret, 'HKDF', false, ['deriveBits']);
+  const bits = await subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: fromBase64(pinKey), info: encoder.encode(`zoya-pairing:${parentId}`) },
+    hkdfKey,
+    256
+  );
+  return toBase64(bits);
+};
+
+export interface ParentPairing {
+  // Sent to the baby monitor as the `pair` message
+  request: PairingHandshake;
+  /** Checks the baby monitor's reply and returns the shared key, or throws. */
+  finish: (reply: PairingHandshake) => Promise<string>;
+}
+
+/** Parent side: the first half of the key exchange for the PIN the baby shows. */
+export async function startPairing(pin: string, parentId: string): Promise<ParentPairing> {
+  const pinKey = await derivePinKey(pin, parentId);
+  const { privateKey, publicKey } = await generateExchangeKeys();
+
+  return {
+    request: { publicKey, proof: await sign(pinKey, `pair:${parentId}:${publicKey}`) },
+    finish: async (reply) => {
+      if (!(await verify(pinKey, `paired:${parentId}:${publicKey}:${reply.publicKey}`, reply.proof))) {
+        throw new Error('The baby monitor could not prove it shows this PIN');
+      }
+      return deriveSharedKey(privateKey, reply.publicKey, pinKey, parentId);
+    }
+  };
+}
+
+/**
+ * Baby side: checks a parent's `pair` request against the PIN on screen.
+ * Returns the reply for the parent and the shared key, or null for a wrong PIN.
+ */
+export async function acceptPairing(
+  pin: string,
+  parentId: string,
+  request: PairingHandshake
+): Promise<{ reply: PairingHandshake; key: string } | null> {
+  const pinKey = await derivePinKey(pin, parentId);
+  if (!(await verify(pinKey, `pair:${parentId}:${request.publicKey}`, request.proof))) {
+    return null;
+  }
+
+  const { privateKey, publicKey } = await generateExchangeKeys();
+  let key: string;
+  try {
+    key = await deriveSharedKey(privateKey, request.publicKey, pinKey, parentId);
+  } catch {
+    throw new Error('Invalid pairing request');
+  }
+  return {
+    reply: { publicKey, proof: await sign(pinKey, `paired:${parentId}:${request.publicKey}:${publicKey}`) },
+    key
+  };
+}
+
+// Offers are signed whole: the SDP carries fresh ICE credentials and a DTLS
+// fingerprint, so replaying a captured offer gets an attacker nowhere
+export const signOffer = (key: string, parentId: string, offer: RTCSessionDescriptionInit) =>
+  sign(key, `offer:${parentId}:${offer.sdp ?? ''}`);
+
+export const verifyOffer = (key: string, parentId: string, offer: RTCSessionDescriptionInit, auth: string) =>
+  verify(key, `offer:${parentId}:${offer.sdp ?? ''}`, auth);
+
+export const deriveSessionKey = (key: string, parentId: string, offer: RTCSessionDescriptionInit) =>
+  sign(key, `session:${parentId}:${offer.sdp ?? ''}`);
+
+// Must match verifySessionRequest in public/nodejs/signaling-server.js
+export const signSessionRequest = (sessionKey: string, type: SessionRequestType, parentId: string, seq: number) =>
+  sign(sessionKey, `${type}:${parentId}:${seq}`);
+
+// Baby side: parents allowed to connect
+export const getPairedParentKey = (parentId: string) =>
+  readJson(PAIRED_PARENTS_KEY, pairedParentsSchema, {})[parentId]?.key ?? null;
+
+export const savePairedParent = (parentId: string, key: string) => {
+  const parents = readJson(PAIRED_PARENTS_KEY, pairedParentsSchema, {});
+  parents[parentId] = { key, pairedAt: Date.now() };
+  localStorage.setItem(PAIRED_PARENTS_KEY, JSON.stringify(parents));
+};
+
+export const countPairedParents = () =>
+  Object.keys(readJson(PAIRED_PARENTS_KEY, pairedParentsSchema, {})).length;
+
+export const forgetPairedParents = () => {
+  localStorage.removeItem(PAIRED_PARENTS_KEY);
+};
+
+export const parsePairingCode = (data: unknown) => parseWithSchema(pairingCodeSchema, data, 'pairing code', { versioned: true });
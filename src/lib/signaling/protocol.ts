@@ -0,0 +1,255 @@
+import { z } from 'zod';
+
+/**
+ * Version of the signaling wire format. Bump it whenever a message changes
+ * in a way older apps can't understand; both roles reject other versions.
+ * Must match PROTOCOL_VERSION in public/nodejs/signaling-server.js.
+ */
+export const SIGNALING_PROTOCOL_VERSION = 1;
+
+export const DISCOVERY_CHANNEL_NAME = 'zoya-network-discovery';
+
+export class SignalingProtocolError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'malformed' | 'invalid' | 'incompatible'
+  ) {
+    super(message);
+    this.name = 'SignalingProtocolError';
+  }
+}
+
+/** Why a baby monitor turned a request down, if it said. */
+export type SignalingErrorCode = 'unpaired' | 'pairing-failed';
+
+// Thrown on the parent side when the baby monitor rejects an offer or pairing
+export class SignalingRejectedError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: SignalingErrorCode
+  ) {
+    super(message);
+    this.name = 'SignalingRejectedError';
+  }
+}
+
+// Cast because zod only infers required keys with strictNullChecks on
+const sessionDescriptionSchema = z.object({
+  type: z.enum(['offer', 'answer', 'pranswer', 'rollback']),
+  sdp: z.string().optional()
+}) as z.ZodType<RTCSessionDescriptionInit>;
+
+const iceCandidateSchema = z.object({
+  candidate: z.string(),
+  sdpMid: z.string().nullable().optional(),
+  sdpMLineIndex: z.number().int().nullable().optional(),
+  usernameFragment: z.string().nullable().optional()
+}) as z.ZodType<RTCIceCandidateInit>;
+
+const versionSchema = z.literal(SIGNALING_PROTOCOL_VERSION);
+
+const errorCodeSchema = z.enum(['unpaired', 'pairing-failed']);
+
+// Parent requests within a session, checked by the signaling server (see signSessionRequest)
+const sessionAuthShape = { seq: z.number().int().positive().optional(), auth: z.string().optional() };
+
+// Point in fractions of the frame (0..1), so it survives resolution changes
+export interface RegionPoint {
+  x: number;
+  y: number;
+}
+
+// A polygon that either counts for motion or is ignored. Rectangles are
+// stored as four points.
+export interface MotionRegion {
+  points: RegionPoint[];
+  mode: 'include' | 'exclude';
+}
+
+const regionPointSchema = z.object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) });
+
+export const motionRegionSchema = z.object({
+  points: z.array(regionPointSchema).min(3).max(64),
+  mode: z.enum(['include', 'exclude'])
+}) as z.ZodType<MotionRegion>;
+
+// Enough for any sensible layout, small enough to keep messages short
+export const MAX_MOTION_REGIONS = 16;
+
+// Messages exchanged between a parent and the baby monitor
+export const signalingMessageSchema = z.discriminatedUnion('type', [
+  // `auth` signs the offer with the key shared at pairing (see pairing.ts)
+  z.object({ v: versionSchema, type: z.literal('offer'), offer: sessionDescriptionSchema, auth: z.string().optional() }),
+  // Only parents renegotiate (new tracks, ICE restarts); the baby answers
+  z.object({ v: versionSchema, type: z.literal('renegotiate'), offer: sessionDescriptionSchema, auth: z.string().optional() }),
+  z.object({ v: versionSchema, type: z.literal('answer'), answer: sessionDescriptionSchema }),
+  z.object({ v: versionSchema, type: z.literal('ice-candidate'), candidate: iceCandidateSchema, ...sessionAuthShape }),
+  z.object({ v: versionSchema, type: z.literal('bye'), reason: z.string().optional(), ...sessionAuthShape }),
+  // Each side's half of the pairing key exchange (see pairing.ts)
+  z.object({ v: versionSchema, type: z.literal('pair'), publicKey: z.string(), proof: z.string() }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('paired'),
+    deviceId: z.string().min(1),
+    name: z.string(),
+    publicKey: z.string(),
+    proof: z.string()
+  }),
+  z.object({ v: versionSchema, type: z.literal('error'), message: z.string(), code: errorCodeSchema.optional() }),
+  // Areas of the picture that count (or don't) for motion detection
+  z.object({
+    v: versionSchema,
+    type: z.literal('motion-regions'),
+    regions: z.array(motionRegionSchema).max(MAX_MOTION_REGIONS),
+    ...sessionAuthShape
+  })
+]);
+
+export const parentIdSchema = z.string().min(1).max(128);
+
+// A signaling message addressed to or from a specific parent
+export interface SignalingEnvelope {
+  parentId: string;
+  message: unknown;
+}
+
+export const signalingEnvelopeSchema = z.object({
+  parentId: parentIdSchema,
+  message: z.unknown()
+}) as z.ZodType<SignalingEnvelope>;
+
+export const offerResponseSchema = z.object({ answer: sessionDescriptionSchema });
+export const candidatesResponseSchema = z.object({ candidates: z.array(iceCandidateSchema) });
+// The baby monitor's identity, returned once pairing succeeds
+export interface PairedDevice {
+  deviceId: string;
+  name: string;
+}
+
+// An ECDH public key and the PIN-keyed proof that goes with it
+export interface PairingHandshake {
+  publicKey: string;
+  proof: string;
+}
+
+export const pairResponseSchema = z.object({
+  deviceId: z.string().min(1),
+  name: z.string(),
+  publicKey: z.string(),
+  proof: z.string()
+}) as z.ZodType<PairedDevice & PairingHandshake>;
+export const errorResponseSchema = z.object({ error: z.string(), code: errorCodeSchema.optional() });
+
+export const advertisedDeviceSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.literal('baby-monitor'),
+  host: z.string(),
+  port: z.number().int().positive(),
+  platform: z.string().optional(),
+  model: z.string().optional(),
+  version: z.string().optional(),
+  timestamp: z.number(),
+  lastSeen: z.number(),
+  status: z.enum(['active', 'inactive'])
+});
+
+// Same-origin BroadcastChannel announcements used for local discovery
+export const discoveryMessageSchema = z.discriminatedUnion('type', [
+  z.object({ v: versionSchema, type: z.literal('baby-monitor-active'), device: advertisedDeviceSchema }),
+  z.object({ v: versionSchema, type: z.literal('baby-monitor-heartbeat'), device: advertisedDeviceSchema }),
+  z.object({ v: versionSchema, type: z.literal('baby-monitor-network-disconnected'), deviceId: z.string().optional() }),
+  z.object({ v: versionSchema, type: z.literal('parent-requesting-devices') })
+]);
+
+// The `babyMonitorActive` localStorage record
+export const storedMonitorSchema = z.object({
+  address: z.string(),
+  port: z.number().int().positive(),
+  device: advertisedDeviceSchema
+});
+
+// A `_zoya-monitor._tcp` service found over mDNS. TXT values are strings.
+export const discoveredServiceSchema = z.object({
+  name: z.string(),
+  host: z.string().min(1),
+  port: z.number().int().positive(),
+  txt: z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    v: z.string(),
+    caps: z.string().optional()
+  }),
+  // When the service last answered a query
+  seenAt: z.number().optional()
+});
+
+export type SignalingMessage = z.infer<typeof signalingMessageSchema>;
+export type DiscoveryMessage = z.infer<typeof discoveryMessageSchema>;
+export type AdvertisedDevice = z.infer<typeof advertisedDeviceSchema>;
+export type StoredMonitor = z.infer<typeof storedMonitorSchema>;
+export type DiscoveredService = z.infer<typeof discoveredServiceSchema>;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** A message without its version tag, as written by callers. */
+export type SignalingPayload = DistributiveOmit<SignalingMessage, 'v'>;
+export type DiscoveryPayload = DistributiveOmit<DiscoveryMessage, 'v'>;
+
+export const createSignalingMessage = (payload: SignalingPayload): SignalingMessage =>
+  ({ v: SIGNALING_PROTOCOL_VERSION, ...payload }) as SignalingMessage;
+
+export const createDiscoveryMessage = (payload: DiscoveryPayload): DiscoveryMessage =>
+  ({ v: SIGNALING_PROTOCOL_VERSION, ...payload }) as DiscoveryMessage;
+
+const decodeJson = (data: unknown) => {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new SignalingProtocolError('Message is not valid JSON', 'malformed');
+  }
+};
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+
+/**
+ * Validates `data` (a JSON string or an already decoded value) against
+ * `schema`. For versioned messages the protocol version is checked first so
+ * that an incompatible app version gets a clear error, not a schema mismatch.
+ */
+export function parseWithSchema<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  what: string,
+  { versioned = false }: { versioned?: boolean } = {}
+): T {
+  const value = decodeJson(data);
+
+  if (typeof value !== 'object' || value === null) {
+    throw new SignalingProtocolError(`Invalid ${what}: expected an object`, 'malformed');
+  }
+
+  const version = 'v' in value ? value.v : undefined;
+  if (versioned && version !== SIGNALING_PROTOCOL_VERSION) {
+    throw new SignalingProtocolError(
+      `Incompatible ${what}: protocol version ${version === undefined ? 'missing' : String(version)}, expected ${SIGNALING_PROTOCOL_VERSION}. Update both devices to the same app version.`,
+      'incompatible'
+    );
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new SignalingProtocolError(`Invalid ${what}: ${describeIssues(result.error)}`, 'invalid');
+  }
+  return result.data;
+}
+
+export const parseSignalingMessage = (data: unknown) =>
+  parseWithSchema(signalingMessageSchema, data, 'signaling message', { versioned: true });
+
+export const parseDiscoveryMessage = (data: unknown) =>
+  parseWithSchema(discoveryMessageSchema, data, 'discovery message', { versioned: true });
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildSleepSession,
+  nightlyTotals,
+  nightOf,
+  weeklyAverages,
+  type NightTotals,
+  type SleepSession
+} from './sleep-sessions';
+import type { MonitorEvent } from './event-log';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// 8 pm on 1 March, local time like the app
+const START = new Date(2024, 2, 1, 20, 0).getTime();
+const END = START + 10 * HOUR;
+const DEVICE = { deviceId: 'baby-1', deviceName: 'Nursery' };
+
+const event = (offset: number, type: MonitorEvent['type'] = 'noise', deviceId = DEVICE.deviceId): MonitorEvent => ({
+  id: `${type}-${offset}`,
+  type,
+  at: START + offset,
+  deviceId
+});
+
+describe('buildSleepSession', () => {
+  it('counts activity close together as one wake-up', () => {
+    const session = buildSleepSession(
+      [event(2 * HOUR), event(2 * HOUR + 3 * MINUTE, 'motion'), event(2 * HOUR + 8 * MINUTE)],
+      DEVICE,
+      START,
+      END
+    );
+
+    expect(session.wakeUps).toEqual([{ startedAt: START + 2 * HOUR, endedAt: START + 2 * HOUR + 8 * MINUTE }]);
+  });
+
+  it('splits activity more than five minutes apart', () => {
+    const session = buildSleepSession(
+      [event(HOUR), event(HOUR + 5 * MINUTE), event(3 * HOUR), event(3 * HOUR + 5 * MINUTE + 1)],
+      DEVICE,
+      START,
+      END
+    );
+
+    // The second pair is a millisecond too far apart to be one wake-up
+    expect(session.wakeUps).toEqual([{ startedAt: START + HOUR, endedAt: START + HOUR + 5 * MINUTE }]);
+  });
+
+  it('ignores a lone event, other devices, other event types and events outside the session', () => {
+    const session = buildSleepSession(
+      [
+        event(HOUR),
+        event(4 * HOUR, 'noise', 'baby-2'),
+        event(4 * HOUR + MINUTE, 'noise', 'baby-2'),
+        event(6 * HOUR, 'talk'),
+        event(6 * HOUR + MINUTE, 'connected'),
+        event(-MINUTE),
+        event(-2 * MINUTE),
+        event(10 * HOUR + MINUTE),
+        event(10 * HOUR + 2 * MINUTE)
+      ],
+      DEVICE,
+      START,
+      END
+    );
+
+    expect(session.wakeUps).toEqual([]);
+    expect(session.activity.reduce((sum, count) => sum + count, 0)).toBe(1);
+  });
+
+  it('finds the longest quiet stretch, including before the first and after the last wake-up', () => {
+    const early = buildSleepSession([event(HOUR), event(HOUR + MINUTE)], DEVICE, START, END);
+    const late = buildSleepSession([event(9 * HOUR), event(9 * HOUR + MINUTE)], DEVICE, START, END);
+    const middle = buildSleepSession(
+      [event(2 * HOUR), event(2 * HOUR + MINUTE), event(7 * HOUR), event(7 * HOUR + MINUTE)],
+      DEVICE,
+      START,
+      END
+    );
+
+    expect(early.longestStretchMs).toBe(9 * HOUR - MINUTE);
+    expect(late.longestStretchMs).toBe(9 * HOUR);
+    expect(middle.longestStretchMs).toBe(5 * HOUR - MINUTE);
+    expect(buildSleepSession([], DEVICE, START, END).longestStretchMs).toBe(10 * HOUR);
+  });
+
+  it('counts events into 15 minute buckets from the start', () => {
+    const session = buildSleepSession([event(0), event(14 * MINUTE), event(15 * MINUTE), event(10 * HOUR)], DEVICE, START, END);
+
+    expect(session.activity).toHaveLength(40);
+    expect(session.activity.slice(0, 2)).toEqual([2, 1]);
+    // An event at the very end goes into the last bucket
+    expect(session.activity[39]).toBe(1);
+    expect(buildSleepSession([], DEVICE, START, START + MINUTE).activity).toEqual([0]);
+  });
+});
+
+describe('nightOf', () => {
+  it('runs nights from noon to noon', () => {
+    expect(nightOf(new Date(2024, 2, 1, 12, 0).getTime())).toBe('2024-03-01');
+    expect(nightOf(new Date(2024, 2, 1, 23, 30).getTime())).toBe('2024-03-01');
+    expect(nightOf(new Date(2024, 2, 2, 3, 0).getTime())).toBe('2024-03-01');
+    expect(nightOf(new Date(2024, 2, 2, 11, 59).getTime())).toBe('2024-03-01');
+    expect(nightOf(new Date(2024, 2, 2, 12, 0).getTime())).toBe('2024-03-02');
+  });
+});
+
+const session = (startedAt: number, hours: number, wakeUps: number, longestStretchMs: number): SleepSession => ({
+  id: `session-${startedAt}`,
+  startedAt,
+  endedAt: startedAt + hours * HOUR,
+  wakeUps: Array.from({ length: wakeUps }, (_, index) => ({ startedAt: startedAt + index * HOUR, endedAt: startedAt + index * HOUR })),
+  longestStretchMs,
+  activity: [0]
+});
+
+describe('nightlyTotals', () => {
+  it('adds up the sessions of one night and sorts nights oldest first', () => {
+    const totals = nightlyTotals([
+      session(new Date(2024, 2, 2, 21, 0).getTime(), 2, 1, HOUR),
+      session(new Date(2024, 2, 1, 20, 0).getTime(), 3, 2, 2 * HOUR),
+      // After midnight, so still the night of 1 March
+      session(new Date(2024, 2, 2, 1, 0).getTime(), 5, 1, 4 * HOUR)
+    ]);
+
+    expect(totals).toEqual([
+      { night: '2024-03-01', monitoredMs: 8 * HOUR, wakeUps: 3, longestStretchMs: 4 * HOUR },
+      { night: '2024-03-02', monitoredMs: 2 * HOUR, wakeUps: 1, longestStretchMs: HOUR }
+    ]);
+  });
+});
+
+describe('weeklyAverages', () => {
+  // 8 pm on 15 March: tonight is the night of the 15th
+  const NOW = new Date(2024, 2, 15, 20, 0).getTime();
+  const night = (date: string, wakeUps: number, longestStretchMs = HOUR): NightTotals =>
+    ({ night: date, monitoredMs: 8 * HOUR, wakeUps, longestStretchMs });
+
+  it('covers the seven nights up to and including tonight', () => {
+    const totals = [night('2024-03-08', 10), night('2024-03-09', 1), night('2024-03-15', 3), night('2024-03-16', 10)];
+
+    expect(weeklyAverages(totals, 0, NOW)).toEqual({ nights: 2, wakeUps: 2, longestStretchMs: HOUR });
+  });
+
+  it('covers the seven nights before that for last week', () => {
+    const totals = [night('2024-03-01', 10), night('2024-03-02', 2, HOUR), night('2024-03-08', 4, 3 * HOUR), night('2024-03-09', 10)];
+
+    expect(weeklyAverages(totals, 1, NOW)).toEqual({ nights: 2, wakeUps: 3, longestStretchMs: 2 * HOUR });
+  });
+
+  it('averages over the nights that were monitored, not seven', () => {
+    expect(weeklyAverages([night('2024-03-12', 7)], 0, NOW)).toEqual({ nights: 1, wakeUps: 7, longestStretchMs: HOUR });
+  });
+
+  it('is null without any monitored nights in the week', () => {
+    expect(weeklyAverages([night('2024-03-01', 1)], 0, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Sleep summaries built from the noise and motion events a parent received
+ * while watching a baby monitor. Events close together count as one
+ * wake-up; a lone cough or turn-over doesn't count at all.
+ */
+
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { parseWithSchema } from '@/lib/signaling';
+import type { MonitorEvent } from '@/lib/event-log';
+
+const SLEEP_SESSIONS_KEY = 'zoyaSleepSessions';
+const MAX_SESSIONS = 90;
+// Shorter sessions are a quick look in, not a night
+export const MIN_SESSION_MS = 30 * 60 * 1000;
+// Activity this close together belongs to the same wake-up
+const WAKE_GAP_MS = 5 * 60 * 1000;
+// Fewer events than this is stirring, not waking
+const MIN_WAKE_EVENTS = 2;
+export const ACTIVITY_BUCKET_MS = 15 * 60 * 1000;
+// Nights run noon to noon, so a session past midnight counts for the evening it started
+const NIGHT_OFFSET_MS = 12 * 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface WakeUp {
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface SleepSession {
+  id: string;
+  deviceId?: string;
+  deviceName?: string;
+  startedAt: number;
+  endedAt: number;
+  wakeUps: WakeUp[];
+  longestStretchMs: number;
+  // Noise and motion events per ACTIVITY_BUCKET_MS from the start
+  activity: number[];
+}
+
+const sleepSessionSchema = z.object({
+  id: z.string(),
+  deviceId: z.string().optional(),
+  deviceName: z.string().optional(),
+  startedAt: z.number(),
+  endedAt: z.number(),
+  wakeUps: z.array(z.object({ startedAt: z.number(), endedAt: z.number() })),
+  longestStretchMs: z.number().min(0),
+  activity: z.array(z.number().int().min(0))
+}) as z.ZodType<SleepSession>;
+
+/** Oldest first. */
+export const getSleepSessions = (): SleepSession[] => {
+  const stored = localStorage.getItem(SLEEP_SESSIONS_KEY);
+  if (!stored) return [];
+  try {
+    return parseWithSchema(z.array(sleepSessionSchema), stored, 'sleep sessions');
+  } catch (error) {
+    console.warn('Discarding invalid sleep sessions:', error.message);
+    return [];
+  }
+};
+
+export const saveSleepSession = (session: SleepSession) => {
+  const sessions = [...getSleepSessions(), session].slice(-MAX_SESSIONS);
+  localStorage.setItem(SLEEP_SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+export const deleteSleepSession = (id: string) => {
+  const sessions = getSleepSessions().filter(session => session.id !== id);
+  localStorage.setItem(SLEEP_SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+/** Summarises one device's noise and motion events between `startedAt` and `endedAt`. */
+export function buildSleepSession(
+  events: MonitorEvent[],
+  device: { deviceId?: string; deviceName?: string },
+  startedAt: number,
+  endedAt: number
+): SleepSession {
+  const activityAt = events
+    .filter(event =>
+      (event.type === 'noise' || event.type === 'motion') &&
+      event.deviceId === device.deviceId &&
+      event.at >= startedAt &&
+      event.at <= endedAt
+    )
+    .map(event => event.at)
+    .sort((a, b) => a - b);
+
+  const clusters: number[][] = [];
+  activityAt.forEach(at => {
+    const current = clusters[clusters.length - 1];
+    if (current && at - current[current.length - 1] <= WAKE_GAP_MS) {
+      current.push(at);
+    } else {
+      clusters.push([at]);
+    }
+  });
+  const wakeUps = clusters
+    .filter(cluster => cluster.length >= MIN_WAKE_EVENTS)
+    .map(cluster => ({ startedAt: cluster[0], endedAt: cluster[cluster.length - 1] }));
+
+  // The quiet stretches between wake-ups, including before the first and after the last
+  let longestStretchMs = 0;
+  let quietSince = startedAt;
+  wakeUps.forEach(wakeUp => {
+    longestStretchMs = Math.max(longestStretchMs, wakeUp.startedAt - quietSince);
+    quietSince = wakeUp.endedAt;
+  });
+  longestStretchMs = Math.max(longestStretchMs, endedAt - quietSince);
+
+  const activity = Array.from({ length: Math.max(1, Math.ceil((endedAt - startedAt) / ACTIVITY_BUCKET_MS)) }, () => 0);
+  activityAt.forEach(at => {
+    activity[Math.min(activity.length - 1, Math.floor((at - startedAt) / ACTIVITY_BUCKET_MS))]++;
+  });
+
+  return {
+    id: crypto.randomUUID(),
+    deviceId: device.deviceId,
+    deviceName: device.deviceName,
+    startedAt,
+    endedAt,
+    wakeUps,
+    longestStretchMs,
+    activity
+  };
+}
+
+export const wakeTimeMs = (session: SleepSession) =>
+  session.wakeUps.reduce((sum, wakeUp) => sum + wakeUp.endedAt - wakeUp.startedAt, 0);
+
+/** The date of the evening a session belongs to, e.g. '2024-03-01' for the night of 1–2 March. */
+export const nightOf = (at: number) => format(at - NIGHT_OFFSET_MS, 'yyyy-MM-dd');
+
+export interface NightTotals {
+  night: string;
+  monitoredMs: number;
+  wakeUps: number;
+  longestStretchMs: number;
+}
+
+/** Per-night totals, oldest first. Several sessions in one night are added up. */
+export function nightlyTotals(sessions: SleepSession[]): NightTotals[] {
+  const nights = new Map<string, NightTotals>();
+  sessions.forEach(session => {
+    const night = nightOf(session.startedAt);
+    const totals = nights.get(night) ?? { night, monitoredMs: 0, wakeUps: 0, longestStretchMs: 0 };
+    totals.monitoredMs += session.endedAt - session.startedAt;
+    totals.wakeUps += session.wakeUps.length;
+    totals.longestStretchMs = Math.max(totals.longestStretchMs, session.longestStretchMs);
+    nights.set(night, totals);
+  });
+  return Array.from(nights.values()).sort((a, b) => a.night.localeCompare(b.night));
+}
+
+export interface WeekAverages {
+  nights: number;
+  wakeUps: number;
+  longestStretchMs: number;
+}
+
+/**
+ * Averages over the 7 nights ending `weeksAgo` weeks before tonight, or null
+ * without any. Only nights with a session count, so the divisor is `nights`,
+ * not 7: an unmonitored night is unknown, not a night without wake-ups.
+ */
+export function weeklyAverages(totals: NightTotals[], weeksAgo: number, now = Date.now()): WeekAverages | null {
+  const last = nightOf(now - weeksAgo * WEEK_MS);
+  const first = nightOf(now - (weeksAgo + 1) * WEEK_MS);
+  const nights = totals.filter(({ night }) => night > first && night <= last);
+  if (nights.length === 0) return null;
+  return {
+    nights: nights.length,
+    wakeUps: nights.reduce((sum, night) => sum + night.wakeUps, 0) / nights.length,
+    longestStretchMs: nights.reduce((sum, night) => sum + night.longestStretchMs, 0) / nights.length
+  };
+}
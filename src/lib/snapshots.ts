@@ -0,0 +1,121 @@
+import { requestToPromise, withStore, SNAPSHOT_STORE } from '@/lib/media-db';
+import { shareFile } from '@/lib/share';
+import { SNAPSHOT_CHUNK_SIZE } from '@/lib/signaling';
+
+const JPEG_QUALITY = 0.92;
+
+export interface Snapshot {
+  id: string;
+  blob: Blob;
+  takenAt: number;
+  // The parent's player, or a full-resolution still from the baby device
+  source: 'parent' | 'baby';
+  monitorName: string;
+  width: number;
+  height: number;
+}
+
+/** Draws the current frame of `video` to a canvas and encodes it as JPEG. */
+export async function captureFrame(video: HTMLVideoElement) {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) {
+    throw new Error('There is no picture to capture yet');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context not available');
+  }
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) {
+    throw new Error('Could not encode the snapshot');
+  }
+  return { blob, width: canvas.width, height: canvas.height };
+}
+
+export async function blobToBase64(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBlob(base64: string, type: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+}
+
+export const splitIntoChunks = (data: string, size = SNAPSHOT_CHUNK_SIZE) => {
+  const chunks: string[] = [];
+  for (let i = 0; i < data.length; i += size) {
+    chunks.push(data.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Collects `snapshot-chunk` messages on the parent until the baby monitor's
+ * ack says the snapshot is complete.
+ */
+export function createChunkAssembler() {
+  const partial = new Map<string, string[]>();
+
+  const add = (id: string, index: number, count: number, data: string) => {
+    if (index >= count) return;
+    let chunks = partial.get(id);
+    if (!chunks) {
+      chunks = Array.from<string>({ length: count });
+      partial.set(id, chunks);
+    }
+    if (chunks.length === count) {
+      chunks[index] = data;
+    }
+  };
+
+  // The joined data, or null if anything is missing
+  const take = (id: string) => {
+    const chunks = partial.get(id);
+    partial.delete(id);
+    if (!chunks || chunks.some(chunk => chunk === undefined)) return null;
+    return chunks.join('');
+  };
+
+  return { add, take, clear: () => partial.clear() };
+}
+
+export async function saveSnapshot(snapshot: Omit<Snapshot, 'id'>) {
+  const record: Snapshot = { id: crypto.randomUUID(), ...snapshot };
+  await withStore(SNAPSHOT_STORE, 'readwrite', store => requestToPromise(store.put(record)));
+  return record;
+}
+
+/** Newest first. */
+export async function listSnapshots() {
+  const snapshots = await withStore(SNAPSHOT_STORE, 'readonly', store =>
+    requestToPromise(store.index('takenAt').getAll() as IDBRequest<Snapshot[]>)
+  );
+  return snapshots.reverse();
+}
+
+export const getSnapshot = (id: string) =>
+  withStore(SNAPSHOT_STORE, 'readonly', store => requestToPromise(store.get(id) as IDBRequest<Snapshot | undefined>));
+
+export async function deleteSnapshot(id: string) {
+  await withStore(SNAPSHOT_STORE, 'readwrite', store => requestToPromise(store.delete(id)));
+}
+
+export const snapshotFileName = (snapshot: Snapshot) =>
+  `zoya-${new Date(snapshot.takenAt).toISOString().replace(/[:.]/g, '-')}.jpg`;
+
+export const shareSnapshot = (snapshot: Snapshot) =>
+  shareFile(snapshot.blob, snapshotFileName(snapshot), `${snapshot.monitorName} snapshot`);
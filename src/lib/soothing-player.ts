@@ -0,0 +1,217 @@
+/**
+ * Soothing sounds played on the baby device: coloured noise and a music-box
+ * lullaby, all generated with Web Audio so there are no assets to bundle.
+ */
+
+import { SOOTHING_SOUNDS, type SoothingSound } from '@/lib/signaling';
+
+export { SOOTHING_SOUNDS, type SoothingSound };
+
+export const SOOTHING_SOUND_LABELS: Record<SoothingSound, string> = {
+  white: 'White noise',
+  pink: 'Pink noise',
+  brown: 'Brown noise',
+  lullaby: 'Lullaby'
+};
+
+export const SLEEP_TIMER_OPTIONS = [15, 30, 45, 60, 90];
+
+export interface SoothingState {
+  // What is playing, or null when stopped
+  sound: SoothingSound | null;
+  // 0..1
+  volume: number;
+  // When the sleep timer stops playback, or null without a timer
+  timerEndsAt: number | null;
+}
+
+export const DEFAULT_SOOTHING_STATE: SoothingState = { sound: null, volume: 0.5, timerEndsAt: null };
+
+/** A change requested from the controls; unset fields stay as they are. */
+export interface SoothingCommand {
+  // A sound to play, or null to stop
+  sound?: SoothingSound | null;
+  volume?: number;
+  // Minutes until playback stops, or null to cancel the timer
+  timerMinutes?: number | null;
+}
+
+const NOISE_SECONDS = 10;
+const FADE_SECONDS = 5;
+
+// Brahms' Lullaby as [MIDI note, beats]; one beat lasts BEAT_SECONDS
+const LULLABY: [number, number][] = [
+  [64, 0.5], [64, 0.5], [67, 2], [64, 0.5], [64, 0.5], [67, 2],
+  [64, 0.5], [67, 0.5], [72, 1], [71, 1.5], [69, 0.5], [69, 1], [67, 1],
+  [62, 0.5], [64, 0.5], [65, 1], [62, 1], [62, 0.5], [64, 0.5], [65, 2],
+  [62, 0.5], [65, 0.5], [71, 0.5], [69, 0.5], [67, 1], [71, 1], [72, 2], [0, 1]
+];
+const BEAT_SECONDS = 0.6;
+
+/** Fills `samples` with white, pink or brown noise in -1..1. */
+export function fillNoise(samples: Float32Array, color: 'white' | 'pink' | 'brown') {
+  // Pink: Paul Kellet's refined filter; brown: leaky integration of white noise
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  let last = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (color === 'white') {
+      samples[i] = white * 0.5;
+    } else if (color === 'pink') {
+      b0 = 0.99886 * b0 + white * 0.0555179;
+      b1 = 0.99332 * b1 + white * 0.0750759;
+      b2 = 0.96900 * b2 + white * 0.1538520;
+      b3 = 0.86650 * b3 + white * 0.3104856;
+      b4 = 0.55000 * b4 + white * 0.5329522;
+      b5 = -0.7616 * b5 - white * 0.0168980;
+      samples[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+      b6 = white * 0.115926;
+    } else {
+      last = (last + 0.02 * white) / 1.02;
+      samples[i] = Math.max(-1, Math.min(1, last * 3.5));
+    }
+  }
+  return samples;
+}
+
+/** Renders one pass of the lullaby as soft sine tones with a music-box decay. */
+export function fillLullaby(samples: Float32Array, sampleRate: number) {
+  let offset = 0;
+  for (const [note, beats] of LULLABY) {
+    const length = Math.round(beats * BEAT_SECONDS * sampleRate);
+    if (note > 0) {
+      const frequency = 440 * 2 ** ((note - 69) / 12);
+      for (let i = 0; i < length && offset + i < samples.length; i++) {
+        const t = i / sampleRate;
+        const envelope = Math.min(1, t / 0.01) * Math.exp(-3 * t);
+        samples[offset + i] = 0.4 * envelope *
+          (Math.sin(2 * Math.PI * frequency * t) + 0.3 * Math.sin(4 * Math.PI * frequency * t));
+      }
+    }
+    offset += length;
+  }
+  return samples;
+}
+
+const lullabyLength = (sampleRate: number) =>
+  LULLABY.reduce((total, [, beats]) => total + Math.round(beats * BEAT_SECONDS * sampleRate), 0);
+
+/**
+ * Plays one soothing sound at a time, looped, until stopped or the sleep
+ * timer runs out. `onChange` is called whenever the state changes,
+ * including when the timer stops playback.
+ */
+export function createSoothingPlayer(onChange: (state: SoothingState) => void) {
+  const AudioContextClass = window.AudioContext ??
+    (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  const context = new AudioContextClass();
+  const gain = context.createGain();
+  gain.connect(context.destination);
+
+  const buffers = new Map<SoothingSound, AudioBuffer>();
+  let source: AudioBufferSourceNode | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let state: SoothingState = { ...DEFAULT_SOOTHING_STATE };
+  gain.gain.value = state.volume;
+
+  const update = (changes: Partial<SoothingState>) => {
+    state = { ...state, ...changes };
+    onChange(state);
+  };
+
+  const getBuffer = (sound: SoothingSound) => {
+    let buffer = buffers.get(sound);
+    if (!buffer) {
+      const length = sound === 'lullaby' ? lullabyLength(context.sampleRate) : NOISE_SECONDS * context.sampleRate;
+      buffer = context.createBuffer(1, length, context.sampleRate);
+      if (sound === 'lullaby') {
+        fillLullaby(buffer.getChannelData(0), context.sampleRate);
+      } else {
+        fillNoise(buffer.getChannelData(0), sound);
+      }
+      buffers.set(sound, buffer);
+    }
+    return buffer;
+  };
+
+  const clearTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const stopSource = () => {
+    source?.stop();
+    source?.disconnect();
+    source = null;
+  };
+
+  const stop = () => {
+    clearTimer();
+    stopSource();
+    gain.gain.cancelScheduledValues(context.currentTime);
+    gain.gain.value = state.volume;
+    update({ sound: null, timerEndsAt: null });
+  };
+
+  const play = async (sound: SoothingSound) => {
+    await context.resume();
+    stopSource();
+    gain.gain.cancelScheduledValues(context.currentTime);
+    gain.gain.value = state.volume;
+
+    source = context.createBufferSource();
+    source.buffer = getBuffer(sound);
+    source.loop = true;
+    source.connect(gain);
+    source.start();
+    update({ sound });
+  };
+
+  const setVolume = (volume: number) => {
+    const clamped = Math.min(1, Math.max(0, volume));
+    gain.gain.setTargetAtTime(clamped, context.currentTime, 0.05);
+    update({ volume: clamped });
+  };
+
+  // Fades out over the last few seconds, then stops; null cancels the timer
+  const setTimer = (minutes: number | null) => {
+    clearTimer();
+    if (minutes === null) {
+      update({ timerEndsAt: null });
+      return;
+    }
+
+    const duration = minutes * 60 * 1000;
+    timer = setTimeout(() => {
+      gain.gain.setTargetAtTime(0, context.currentTime, FADE_SECONDS / 4);
+      timer = setTimeout(stop, FADE_SECONDS * 1000);
+    }, Math.max(0, duration - FADE_SECONDS * 1000));
+    update({ timerEndsAt: Date.now() + duration });
+  };
+
+  const destroy = () => {
+    clearTimer();
+    stopSource();
+    context.close();
+  };
+
+  return { play, stop, setVolume, setTimer, destroy, getState: () => state };
+}
+
+export type SoothingPlayer = ReturnType<typeof createSoothingPlayer>;
+
+export async function applySoothingCommand(player: SoothingPlayer, command: SoothingCommand) {
+  if (command.volume !== undefined) {
+    player.setVolume(command.volume);
+  }
+  if (command.sound === null) {
+    player.stop();
+  } else if (command.sound !== undefined) {
+    await player.play(command.sound);
+  }
+  if (command.timerMinutes !== undefined) {
+    player.setTimer(command.timerMinutes);
+  }
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { parseWithSchema } from '@/lib/signaling';
+
+const SETTINGS_KEY = 'zoyaSoundActivation';
+
+/** Parent settings for keeping audio muted until the baby makes a sound. */
+export interface SoundActivationSettings {
+  enabled: boolean;
+  // Level in dBFS reported by the baby monitor that unmutes the audio
+  thresholdDb: number;
+  // Seconds of quiet before the audio is muted again
+  quietSeconds: number;
+  // Also keep the video dark until there is sound
+  wakeVideo: boolean;
+}
+
+export const DEFAULT_SOUND_ACTIVATION: SoundActivationSettings = {
+  enabled: false,
+  thresholdDb: -40,
+  quietSeconds: 30,
+  wakeVideo: false
+};
+
+const soundActivationSchema = z.object({
+  enabled: z.boolean(),
+  thresholdDb: z.number().min(-100).max(0),
+  quietSeconds: z.number().positive(),
+  wakeVideo: z.boolean()
+}) as z.ZodType<SoundActivationSettings>;
+
+export const getSoundActivation = (): SoundActivationSettings => {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  if (!stored) return DEFAULT_SOUND_ACTIVATION;
+  try {
+    return parseWithSchema(soundActivationSchema, stored, 'sound activation settings');
+  } catch (error) {
+    console.warn('Discarding invalid sound activation settings:', error.message);
+    return DEFAULT_SOUND_ACTIVATION;
+  }
+};
+
+export const saveSoundActivation = (settings: SoundActivationSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
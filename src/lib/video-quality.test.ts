@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import {
+  initialAutoQuality,
+  sampleSenderQuality,
+  updateAutoQuality,
+  QUALITY_SETTINGS,
+  type AutoQualityState,
+  type QualitySample
+} from './video-quality';
+
+const LOSSY: QualitySample = { fractionLost: 0.2 };
+const CLEAN: QualitySample = { fractionLost: 0 };
+
+const feed = (state: AutoQualityState, sample: QualitySample, times: number) =>
+  Array.from({ length: times }).reduce<AutoQualityState>(current => updateAutoQuality(current, sample), state);
+
+const at = (profile: AutoQualityState['profile']): AutoQualityState => ({ profile, badSamples: 0, goodSamples: 0 });
+
+describe('updateAutoQuality', () => {
+  it('starts at the standard profile', () => {
+    expect(initialAutoQuality()).toEqual(at('standard'));
+  });
+
+  it('steps down after two bad samples in a row', () => {
+    const once = updateAutoQuality(at('standard'), LOSSY);
+    expect(once).toEqual({ profile: 'standard', badSamples: 1, goodSamples: 0 });
+
+    expect(updateAutoQuality(once, LOSSY)).toEqual(at('data-saver'));
+  });
+
+  it('steps up only after five good samples in a row', () => {
+    expect(feed(at('standard'), CLEAN, 4)).toEqual({ profile: 'standard', badSamples: 0, goodSamples: 4 });
+    expect(feed(at('standard'), CLEAN, 5)).toEqual(at('hd'));
+  });
+
+  it('starts counting again when a run is broken', () => {
+    const almostUp = feed(at('standard'), CLEAN, 4);
+    const interrupted = updateAutoQuality(almostUp, LOSSY);
+
+    expect(interrupted).toEqual({ profile: 'standard', badSamples: 1, goodSamples: 0 });
+    expect(updateAutoQuality(interrupted, CLEAN)).toEqual({ profile: 'standard', badSamples: 0, goodSamples: 1 });
+  });
+
+  it('treats loss between the two thresholds as neither good nor bad', () => {
+    const state = updateAutoQuality(at('standard'), LOSSY);
+
+    expect(updateAutoQuality(state, { fractionLost: 0.05 })).toEqual(at('standard'));
+  });
+
+  it('counts a CPU limit as bad but not a bandwidth limit', () => {
+    expect(updateAutoQuality(at('standard'), { fractionLost: 0, limitation: 'cpu' }).badSamples).toBe(1);
+    expect(updateAutoQuality(at('standard'), { fractionLost: 0, limitation: 'bandwidth' }).goodSamples).toBe(1);
+  });
+
+  it('stays at the lowest profile on a bad link', () => {
+    expect(feed(at('data-saver'), LOSSY, 5).profile).toBe('data-saver');
+  });
+
+  it('stays at the highest profile on a good link', () => {
+    expect(feed(at('hd'), CLEAN, 10)).toEqual(at('hd'));
+  });
+
+  describe('availableBitrate', () => {
+    const standard = QUALITY_SETTINGS.standard.maxBitrate;
+    const hd = QUALITY_SETTINGS.hd.maxBitrate;
+
+    it('counts an estimate too low for the current profile as bad', () => {
+      const sample = { fractionLost: 0, availableBitrate: standard / 1.2 - 1 };
+
+      expect(feed(at('standard'), sample, 2)).toEqual(at('data-saver'));
+    });
+
+    it('only steps up when the estimate leaves room for the next profile', () => {
+      const enoughForStandard = { fractionLost: 0, availableBitrate: standard };
+      const enoughForHd = { fractionLost: 0, availableBitrate: hd * 1.2 };
+
+      expect(feed(at('standard'), enoughForStandard, 10)).toEqual(at('standard'));
+      expect(feed(at('standard'), enoughForHd, 5)).toEqual(at('hd'));
+    });
+
+    it('goes by loss alone without an estimate', () => {
+      expect(feed(at('data-saver'), CLEAN, 5).profile).toBe('standard');
+    });
+  });
+});
+
+// A peer connection whose getStats returns `reports`
+const withStats = (reports: Record<string, unknown>[]) => ({
+  getStats: async () => new Map(reports.map((report, index) => [String(index), report]))
+}) as unknown as RTCPeerConnection;
+
+describe('sampleSenderQuality', () => {
+  const stats = (packetsSent: number, packetsLost: number) => withStats([
+    { type: 'outbound-rtp', kind: 'video', packetsSent, qualityLimitationReason: 'none' },
+    { type: 'remote-inbound-rtp', kind: 'video', packetsLost },
+    { type: 'outbound-rtp', kind: 'audio', packetsSent: 1000 }
+  ]);
+
+  it('reports no loss without earlier counters', async () => {
+    const { sample, counters } = await sampleSenderQuality(stats(100, 10), null);
+
+    expect(sample).toEqual({ fractionLost: 0 });
+    expect(counters).toEqual({ packetsSent: 100, packetsLost: 10 });
+  });
+
+  it('works out loss from the video packets since the last sample', async () => {
+    const { sample } = await sampleSenderQuality(stats(300, 30), { packetsSent: 100, packetsLost: 10 });
+
+    expect(sample.fractionLost).toBeCloseTo(0.1);
+  });
+
+  it('keeps the loss fraction between 0 and 1', async () => {
+    const nothingSent = await sampleSenderQuality(stats(100, 20), { packetsSent: 100, packetsLost: 10 });
+    const moreLostThanSent = await sampleSenderQuality(stats(110, 50), { packetsSent: 100, packetsLost: 10 });
+    const counterReset = await sampleSenderQuality(stats(200, 0), { packetsSent: 100, packetsLost: 10 });
+
+    expect(nothingSent.sample.fractionLost).toBe(0);
+    expect(moreLostThanSent.sample.fractionLost).toBe(1);
+    expect(counterReset.sample.fractionLost).toBe(0);
+  });
+
+  it('picks up the limitation and the bitrate estimate of the nominated pair', async () => {
+    const { sample } = await sampleSenderQuality(withStats([
+      { type: 'outbound-rtp', kind: 'video', packetsSent: 10, qualityLimitationReason: 'cpu' },
+      { type: 'candidate-pair', nominated: false, availableOutgoingBitrate: 100 },
+      { type: 'candidate-pair', nominated: true, availableOutgoingBitrate: 900_000 }
+    ]), null);
+
+    expect(sample).toEqual({ fractionLost: 0, limitation: 'cpu', availableBitrate: 900_000 });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Video quality profiles for the baby monitor's outgoing video, and the
+ * rules automatic mode uses to move between them. Profiles are applied per
+ * parent with RTCRtpSender.setParameters, so one parent on a poor link
+ * doesn't lower the picture for everyone.
+ */
+
+import { QUALITY_MODES, QUALITY_PROFILES, type QualityMode, type QualityProfile } from '@/lib/signaling';
+
+export { QUALITY_MODES, QUALITY_PROFILES, type QualityMode, type QualityProfile };
+
+export const QUALITY_LABELS: Record<QualityMode, string> = {
+  auto: 'Auto',
+  'data-saver': 'Data Saver',
+  standard: 'Standard',
+  hd: 'HD'
+};
+
+export interface QualitySettings {
+  maxBitrate: number;
+  maxFramerate: number;
+  // Picture height to scale down to; the camera may deliver less
+  height: number;
+}
+
+export const QUALITY_SETTINGS: Record<QualityProfile, QualitySettings> = {
+  'data-saver': { maxBitrate: 250_000, maxFramerate: 15, height: 240 },
+  standard: { maxBitrate: 800_000, maxFramerate: 24, height: 480 },
+  hd: { maxBitrate: 2_500_000, maxFramerate: 30, height: 720 }
+};
+
+// Automatic mode starts in the middle and moves from there
+export const AUTO_START_PROFILE: QualityProfile = 'standard';
+
+const STORAGE_KEY = 'zoyaVideoQuality';
+
+/** The mode this parent asks the baby monitor for. */
+export const getQualityMode = (): QualityMode => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return QUALITY_MODES.find(mode => mode === stored) ?? 'auto';
+};
+
+export const saveQualityMode = (mode: QualityMode) => {
+  localStorage.setItem(STORAGE_KEY, mode);
+};
+
+/** What the sender's stats say about one parent's link since the last sample. */
+export interface QualitySample {
+  // Fraction (0..1) of packets the parent reported lost
+  fractionLost: number;
+  // The congestion controller's estimate, when the browser reports it
+  availableBitrate?: number;
+  // Why the encoder is holding back, e.g. 'cpu'
+  limitation?: string;
+}
+
+export interface AutoQualityState {
+  profile: QualityProfile;
+  // Consecutive samples that called for a step down or up
+  badSamples: number;
+  goodSamples: number;
+}
+
+const LOSS_DOWN = 0.08;
+const LOSS_UP = 0.02;
+// Samples in a row before moving; stepping up is deliberately slower
+const SAMPLES_DOWN = 2;
+const SAMPLES_UP = 5;
+// Headroom the estimate must leave over a profile's bitrate
+const BITRATE_MARGIN = 1.2;
+
+export const initialAutoQuality = (): AutoQualityState => ({ profile: AUTO_START_PROFILE, badSamples: 0, goodSamples: 0 });
+
+/**
+ * Feeds one stats sample into automatic mode: steps down a profile after a
+ * couple of lossy or starved samples, and back up after a longer run of
+ * samples with room for the next profile.
+ */
+export function updateAutoQuality(state: AutoQualityState, sample: QualitySample): AutoQualityState {
+  const index = QUALITY_PROFILES.indexOf(state.profile);
+  const current = QUALITY_SETTINGS[state.profile];
+  const next = QUALITY_SETTINGS[QUALITY_PROFILES[index + 1]];
+
+  // 'bandwidth' limitation is left out: our own maxBitrate cap triggers it too
+  const isBad = sample.fractionLost > LOSS_DOWN ||
+    sample.limitation === 'cpu' ||
+    (sample.availableBitrate !== undefined && sample.availableBitrate < current.maxBitrate / BITRATE_MARGIN);
+  const isGood = !isBad && next !== undefined &&
+    sample.fractionLost < LOSS_UP &&
+    (sample.availableBitrate === undefined || sample.availableBitrate >= next.maxBitrate * BITRATE_MARGIN);
+
+  if (isBad) {
+    if (state.badSamples + 1 >= SAMPLES_DOWN && index > 0) {
+      return { profile: QUALITY_PROFILES[index - 1], badSamples: 0, goodSamples: 0 };
+    }
+    return { ...state, badSamples: state.badSamples + 1, goodSamples: 0 };
+  }
+  if (isGood) {
+    if (state.goodSamples + 1 >= SAMPLES_UP) {
+      return { profile: QUALITY_PROFILES[index + 1], badSamples: 0, goodSamples: 0 };
+    }
+    return { ...state, badSamples: 0, goodSamples: state.goodSamples + 1 };
+  }
+  return { ...state, badSamples: 0, goodSamples: 0 };
+}
+
+/** Totals from the last stats read, to turn counters into per-sample rates. */
+export interface SenderCounters {
+  packetsSent: number;
+  packetsLost: number;
+}
+
+/**
+ * Reads the video sender's stats for automatic mode. Loss is worked out
+ * against `previous` counters; pass the returned counters in next time.
+ */
+export async function sampleSenderQuality(
+  peerConnection: RTCPeerConnection,
+  previous: SenderCounters | null
+): Promise<{ sample: QualitySample; counters: SenderCounters }> {
+  const stats = await peerConnection.getStats();
+  const counters: SenderCounters = { packetsSent: 0, packetsLost: 0 };
+  const sample: QualitySample = { fractionLost: 0 };
+
+  stats.forEach(report => {
+    if (report.type === 'outbound-rtp' && report.kind === 'video') {
+      counters.packetsSent += report.packetsSent ?? 0;
+      if (report.qualityLimitationReason && report.qualityLimitationReason !== 'none') {
+        sample.limitation = report.qualityLimitationReason;
+      }
+    } else if (report.type === 'remote-inbound-rtp' && report.kind === 'video') {
+      counters.packetsLost += report.packetsLost ?? 0;
+    } else if (report.type === 'candidate-pair' && report.nominated && report.availableOutgoingBitrate !== undefined) {
+      sample.availableBitrate = report.availableOutgoingBitrate;
+    }
+  });
+
+  if (previous) {
+    const sent = counters.packetsSent - previous.packetsSent;
+    const lost = counters.packetsLost - previous.packetsLost;
+    sample.fractionLost = sent > 0 ? Math.min(1, Math.max(0, lost / sent)) : 0;
+  }
+  return { sample, counters };
+}
+
+/**
+ * Applies a profile to the video sender of `peerConnection`. Scaling is
+ * worked out from the height the camera actually delivers.
+ */
+export async function applyQualityProfile(peerConnection: RTCPeerConnection, profile: QualityProfile) {
+  const sender = peerConnection.getSenders().find(candidate => candidate.track?.kind === 'video');
+  if (!sender) return;
+
+  const settings = QUALITY_SETTINGS[profile];
+  const trackHeight = sender.track.getSettings().height ?? settings.height;
+  const parameters = sender.getParameters();
+  if (!parameters.encodings?.length) {
+    parameters.encodings = [{}];
+  }
+  for (const encoding of parameters.encodings) {
+    encoding.maxBitrate = settings.maxBitrate;
+    encoding.maxFramerate = settings.maxFramerate;
+    encoding.scaleResolutionDownBy = Math.max(1, trackHeight / settings.height);
+  }
+  await sender.setParameters(parameters);
+}
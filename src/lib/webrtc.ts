@@ -53,3 +53,49 @@ export function observeVideo(element: HTMLVideoElement) {
     }
   }
 }
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+/** Delay before reconnect attempt `attempt` (1-based): 1s, 2s, 4s... capped at 30s. */
+export function reconnectDelay(attempt: number) {
+  return Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+}
+
+/** Resolves true once `peerConnection` connects, or false if it fails or times out. */
+export function waitForConnection(peerConnection: RTCPeerConnection, timeoutMs: number) {
+  return new Promise<boolean>((resolve) => {
+    if (peerConnection.connectionState === 'connected') {
+      resolve(true);
+      return;
+    }
+
+    const finish = (connected: boolean) => {
+      clearTimeout(timer);
+      peerConnection.removeEventListener('connectionstatechange', handleChange);
+      resolve(connected);
+    };
+    const handleChange = () => {
+      if (peerConnection.connectionState === 'connected') {
+        finish(true);
+      } else if (peerConnection.connectionState === 'failed' || peerConnection.connectionState === 'closed') {
+        finish(false);
+      }
+    };
+    const timer = setTimeout(() => finish(false), timeoutMs);
+
+    peerConnection.addEventListener('connectionstatechange', handleChange);
+  });
+}
+
+/** Media bytes received so far; it stops growing when the stream stalls. */
+export async function getInboundBytes(peerConnection: RTCPeerConnection) {
+  const stats = await peerConnection.getStats();
+  let bytes = 0;
+  stats.forEach(report => {
+    if (report.type === 'inbound-rtp') {
+      bytes += report.bytesReceived ?? 0;
+    }
+  });
+  return bytes;
+}
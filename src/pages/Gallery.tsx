@@ -0,0 +1,132 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowLeft, Images, Loader2, Share2, Trash2 } from 'lucide-react';
+import { deleteSnapshot, listSnapshots, shareSnapshot, type Snapshot } from '@/lib/snapshots';
+
+const Gallery = () => {
+  const navigate = useNavigate();
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Snapshot | null>(null);
+
+  useEffect(() => {
+    listSnapshots()
+      .then(setSnapshots)
+      .catch(err => {
+        console.error('Could not load snapshots:', err);
+        setError(err.message);
+        setSnapshots([]);
+      });
+  }, []);
+
+  // One object URL per snapshot, released when the list changes or the page closes
+  const urls = useMemo(
+    () => new Map((snapshots ?? []).map(snapshot => [snapshot.id, URL.createObjectURL(snapshot.blob)])),
+    [snapshots]
+  );
+  useEffect(() => () => urls.forEach(url => URL.revokeObjectURL(url)), [urls]);
+
+  const share = async (snapshot: Snapshot) => {
+    try {
+      await shareSnapshot(snapshot);
+    } catch (err) {
+      console.error('Could not share snapshot:', err);
+      setError(err.message);
+    }
+  };
+
+  const remove = async (snapshot: Snapshot) => {
+    try {
+      await deleteSnapshot(snapshot.id);
+      setSnapshots(previous => previous.filter(item => item.id !== snapshot.id));
+      setSelected(null);
+    } catch (err) {
+      console.error('Could not delete snapshot:', err);
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 pt-safe-area-top">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6 pt-4">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="flex items-center gap-2 min-h-12 px-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <h2 className="text-lg font-semibold text-foreground">Snapshots</h2>
+      </div>
+
+      <div className="max-w-2xl mx-auto">
+        {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+        {snapshots === null ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : snapshots.length === 0 ? (
+          <Card className="p-6 text-center">
+            <Images className="w-10 h-10 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              No snapshots yet. Take one from the parent monitor while connected.
+            </p>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {snapshots.map(snapshot => (
+              <button
+                key={snapshot.id}
+                onClick={() => setSelected(snapshot)}
+                className="text-left rounded-lg overflow-hidden bg-muted focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                <img
+                  src={urls.get(snapshot.id)}
+                  alt={`${snapshot.monitorName} at ${format(snapshot.takenAt, 'PPpp')}`}
+                  className="w-full aspect-video object-cover"
+                />
+                <p className="px-2 py-1 text-xs text-muted-foreground">
+                  {format(snapshot.takenAt, 'MMM d, HH:mm:ss')}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        {selected && (
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>{selected.monitorName}</DialogTitle>
+              <DialogDescription>
+                {format(selected.takenAt, 'PPpp')} · {selected.width}×{selected.height}
+                {selected.source === 'baby' ? ' · full resolution from the baby device' : ''}
+              </DialogDescription>
+            </DialogHeader>
+            <img src={urls.get(selected.id)} alt="" className="w-full rounded-lg" />
+            <DialogFooter className="gap-2">
+              <Button variant="ghost" onClick={() => remove(selected)}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+              <Button onClick={() => share(selected)}>
+                <Share2 className="w-4 h-4 mr-2" />
+                Share
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  );
+};
+
+export default Gallery;
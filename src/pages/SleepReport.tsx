@@ -0,0 +1,198 @@
+import { useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, BedDouble, Trash2 } from 'lucide-react';
+import {
+  deleteSleepSession,
+  getSleepSessions,
+  nightlyTotals,
+  wakeTimeMs,
+  weeklyAverages,
+  ACTIVITY_BUCKET_MS,
+  type WeekAverages
+} from '@/lib/sleep-sessions';
+
+// Nights shown in the trend chart
+const TREND_NIGHTS = 14;
+
+const activityConfig = {
+  events: { label: 'Noise and motion', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const trendConfig = {
+  stretchHours: { label: 'Longest stretch (h)', color: 'hsl(var(--primary))' },
+  wakeUps: { label: 'Wake-ups', color: 'hsl(var(--destructive))' }
+} satisfies ChartConfig;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// This week against last, e.g. "2.0 (3.5 last week)"
+const compare = (current: WeekAverages | null, previous: WeekAverages | null, value: (week: WeekAverages) => string) =>
+  current === null ? '—' : previous === null ? value(current) : `${value(current)} (${value(previous)} last week)`;
+
+const SleepReport = () => {
+  const navigate = useNavigate();
+  // Newest first
+  const [sessions, setSessions] = useState(() => getSleepSessions().reverse());
+  const [selectedId, setSelectedId] = useState<string | null>(sessions[0]?.id ?? null);
+  const selected = sessions.find(session => session.id === selectedId) ?? sessions[0];
+
+  const totals = useMemo(() => nightlyTotals(sessions), [sessions]);
+  const trend = totals.slice(-TREND_NIGHTS).map(night => ({
+    night: format(new Date(`${night.night}T00:00:00`), 'MMM d'),
+    stretchHours: Number((night.longestStretchMs / 3600000).toFixed(1)),
+    wakeUps: night.wakeUps
+  }));
+  const thisWeek = weeklyAverages(totals, 0);
+  const lastWeek = weeklyAverages(totals, 1);
+
+  const activity = selected?.activity.map((events, index) => ({
+    time: format(selected.startedAt + index * ACTIVITY_BUCKET_MS, 'HH:mm'),
+    events
+  })) ?? [];
+
+  const remove = (id: string) => {
+    deleteSleepSession(id);
+    setSessions(previous => previous.filter(session => session.id !== id));
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 pt-safe-area-top">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6 pt-4">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="flex items-center gap-2 min-h-12 px-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <h2 className="text-lg font-semibold text-foreground">Sleep Reports</h2>
+      </div>
+
+      <div className="max-w-2xl mx-auto space-y-6">
+        {!selected ? (
+          <Card className="p-6 text-center">
+            <BedDouble className="w-10 h-10 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              No sleep sessions yet. A report is saved when you stop watching a baby monitor after at least 30 minutes.
+            </p>
+          </Card>
+        ) : (
+          <>
+            {/* One session */}
+            <Card className="p-4 space-y-4">
+              <div className="flex items-center gap-2">
+                <Select value={selected.id} onValueChange={setSelectedId}>
+                  <SelectTrigger aria-label="Sleep session">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sessions.map(session => (
+                      <SelectItem key={session.id} value={session.id}>
+                        {format(session.startedAt, 'EEE, MMM d, HH:mm')}
+                        {session.deviceName ? ` · ${session.deviceName}` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="icon" variant="ghost" onClick={() => remove(selected.id)} aria-label="Delete session">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Monitoring</p>
+                  <p className="font-medium text-card-foreground">
+                    {format(selected.startedAt, 'HH:mm')}–{format(selected.endedAt, 'HH:mm')} ({formatDuration(selected.endedAt - selected.startedAt)})
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Longest stretch</p>
+                  <p className="font-medium text-card-foreground">{formatDuration(selected.longestStretchMs)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Wake-ups</p>
+                  <p className="font-medium text-card-foreground">{selected.wakeUps.length}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Awake in total</p>
+                  <p className="font-medium text-card-foreground">{formatDuration(wakeTimeMs(selected))}</p>
+                </div>
+              </div>
+
+              <ChartContainer config={activityConfig} className="h-40 w-full">
+                <BarChart data={activity}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} width={24} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="events" fill="var(--color-events)" radius={2} />
+                </BarChart>
+              </ChartContainer>
+
+              {selected.wakeUps.length > 0 && (
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  {selected.wakeUps.map(wakeUp => (
+                    <li key={wakeUp.startedAt}>
+                      Woke at {format(wakeUp.startedAt, 'HH:mm')} for {formatDuration(Math.max(60000, wakeUp.endedAt - wakeUp.startedAt))}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+
+            {/* Trends across nights */}
+            <Card className="p-4 space-y-4">
+              <p className="font-medium text-card-foreground">Last {TREND_NIGHTS} nights</p>
+              <ChartContainer config={trendConfig} className="h-48 w-full">
+                <BarChart data={trend}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="night" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis yAxisId="hours" width={24} tickLine={false} axisLine={false} />
+                  <YAxis yAxisId="count" orientation="right" allowDecimals={false} width={24} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar yAxisId="hours" dataKey="stretchHours" fill="var(--color-stretchHours)" radius={2} />
+                  <Bar yAxisId="count" dataKey="wakeUps" fill="var(--color-wakeUps)" radius={2} />
+                </BarChart>
+              </ChartContainer>
+
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Wake-ups per night, this week</p>
+                  <p className="font-medium text-card-foreground">
+                    {compare(thisWeek, lastWeek, week => week.wakeUps.toFixed(1))}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Longest stretch, this week</p>
+                  <p className="font-medium text-card-foreground">
+                    {compare(thisWeek, lastWeek, week => formatDuration(week.longestStretchMs))}
+                  </p>
+                </div>
+              </div>
+              {thisWeek && (
+                <p className="text-xs text-muted-foreground">
+                  Averaged over the {thisWeek.nights} {thisWeek.nights === 1 ? 'night' : 'nights'} monitored this week
+                </p>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SleepReport;
@@ -0,0 +1,405 @@
+// Scripted checks for the signaling server: a real server on a loopback port,
+// driven over HTTP and WebSocket the way the parent and baby pages drive it.
+//
+// Run with `npm run test:signaling` (needs --experimental-websocket on Node 20).
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('node:crypto');
+const http = require('node:http');
+const { once } = require('node:events');
+const { createSignalingServer, PROTOCOL_VERSION } = require('../public/nodejs/signaling-server');
+
+const OFFER = { type: 'offer', sdp: 'v=0 offer' };
+const ANSWER = { type: 'answer', sdp: 'v=0 answer' };
+const CANDIDATE = { candidate: 'candidate:1', sdpMid: '0', sdpMLineIndex: 0 };
+const SESSION_KEY = crypto.randomBytes(32).toString('base64');
+const PAIR_REQUEST = { publicKey: 'parent-public-key', proof: 'parent-proof' };
+const PAIRED = { deviceId: 'baby-1', name: 'Nursery', publicKey: 'baby-public-key', proof: 'baby-proof' };
+
+// Same as signSessionRequest in src/lib/signaling/pairing.ts
+const signRequest = (type, parentId, seq, key = SESSION_KEY) => ({
+  seq,
+  auth: crypto.createHmac('sha256', Buffer.from(key, 'base64')).update(`${type}:${parentId}:${seq}`).digest('base64')
+});
+
+// Starts a server for one test and stops it afterwards
+const startServer = async (t, options = {}) => {
+  const signaling = createSignalingServer({ log: () => {}, ...options });
+  const port = await signaling.listen(0, '127.0.0.1');
+  t.after(() => signaling.close());
+  const url = (path) => `http://127.0.0.1:${port}${path}`;
+  return { signaling, port, url };
+};
+
+// A baby page on the capacitor bridge that answers offers and pairing
+// requests, starting a session with SESSION_KEY for each first offer
+const answerAsBridgeHost = (signaling, received = []) => {
+  signaling.on('message', (parentId, message) => {
+    received.push({ parentId, message });
+    if (message.type === 'offer') {
+      signaling.sendToParent(parentId, { v: PROTOCOL_VERSION, type: 'answer', answer: ANSWER }, SESSION_KEY);
+    } else if (message.type === 'renegotiate') {
+      signaling.sendToParent(parentId, { v: PROTOCOL_VERSION, type: 'answer', answer: ANSWER });
+    } else if (message.type === 'pair') {
+      signaling.sendToParent(parentId, { v: PROTOCOL_VERSION, type: 'paired', ...PAIRED });
+    }
+  });
+  return received;
+};
+
+const post = async (url, body) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const openSocket = async (url) => {
+  const socket = new WebSocket(url);
+  const messages = [];
+  socket.addEventListener('message', (event) => messages.push(JSON.parse(event.data)));
+  await once(socket, 'open');
+  return { socket, messages };
+};
+
+const waitFor = async (condition, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+test('relays an HTTP offer to the bridge host and returns its answer', async (t) => {
+  const { signaling, url } = await startServer(t);
+  const received = answerAsBridgeHost(signaling);
+
+  const { status, body } = await post(url('/webrtc/offer'), { v: PROTOCOL_VERSION, parentId: 'parent-1', offer: OFFER });
+
+  assert.equal(status, 200);
+  assert.deepEqual(body.answer, ANSWER);
+  assert.equal(received[0].parentId, 'parent-1');
+  assert.equal(received[0].message.type, 'offer');
+  assert.deepEqual(received[0].message.offer, OFFER);
+});
+
+test('relays an HTTP pairing request and returns the device and its key exchange', async (t) => {
+  const { signaling, url } = await startServer(t);
+  const received = answerAsBridgeHost(signaling);
+
+  const { status, body } = await post(url('/webrtc/pair'), { v: PROTOCOL_VERSION, parentId: 'parent-1', ...PAIR_REQUEST });
+
+  assert.equal(status, 200);
+  assert.deepEqual(body, PAIRED);
+  assert.deepEqual(received[0].message, { v: PROTOCOL_VERSION, type: 'pair', ...PAIR_REQUEST });
+});
+
+test('rejects a pairing request without a public key', async (t) => {
+  const { signaling, url } = await startServer(t);
+  answerAsBridgeHost(signaling);
+
+  const { status } = await post(url('/webrtc/pair'), { v: PROTOCOL_VERSION, parentId: 'parent-1', proof: 'proof' });
+
+  assert.equal(status, 400);
+});
+
+test('rejects requests with another protocol version', async (t) => {
+  const { signaling, url } = await startServer(t);
+  answerAsBridgeHost(signaling);
+
+  const { status, body } = await post(url('/webrtc/offer'), { v: PROTOCOL_VERSION + 1, parentId: 'parent-1', offer: OFFER });
+
+  assert.equal(status, 400);
+  assert.match(body.error, /protocol version/);
+});
+
+test('reports 503 when no baby page is listening', async (t) => {
+  const { url } = await startServer(t);
+
+  const { status } = await post(url('/webrtc/offer'), { v: PROTOCOL_VERSION, parentId: 'parent-1', offer: OFFER });
+
+  assert.equal(status, 503);
+});
+
+test('reports 503 when no baby page is connected to the HTTP host', async (t) => {
+  const { url } = await startServer(t, { httpHost: true });
+
+  const { status } = await post(url('/webrtc/pair'), { v: PROTOCOL_VERSION, parentId: 'parent-1', ...PAIR_REQUEST });
+
+  assert.equal(status, 503);
+});
+
+test('passes a host error back to the HTTP parent as 403', async (t) => {
+  const { signaling, url } = await startServer(t);
+  signaling.on('message', (parentId) => {
+    signaling.sendToParent(parentId, { v: PROTOCOL_VERSION, type: 'error', message: 'Not paired', code: 'not-paired' });
+  });
+
+  const { status, body } = await post(url('/webrtc/offer'), { v: PROTOCOL_VERSION, parentId: 'parent-1', offer: OFFER });
+
+  assert.equal(status, 403);
+  assert.deepEqual(body, { error: 'Not paired', code: 'not-paired' });
+});
+
+test('queues host candidates for polling parents and clears them once fetched', async (t) => {
+  const { signaling, url } = await startServer(t);
+  answerAsBridgeHost(signaling);
+  await post(url('/webrtc/offer'), { v: PROTOCOL_VERSION, parentId: 'parent 1', offer: OFFER });
+
+  signaling.sendToParent('parent 1', { v: PROTOCOL_VERSION, type: 'ice-candidate', candidate: CANDIDATE });
+
+  const poll = ({ seq, auth }) =>
+    fetch(url(`/webrtc/get-candidates/parent%201?seq=${seq}&auth=${encodeURIComponent(auth)}`));
+  const first = await (await poll(signRequest('get-candidates', 'parent 1', 1))).json();
+  const second = await (await poll(signRequest('get-candidates', 'parent 1', 2))).json();
+  assert.deepEqual(first.candidates, [CANDIDATE]);
+  assert.deepEqual(second.candidates, []);
+});
+
+test('only hands out candidates to a parent that proves its session', async (t) => {
+  const { signaling, url } = await startServer(t);
+  answerAsBridgeHost(signaling);
+  await post(url('/webrtc/offer'), { v: PROTOCOL_VERSION, parentId: 'parent-1', offer: OFFER });
+  signaling.sendToParent('parent-1', { v: PROTOCOL_VERSION, type: 'ice-candidate', candidate: CANDIDATE });
+
+  const unsigned = await fetch(url('/webrtc/get-candidates/parent-1'));
+  const { seq, auth } = signRequest('get-candidates', 'parent-1', 1, crypto.randomBytes(32).toString('base64'));
+  const wrongKey = await fetch(url(`/webrtc/get-candidates/parent-1?seq=${seq}&auth=${encodeURIComponent(auth)}`));
+
+  assert.equal(unsigned.status, 403);
+  assert.equal(wrongKey.status, 403);
+});
+
+test('relays HTTP candidates, motion regions and bye only within a session', async (t) => {
+  const { signaling, url } = await startServer(t);
+  const received = answerAsBridgeHost(signaling);
+  const regions = [{ mode: 'exclude', points: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }] }];
+  const send = (route, type, fields, seq) =>
+    post(url(route), { v: PROTOCOL_VERSION, parentId: 'parent-1', ...fields, ...(seq && signRequest(type, 'parent-1', seq)) });
+
+  const early = await send('/webrtc/ice-candidate', 'ice-candidate', { candidate: CANDIDATE }, 1);
+  assert.equal(early.status, 403);
+
+  await post(url('/webrtc/offer'), { v: PROTOCOL_VERSION, parentId: 'parent-1', offer: OFFER });
+  const unsigned = await send('/webrtc/motion-regions', 'motion-regions', { regions });
+  const candidate = await send('/webrtc/ice-candidate', 'ice-candidate', { candidate: CANDIDATE }, 2);
+  const regionsSent = await send('/webrtc/motion-regions', 'motion-regions', { regions }, 1);
+  const bye = await send('/webrtc/bye', 'bye', {}, 3);
+  const afterBye = await send('/webrtc/ice-candidate', 'ice-candidate', { candidate: CANDIDATE }, 4);
+
+  assert.equal(unsigned.status, 403);
+  // Out of order is fine, as HTTP posts can overtake each other
+  assert.equal(candidate.status, 200);
+  assert.equal(regionsSent.status, 200);
+  assert.equal(bye.status, 200);
+  assert.equal(afterBye.status, 403);
+  assert.deepEqual(received.map(({ message }) => message.type), ['offer', 'ice-candidate', 'motion-regions', 'bye']);
+});
+
+test('rejects a replayed session request', async (t) => {
+  const { signaling, url } = await startServer(t);
+  answerAsBridgeHost(signaling);
+  await post(url('/webrtc/offer'), { v: PROTOCOL_VERSION, parentId: 'parent-1', offer: OFFER });
+
+  const body = { v: PROTOCOL_VERSION, parentId: 'parent-1', candidate: CANDIDATE, ...signRequest('ice-candidate', 'parent-1', 1) };
+  const first = await post(url('/webrtc/ice-candidate'), body);
+  const replayed = await post(url('/webrtc/ice-candidate'), body);
+
+  assert.equal(first.status, 200);
+  assert.equal(replayed.status, 403);
+});
+
+test('never passes the session key on to the parent', async (t) => {
+  const { port } = await startServer(t, { httpHost: true });
+  const host = new WebSocket(`ws://127.0.0.1:${port}/webrtc/host/ws`);
+  await once(host, 'open');
+  t.after(() => host.close());
+  host.addEventListener('message', (event) => {
+    const { parentId } = JSON.parse(event.data);
+    host.send(JSON.stringify({ parentId, message: { v: PROTOCOL_VERSION, type: 'answer', answer: ANSWER }, sessionKey: SESSION_KEY }));
+  });
+  const { socket, messages } = await openSocket(`ws://127.0.0.1:${port}/webrtc/ws?parentId=parent-1`);
+  t.after(() => socket.close());
+
+  socket.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'offer', offer: OFFER }));
+  await waitFor(() => messages.length > 0);
+
+  assert.deepEqual(messages[0], { v: PROTOCOL_VERSION, type: 'answer', answer: ANSWER });
+});
+
+test('rejects a malformed parent id in get-candidates with 400', async (t) => {
+  const { url } = await startServer(t);
+
+  const response = await fetch(url('/webrtc/get-candidates/%E0%A4%A'));
+
+  assert.equal(response.status, 400);
+});
+
+test('keeps the host routes to loopback and the HTTP host mode', async (t) => {
+  const { url } = await startServer(t);
+
+  const response = await fetch(url('/webrtc/host/events'));
+
+  assert.equal(response.status, 404);
+});
+
+test('refuses host requests from pages other than the app', async (t) => {
+  const { url } = await startServer(t, { httpHost: true });
+  const postFrom = (origin) => fetch(url('/webrtc/host/message'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain', Origin: origin },
+    body: JSON.stringify({ parentId: 'parent-1', message: { v: PROTOCOL_VERSION, type: 'answer', answer: ANSWER }, sessionKey: SESSION_KEY })
+  });
+
+  const forged = await postFrom('https://evil.example');
+  const app = await postFrom('http://localhost:8080');
+
+  assert.equal(forged.status, 403);
+  assert.equal(forged.headers.get('access-control-allow-origin'), null);
+  assert.equal(app.status, 200);
+  assert.equal(app.headers.get('access-control-allow-origin'), 'http://localhost:8080');
+});
+
+test('refuses a host socket from another origin and keeps the current host', async (t) => {
+  const { port, url } = await startServer(t, { httpHost: true });
+  const host = await openSocket(`ws://127.0.0.1:${port}/webrtc/host/ws`);
+  t.after(() => host.socket.close());
+
+  const request = http.get({
+    host: '127.0.0.1',
+    port,
+    path: '/webrtc/host/ws',
+    headers: {
+      Connection: 'Upgrade',
+      Upgrade: 'websocket',
+      'Sec-WebSocket-Version': '13',
+      'Sec-WebSocket-Key': crypto.randomBytes(16).toString('base64'),
+      Origin: 'https://evil.example'
+    }
+  });
+  const status = await new Promise((resolve) => {
+    request.on('response', (response) => {
+      response.resume();
+      resolve(response.statusCode);
+    });
+    request.on('upgrade', (response, socket) => {
+      socket.destroy();
+      resolve(response.statusCode);
+    });
+  });
+
+  assert.equal(status, 403);
+  post(url('/webrtc/offer'), { v: PROTOCOL_VERSION, parentId: 'parent-1', offer: OFFER }).catch(() => {});
+  await waitFor(() => host.messages.length > 0);
+  assert.equal(host.messages[0].message.type, 'offer');
+});
+
+test('delivers parent messages to an HTTP host polling for events', async (t) => {
+  const { url } = await startServer(t, { httpHost: true });
+  const poll = fetch(url('/webrtc/host/events')).then((response) => response.json());
+  // Let the poll arrive before the parent does
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  const offered = post(url('/webrtc/offer'), { v: PROTOCOL_VERSION, parentId: 'parent-1', offer: OFFER });
+  const { events } = await poll;
+  assert.equal(events.length, 1);
+  assert.equal(events[0].parentId, 'parent-1');
+  assert.equal(events[0].message.type, 'offer');
+
+  await post(url('/webrtc/host/message'), {
+    parentId: 'parent-1',
+    message: { v: PROTOCOL_VERSION, type: 'answer', answer: ANSWER }
+  });
+  const { status, body } = await offered;
+  assert.equal(status, 200);
+  assert.deepEqual(body.answer, ANSWER);
+});
+
+test('relays parent socket messages and tells the host when the socket stays gone', async (t) => {
+  const { signaling, port } = await startServer(t, { sessionGraceMs: 50 });
+  const received = answerAsBridgeHost(signaling);
+  const { socket, messages } = await openSocket(`ws://127.0.0.1:${port}/webrtc/ws?parentId=parent-1`);
+
+  socket.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'offer', offer: OFFER }));
+  await waitFor(() => messages.length > 0);
+  assert.equal(messages[0].type, 'answer');
+  assert.deepEqual(messages[0].answer, ANSWER);
+
+  socket.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'ice-candidate', candidate: CANDIDATE }));
+  socket.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'ice-candidate', candidate: CANDIDATE, ...signRequest('ice-candidate', 'parent-1', 1) }));
+  await waitFor(() => received.some(({ message }) => message.type === 'ice-candidate'));
+  assert.equal(received.filter(({ message }) => message.type === 'ice-candidate').length, 1);
+
+  socket.close();
+  await waitFor(() => received.some(({ message }) => message.type === 'bye'));
+  assert.equal(received.at(-1).message.reason, 'Socket closed');
+});
+
+test('keeps the session when the parent reconnects within the grace period', async (t) => {
+  const { signaling, port } = await startServer(t, { sessionGraceMs: 200 });
+  const received = answerAsBridgeHost(signaling);
+  const first = await openSocket(`ws://127.0.0.1:${port}/webrtc/ws?parentId=parent-1`);
+  first.socket.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'offer', offer: OFFER }));
+  await waitFor(() => first.messages.length > 0);
+
+  first.socket.close();
+  await once(first.socket, 'close');
+  const second = await openSocket(`ws://127.0.0.1:${port}/webrtc/ws?parentId=parent-1`);
+  t.after(() => second.socket.close());
+  second.socket.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'ice-candidate', candidate: CANDIDATE, ...signRequest('ice-candidate', 'parent-1', 1) }));
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  assert.equal(received.some(({ message }) => message.type === 'bye'), false);
+  assert.equal(received.filter(({ message }) => message.type === 'ice-candidate').length, 1);
+});
+
+test('keeps the session for a parent that carries on over HTTP', async (t) => {
+  const { signaling, port, url } = await startServer(t, { sessionGraceMs: 200 });
+  const received = answerAsBridgeHost(signaling);
+  const { socket, messages } = await openSocket(`ws://127.0.0.1:${port}/webrtc/ws?parentId=parent-1`);
+  socket.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'offer', offer: OFFER }));
+  await waitFor(() => messages.length > 0);
+
+  socket.close();
+  await once(socket, 'close');
+  const { status } = await post(url('/webrtc/ice-candidate'), {
+    v: PROTOCOL_VERSION,
+    parentId: 'parent-1',
+    candidate: CANDIDATE,
+    ...signRequest('ice-candidate', 'parent-1', 1)
+  });
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  assert.equal(status, 200);
+  assert.equal(received.some(({ message }) => message.type === 'bye'), false);
+});
+
+test('does not say bye for a socket that never had a session', async (t) => {
+  const { signaling, port } = await startServer(t);
+  const received = answerAsBridgeHost(signaling);
+  const first = await openSocket(`ws://127.0.0.1:${port}/webrtc/ws?parentId=parent-1`);
+  first.socket.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'offer', offer: OFFER }));
+  await waitFor(() => first.messages.length > 0);
+
+  // Someone else opens and drops a socket under the same parent id
+  const intruder = await openSocket(`ws://127.0.0.1:${port}/webrtc/ws?parentId=parent-1`);
+  intruder.socket.close();
+  await once(intruder.socket, 'close');
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  assert.equal(received.some(({ message }) => message.type === 'bye'), false);
+});
+
+test('answers malformed socket messages with an error', async (t) => {
+  const { signaling, port } = await startServer(t);
+  answerAsBridgeHost(signaling);
+  const { socket, messages } = await openSocket(`ws://127.0.0.1:${port}/webrtc/ws?parentId=parent-1`);
+  t.after(() => socket.close());
+
+  socket.send('not json');
+  await waitFor(() => messages.length > 0);
+
+  assert.equal(messages[0].type, 'error');
+});